@@ -0,0 +1,48 @@
+/**
+ * Mivna diagram embed
+ *
+ * Turns placeholder elements into live, pan/zoomable diagram frames:
+ *
+ *   <div data-mivna-diagram="SHARE_TOKEN" data-type="flowchart" data-theme="dark" data-height="480"></div>
+ *   <script src="https://YOUR-MIVNA-HOST/embed.js" async></script>
+ *
+ * Optional attributes: data-type (flowchart | erd | sequence | component),
+ * data-scope (diagram scope id; omit for the whole repository), data-theme (dark | light | neutral), data-height (pixels), data-controls="0".
+ */
+(function () {
+    var script = document.currentScript
+    var origin = script ? new URL(script.src).origin : window.location.origin
+
+    function mount(element) {
+        if (element.getAttribute('data-mivna-mounted')) return
+        element.setAttribute('data-mivna-mounted', 'true')
+
+        var params = new URLSearchParams()
+        params.set('type', element.getAttribute('data-type') || 'flowchart')
+        if (element.getAttribute('data-scope')) params.set('scope', element.getAttribute('data-scope'))
+        params.set('theme', element.getAttribute('data-theme') || 'dark')
+        if (element.getAttribute('data-controls') === '0') params.set('controls', '0')
+
+        var token = encodeURIComponent(element.getAttribute('data-mivna-diagram'))
+        var frame = document.createElement('iframe')
+        frame.src = origin + '/embed/' + token + '?' + params.toString()
+        frame.title = element.getAttribute('data-title') || 'Architecture diagram'
+        frame.width = '100%'
+        frame.height = element.getAttribute('data-height') || '480'
+        frame.loading = 'lazy'
+        frame.style.border = '0'
+        frame.style.display = 'block'
+        element.appendChild(frame)
+    }
+
+    function mountAll() {
+        var elements = document.querySelectorAll('[data-mivna-diagram]')
+        for (var i = 0; i < elements.length; i++) mount(elements[i])
+    }
+
+    if (document.readyState === 'loading') {
+        document.addEventListener('DOMContentLoaded', mountAll)
+    } else {
+        mountAll()
+    }
+})()
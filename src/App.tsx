@@ -1,18 +1,33 @@
-import { BrowserRouter, Routes, Route, Navigate } from 'react-router-dom'
+import { BrowserRouter, Routes, Route, Navigate, Outlet } from 'react-router-dom'
 import { Toaster } from 'react-hot-toast'
 import { AuthProvider } from './hooks/useAuth'
 import { OrganizationProvider } from './hooks/useOrganization'
+import { JobProvider } from './hooks/JobProvider'
 import { ProtectedRoute } from './components/ProtectedRoute'
 import { ErrorBoundary } from './components/ErrorBoundary'
+import { JobTray } from './components/JobTray'
 import { Login } from './pages/Login'
 import { Dashboard } from './pages/Dashboard'
 import { DiagramViewer } from './pages/DiagramViewer'
 import { ReadmeViewer } from './pages/ReadmeViewer'
 import { TeamSettings } from './pages/TeamSettings'
+import { SharedView } from './pages/SharedView'
+import { EmbedView } from './pages/EmbedView'
 import Pricing from './pages/Pricing'
 import Billing from './pages/Billing'
 import './index.css'
 
+// Signed-in app: background jobs and their tray. Kept away from the public share and
+// embed routes so a visitor's jobs never run or show inside a third-party iframe.
+function JobShell() {
+  return (
+    <JobProvider>
+      <Outlet />
+      <JobTray />
+    </JobProvider>
+  )
+}
+
 function App() {
   return (
     <ErrorBoundary>
@@ -29,55 +44,61 @@ function App() {
           <BrowserRouter>
             <Routes>
               <Route path="/login" element={<Login />} />
-              <Route
-                path="/dashboard"
-                element={
-                  <ProtectedRoute>
-                    <Dashboard />
-                  </ProtectedRoute>
-                }
-              />
-              <Route
-                path="/repository/:id"
-                element={
-                  <ProtectedRoute>
-                    <DiagramViewer />
-                  </ProtectedRoute>
-                }
-              />
-              <Route
-                path="/repository/:id/readme"
-                element={
-                  <ProtectedRoute>
-                    <ReadmeViewer />
-                  </ProtectedRoute>
-                }
-              />
-              <Route
-                path="/team"
-                element={
-                  <ProtectedRoute>
-                    <TeamSettings />
-                  </ProtectedRoute>
-                }
-              />
-              <Route
-                path="/team/:orgId"
-                element={
-                  <ProtectedRoute>
-                    <TeamSettings />
-                  </ProtectedRoute>
-                }
-              />
+              <Route element={<JobShell />}>
+                <Route
+                  path="/dashboard"
+                  element={
+                    <ProtectedRoute>
+                      <Dashboard />
+                    </ProtectedRoute>
+                  }
+                />
+                <Route
+                  path="/repository/:id"
+                  element={
+                    <ProtectedRoute>
+                      <DiagramViewer />
+                    </ProtectedRoute>
+                  }
+                />
+                <Route
+                  path="/repository/:id/readme"
+                  element={
+                    <ProtectedRoute>
+                      <ReadmeViewer />
+                    </ProtectedRoute>
+                  }
+                />
+                <Route
+                  path="/team"
+                  element={
+                    <ProtectedRoute>
+                      <TeamSettings />
+                    </ProtectedRoute>
+                  }
+                />
+                <Route
+                  path="/team/:orgId"
+                  element={
+                    <ProtectedRoute>
+                      <TeamSettings />
+                    </ProtectedRoute>
+                  }
+                />
+                <Route
+                  path="/settings/billing"
+                  element={
+                    <ProtectedRoute>
+                      <Billing />
+                    </ProtectedRoute>
+                  }
+                />
+              </Route>
+              {/* Public, read-only share links (no account needed) */}
+              <Route path="/share/:token" element={<SharedView />} />
+              <Route path="/share/:token/readme" element={<SharedView />} />
+              <Route path="/embed/:token" element={<EmbedView />} />
               <Route path="/pricing" element={<Pricing />} />
-              <Route
-                path="/settings/billing"
-                element={
-                  <ProtectedRoute>
-                    <Billing />
-                  </ProtectedRoute>
-                }
-              />
               <Route path="/" element={<Navigate to="/dashboard" replace />} />
             </Routes>
           </BrowserRouter>
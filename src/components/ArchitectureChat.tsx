@@ -0,0 +1,293 @@
+import { useEffect, useMemo, useRef, useState } from 'react'
+import ReactMarkdown from 'react-markdown'
+import remarkGfm from 'remark-gfm'
+import { MessageSquare, Plus, Send, Square, Trash2, X } from 'lucide-react'
+import { useAuth } from '../hooks/useAuth'
+import type { ChatMessage, ChatThread, Repository, RepositoryDiagram } from '../lib/supabase'
+import type { DiagramGraph } from '../lib/diagramGraph'
+import { ChatService } from '../lib/chat'
+import { getUserFriendlyErrorMessage } from '../lib/api'
+import { showToast } from '../lib/toast'
+import { trackEvent, AnalyticsEvents } from '../lib/analytics'
+import './ArchitectureChat.css'
+
+interface ArchitectureChatProps {
+    repo: Repository
+    diagramType: RepositoryDiagram['diagram_type']
+    diagramCode: string | null
+    graph: DiagramGraph
+    onSelectNode: (nodeId: string) => void
+    onClose: () => void
+}
+
+const NODE_LINK_PREFIX = '#node:'
+const NODE_REFERENCE = /\[\[([^\]\n]+)\]\]/g
+
+// Turn `[[NodeId]]` references into markdown links the renderer can pick up
+function linkNodeReferences(content: string, graph: DiagramGraph): string {
+    const byLabel = new Map<string, string>()
+    graph.nodes.forEach(node => byLabel.set(node.label.toLowerCase(), node.id))
+    graph.subgraphs.forEach(subgraph => byLabel.set(subgraph.label.toLowerCase(), subgraph.id))
+
+    return content.replace(NODE_REFERENCE, (_match, reference: string) => {
+        const ref = reference.trim()
+        const id = graph.nodes.has(ref) || graph.subgraphs.has(ref) ? ref : byLabel.get(ref.toLowerCase())
+        if (!id) return ref
+        const label = (graph.nodes.get(id)?.label ?? graph.subgraphs.get(id)?.label ?? id)
+            .replace(/<[^>]+>/g, ' ')
+            .replace(/[[\]]/g, '')
+        return `[${label}](${NODE_LINK_PREFIX}${encodeURIComponent(id)})`
+    })
+}
+
+export function ArchitectureChat({ repo, diagramType, diagramCode, graph, onSelectNode, onClose }: ArchitectureChatProps) {
+    const { user, session } = useAuth()
+    const [threads, setThreads] = useState<ChatThread[]>([])
+    const [activeThreadId, setActiveThreadId] = useState<string | null>(null)
+    const [messages, setMessages] = useState<ChatMessage[]>([])
+    const [loadingMessages, setLoadingMessages] = useState(false)
+    const [input, setInput] = useState('')
+    const [streamingAnswer, setStreamingAnswer] = useState<string | null>(null)
+    const [error, setError] = useState<string | null>(null)
+    const abortRef = useRef<AbortController | null>(null)
+    const bottomRef = useRef<HTMLDivElement>(null)
+
+    const sending = streamingAnswer !== null
+
+    // Load this user's threads for the repository and open the most recent one
+    useEffect(() => {
+        if (!user) return
+        let cancelled = false
+        ChatService.listThreads(repo.id, user.id)
+            .then(async data => {
+                if (cancelled || data.length === 0) return
+                setThreads(data)
+                setActiveThreadId(data[0].id)
+                const latest = await ChatService.listMessages(data[0].id)
+                if (!cancelled) setMessages(latest)
+            })
+            .catch(err => {
+                console.error('Failed to load chat threads:', err)
+            })
+        return () => {
+            cancelled = true
+        }
+    }, [repo.id, user])
+
+    // Stop any answer still streaming when the panel closes
+    useEffect(() => () => abortRef.current?.abort(), [])
+
+    useEffect(() => {
+        bottomRef.current?.scrollIntoView({ block: 'end' })
+    }, [messages, streamingAnswer])
+
+    const markdownComponents = useMemo(() => ({
+        a: ({ href, children }: { href?: string; children?: React.ReactNode }) => {
+            if (href?.startsWith(NODE_LINK_PREFIX)) {
+                const nodeId = decodeURIComponent(href.slice(NODE_LINK_PREFIX.length))
+                return (
+                    <button className="chat-node-ref" onClick={() => onSelectNode(nodeId)} title={`Show ${nodeId} in the diagram`}>
+                        {children}
+                    </button>
+                )
+            }
+            return <a href={href} target="_blank" rel="noopener noreferrer">{children}</a>
+        },
+    }), [onSelectNode])
+
+    const openThread = async (threadId: string | null) => {
+        abortRef.current?.abort()
+        setActiveThreadId(threadId)
+        setMessages([])
+        setError(null)
+        if (!threadId) return
+
+        setLoadingMessages(true)
+        try {
+            setMessages(await ChatService.listMessages(threadId))
+        } catch (err) {
+            console.error('Failed to load chat messages:', err)
+            setError(getUserFriendlyErrorMessage(err))
+        } finally {
+            setLoadingMessages(false)
+        }
+    }
+
+    const handleDeleteThread = async () => {
+        if (!activeThreadId) return
+        try {
+            await ChatService.deleteThread(activeThreadId)
+            const remaining = threads.filter(t => t.id !== activeThreadId)
+            setThreads(remaining)
+            openThread(remaining[0]?.id ?? null)
+        } catch (err) {
+            console.error('Failed to delete chat thread:', err)
+            showToast.error(getUserFriendlyErrorMessage(err))
+        }
+    }
+
+    const handleSend = async () => {
+        const question = input.trim()
+        if (!question || !user || !session || sending) return
+
+        setInput('')
+        setError(null)
+        setStreamingAnswer('')
+        const controller = new AbortController()
+        abortRef.current = controller
+
+        let threadId = activeThreadId
+        let answer = ''
+        try {
+            if (!threadId) {
+                const thread = await ChatService.createThread(repo.id, user.id, question.slice(0, 80))
+                threadId = thread.id
+                setThreads(prev => [thread, ...prev])
+                setActiveThreadId(thread.id)
+            }
+
+            const userMessage = await ChatService.addMessage(threadId, 'user', question)
+            const history = messages.map(({ role, content }) => ({ role, content }))
+            setMessages(prev => [...prev, userMessage])
+            trackEvent(AnalyticsEvents.ASK_ARCHITECTURE, { repo: repo.repo_name })
+
+            answer = await ChatService.ask(
+                {
+                    repoOwner: repo.repo_owner,
+                    repoName: repo.repo_name,
+                    diagramType,
+                    diagramCode,
+                    readme: repo.readme_content,
+                    nodes: [...graph.nodes.values()].map(n => ({ id: n.id, label: n.label })),
+                    history,
+                    question,
+                },
+                session.access_token,
+                delta => {
+                    answer += delta
+                    setStreamingAnswer(answer)
+                },
+                controller.signal
+            )
+        } catch (err) {
+            if (!(err instanceof Error && err.name === 'AbortError')) {
+                console.error('Failed to ask the architecture:', err)
+                setError(getUserFriendlyErrorMessage(err))
+            }
+        }
+
+        // Keep whatever arrived, even if the answer was stopped part-way
+        if (threadId && answer.trim()) {
+            try {
+                const saved = await ChatService.addMessage(threadId, 'assistant', answer)
+                if (abortRef.current === controller) setMessages(prev => [...prev, saved])
+            } catch (err) {
+                console.error('Failed to save answer:', err)
+            }
+        }
+        if (abortRef.current === controller) {
+            abortRef.current = null
+            setStreamingAnswer(null)
+        }
+    }
+
+    const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+        if (e.key === 'Enter' && !e.shiftKey) {
+            e.preventDefault()
+            handleSend()
+        }
+    }
+
+    return (
+        <div className="chat-panel">
+            <div className="chat-header">
+                <h3>
+                    <MessageSquare size={18} />
+                    Ask the Architecture
+                </h3>
+                <button onClick={onClose} title="Close chat">
+                    <X size={18} />
+                </button>
+            </div>
+
+            <div className="chat-threads">
+                <select
+                    value={activeThreadId ?? ''}
+                    onChange={e => openThread(e.target.value || null)}
+                    disabled={sending}
+                    aria-label="Conversation"
+                >
+                    <option value="">New conversation</option>
+                    {threads.map(thread => (
+                        <option key={thread.id} value={thread.id}>{thread.title}</option>
+                    ))}
+                </select>
+                <button onClick={() => openThread(null)} disabled={sending || !activeThreadId} title="New conversation">
+                    <Plus size={16} />
+                </button>
+                <button onClick={handleDeleteThread} disabled={sending || !activeThreadId} title="Delete conversation">
+                    <Trash2 size={16} />
+                </button>
+            </div>
+
+            <div className="chat-messages">
+                {loadingMessages ? (
+                    <div className="chat-empty">
+                        <div className="loading-spinner small"></div>
+                    </div>
+                ) : messages.length === 0 && !sending ? (
+                    <div className="chat-empty">
+                        <p>Ask anything about {repo.repo_name}: how data flows, where a feature lives, what depends on what.</p>
+                    </div>
+                ) : (
+                    messages.map(message => (
+                        <div key={message.id} className={`chat-message ${message.role}`}>
+                            {message.role === 'assistant' ? (
+                                <ReactMarkdown remarkPlugins={[remarkGfm]} components={markdownComponents}>
+                                    {linkNodeReferences(message.content, graph)}
+                                </ReactMarkdown>
+                            ) : (
+                                <p>{message.content}</p>
+                            )}
+                        </div>
+                    ))
+                )}
+
+                {sending && (
+                    <div className="chat-message assistant streaming">
+                        {streamingAnswer ? (
+                            <ReactMarkdown remarkPlugins={[remarkGfm]} components={markdownComponents}>
+                                {linkNodeReferences(streamingAnswer, graph)}
+                            </ReactMarkdown>
+                        ) : (
+                            <div className="chat-typing"><span /><span /><span /></div>
+                        )}
+                    </div>
+                )}
+
+                {error && <div className="chat-error">{error}</div>}
+                <div ref={bottomRef} />
+            </div>
+
+            <div className="chat-input">
+                <textarea
+                    value={input}
+                    onChange={e => setInput(e.target.value)}
+                    onKeyDown={handleKeyDown}
+                    placeholder="Ask about this architecture..."
+                    rows={2}
+                    disabled={!session}
+                />
+                {sending ? (
+                    <button onClick={() => abortRef.current?.abort()} title="Stop">
+                        <Square size={16} />
+                    </button>
+                ) : (
+                    <button onClick={handleSend} disabled={!input.trim()} title="Send">
+                        <Send size={16} />
+                    </button>
+                )}
+            </div>
+        </div>
+    )
+}
@@ -0,0 +1,156 @@
+import { useState } from 'react'
+import { Webhook, X } from 'lucide-react'
+import type { RefreshSetting, Repository, RepositoryDiagram } from '../lib/supabase'
+import { DEFAULT_REFRESH_SETTING, type RefreshSettingInput } from '../lib/autoRefresh'
+import { shortSha } from '../lib/github'
+import { DIAGRAM_TYPE_NAMES } from '../lib/export'
+import { showToast } from '../lib/toast'
+import { trackEvent, AnalyticsEvents } from '../lib/analytics'
+import './AutoRefreshModal.css'
+
+interface AutoRefreshModalProps {
+    repo: Repository
+    setting: RefreshSetting | undefined
+    onSave: (input: RefreshSettingInput) => Promise<boolean>
+    onClose: () => void
+}
+
+const MODES: { mode: RefreshSetting['mode']; label: string; description: string }[] = [
+    {
+        mode: 'webhook',
+        label: 'GitHub webhook',
+        description: 'Instant. Registers a push webhook, which needs admin access to the repository.',
+    },
+    {
+        mode: 'poll',
+        label: 'Poll the default branch',
+        description: 'Checks for new commits every few minutes while Mivna is open.',
+    },
+]
+
+const DIAGRAM_TYPES = Object.keys(DIAGRAM_TYPE_NAMES) as RepositoryDiagram['diagram_type'][]
+
+export function AutoRefreshModal({ repo, setting, onSave, onClose }: AutoRefreshModalProps) {
+    const [draft, setDraft] = useState<RefreshSettingInput>(() => setting
+        ? {
+            enabled: setting.enabled,
+            mode: setting.mode,
+            diagram_types: setting.diagram_types,
+            regenerate_readme: setting.regenerate_readme,
+        }
+        : DEFAULT_REFRESH_SETTING)
+    const [saving, setSaving] = useState(false)
+
+    const update = (patch: Partial<RefreshSettingInput>) => setDraft(prev => ({ ...prev, ...patch }))
+
+    const toggleType = (type: RepositoryDiagram['diagram_type']) => {
+        update({
+            diagram_types: draft.diagram_types.includes(type)
+                ? draft.diagram_types.filter(t => t !== type)
+                : [...draft.diagram_types, type],
+        })
+    }
+
+    const handleSave = async () => {
+        setSaving(true)
+        const saved = await onSave(draft)
+        setSaving(false)
+        if (!saved) return
+        showToast.success(draft.enabled ? 'Auto-refresh enabled' : 'Auto-refresh turned off')
+        trackEvent(AnalyticsEvents.SAVE_AUTO_REFRESH, {
+            enabled: draft.enabled ? 'yes' : 'no',
+            mode: draft.mode,
+            diagrams: draft.diagram_types.length,
+        })
+        onClose()
+    }
+
+    return (
+        <div className="modal-overlay" onClick={onClose}>
+            <div className="auto-refresh-modal" onClick={(e) => e.stopPropagation()}>
+                <div className="modal-header">
+                    <h3>
+                        <Webhook size={18} />
+                        Auto-refresh {repo.repo_name}
+                    </h3>
+                    <button className="close-btn" onClick={onClose}>
+                        <X size={20} />
+                    </button>
+                </div>
+
+                <div className="modal-body">
+                    <label className="auto-refresh-toggle">
+                        <input
+                            type="checkbox"
+                            checked={draft.enabled}
+                            onChange={e => update({ enabled: e.target.checked })}
+                        />
+                        Watch the default branch for new commits
+                    </label>
+
+                    <fieldset className="auto-refresh-section" disabled={!draft.enabled}>
+                        <legend>How to notice new commits</legend>
+                        {MODES.map(({ mode, label, description }) => (
+                            <label key={mode} className={`auto-refresh-mode ${draft.mode === mode ? 'active' : ''}`}>
+                                <input
+                                    type="radio"
+                                    name="auto-refresh-mode"
+                                    checked={draft.mode === mode}
+                                    onChange={() => update({ mode })}
+                                />
+                                <span>
+                                    {label}
+                                    <small>{description}</small>
+                                </span>
+                            </label>
+                        ))}
+                    </fieldset>
+
+                    <fieldset className="auto-refresh-section" disabled={!draft.enabled}>
+                        <legend>Regenerate automatically</legend>
+                        <div className="auto-refresh-targets">
+                            {DIAGRAM_TYPES.map(type => (
+                                <label key={type}>
+                                    <input
+                                        type="checkbox"
+                                        checked={draft.diagram_types.includes(type)}
+                                        onChange={() => toggleType(type)}
+                                    />
+                                    {DIAGRAM_TYPE_NAMES[type]}
+                                </label>
+                            ))}
+                            <label>
+                                <input
+                                    type="checkbox"
+                                    checked={draft.regenerate_readme}
+                                    onChange={e => update({ regenerate_readme: e.target.checked })}
+                                />
+                                README
+                            </label>
+                        </div>
+                        <p className="auto-refresh-hint">
+                            {draft.diagram_types.length === 0 && !draft.regenerate_readme
+                                ? 'Nothing selected: the repository is only marked stale.'
+                                : 'Counts toward your generation limits, once per new commit.'}
+                        </p>
+                    </fieldset>
+
+                    {repo.last_scanned_sha && (
+                        <p className="auto-refresh-hint">
+                            Diagrams were last generated from commit <code>{shortSha(repo.last_scanned_sha)}</code>.
+                        </p>
+                    )}
+                </div>
+
+                <div className="modal-footer">
+                    <button className="secondary-btn" onClick={onClose} disabled={saving}>
+                        Cancel
+                    </button>
+                    <button className="primary-btn" onClick={handleSave} disabled={saving}>
+                        {saving ? 'Saving...' : 'Save'}
+                    </button>
+                </div>
+            </div>
+        </div>
+    )
+}
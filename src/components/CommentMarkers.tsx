@@ -0,0 +1,135 @@
+import { useEffect, useState } from 'react'
+import { MessageCircle } from 'lucide-react'
+import { findNodeElements, localRect } from '../lib/diagramDom'
+import { toViewport, type Point, type Size, type ViewState } from '../lib/viewport'
+import type { CommentAnchor, CommentThread } from '../lib/comments'
+import './CommentMarkers.css'
+
+interface CommentMarkersProps {
+    threads: CommentThread[]
+    draftAnchor: CommentAnchor | null
+    activeThreadId: string | null
+    placing: boolean
+    canvasRef: React.RefObject<HTMLDivElement | null>
+    containerRef: React.RefObject<HTMLDivElement | null>
+    renderKey: number
+    view: ViewState
+    animating: boolean
+    onSelect: (thread: CommentThread) => void
+    onCancelPlacing: () => void
+}
+
+interface Layout {
+    canvas: Size
+    viewport: Size
+    // Local position of each marker, keyed by thread ID ('draft' for the unsaved pin)
+    anchors: Map<string, Point>
+}
+
+const DRAFT_KEY = 'draft'
+
+// Node pins sit on the node's top-right corner; nodes missing from this render get no marker
+function anchorPoint(canvas: HTMLElement, anchor: CommentAnchor): Point | null {
+    if ('position' in anchor) return anchor.position
+    const element = findNodeElements(canvas, anchor.nodeId)[0]
+    if (!element) return null
+    const rect = localRect(canvas, element)
+    return { x: rect.x + rect.width, y: rect.y }
+}
+
+function threadAnchor(thread: CommentThread): CommentAnchor | null {
+    const { node_id, position_x, position_y } = thread.root
+    if (node_id) return { nodeId: node_id }
+    if (position_x === null || position_y === null) return null
+    return { position: { x: position_x, y: position_y } }
+}
+
+export function CommentMarkers({
+    threads,
+    draftAnchor,
+    activeThreadId,
+    placing,
+    canvasRef,
+    containerRef,
+    renderKey,
+    view,
+    animating,
+    onSelect,
+    onCancelPlacing,
+}: CommentMarkersProps) {
+    const [layout, setLayout] = useState<Layout | null>(null)
+
+    // Re-measure after every render of the diagram and whenever either box resizes
+    useEffect(() => {
+        const canvas = canvasRef.current
+        const container = containerRef.current
+        if (!canvas || !container) return
+
+        const measure = () => {
+            const anchors = new Map<string, Point>()
+            threads.forEach(thread => {
+                const anchor = threadAnchor(thread)
+                const point = anchor && anchorPoint(canvas, anchor)
+                if (point) anchors.set(thread.root.id, point)
+            })
+            const draftPoint = draftAnchor && anchorPoint(canvas, draftAnchor)
+            if (draftPoint) anchors.set(DRAFT_KEY, draftPoint)
+
+            setLayout({
+                canvas: { width: canvas.offsetWidth, height: canvas.offsetHeight },
+                viewport: { width: container.clientWidth, height: container.clientHeight },
+                anchors,
+            })
+        }
+
+        const observer = new ResizeObserver(measure)
+        observer.observe(canvas)
+        observer.observe(container)
+        return () => observer.disconnect()
+    }, [canvasRef, containerRef, renderKey, threads, draftAnchor])
+
+    const place = (point: Point) => {
+        if (!layout) return undefined
+        const { x, y } = toViewport(point, view, layout.canvas, layout.viewport)
+        return { transform: `translate(${x}px, ${y}px)` }
+    }
+    const draftPoint = layout?.anchors.get(DRAFT_KEY)
+
+    return (
+        <div className={`comment-markers ${animating ? 'animating' : ''}`}>
+            {placing && (
+                <div className="comment-placing-hint" onPointerDown={e => e.stopPropagation()} onClick={e => e.stopPropagation()}>
+                    Click a node or anywhere on the canvas to pin a comment
+                    <button onClick={onCancelPlacing}>Cancel</button>
+                </div>
+            )}
+            {threads.map(thread => {
+                const point = layout?.anchors.get(thread.root.id)
+                if (!point) return null
+                const count = thread.replies.length + 1
+                return (
+                    <button
+                        key={thread.root.id}
+                        className={`comment-marker ${thread.root.resolved_at ? 'resolved' : ''} ${activeThreadId === thread.root.id ? 'active' : ''}`}
+                        style={place(point)}
+                        onPointerDown={e => e.stopPropagation()}
+                        onClick={e => {
+                            e.stopPropagation()
+                            onSelect(thread)
+                        }}
+                        title={thread.root.body}
+                        aria-label={`Comment thread with ${count} ${count === 1 ? 'comment' : 'comments'}`}
+                    >
+                        <MessageCircle size={14} />
+                        {count > 1 && <span>{count}</span>}
+                    </button>
+                )
+            })}
+            {draftPoint && (
+                <div className="comment-marker draft" style={place(draftPoint)} aria-hidden="true">
+                    <MessageCircle size={14} />
+                </div>
+            )}
+        </div>
+    )
+}
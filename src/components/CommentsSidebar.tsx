@@ -0,0 +1,338 @@
+import { useEffect, useRef, useState } from 'react'
+import { CheckCircle2, MapPin, MessageCircle, RotateCcw, Trash2, X } from 'lucide-react'
+import { useAuth } from '../hooks/useAuth'
+import { useOrganization } from '../hooks/useOrganization'
+import type { DiagramComments } from '../hooks/useDiagramComments'
+import type { DiagramComment, OrgMember } from '../lib/supabase'
+import type { CommentAnchor, CommentThread } from '../lib/comments'
+import { labelFor, type DiagramGraph } from '../lib/diagramGraph'
+import './CommentsSidebar.css'
+
+interface CommentsSidebarProps {
+    comments: DiagramComments
+    graph: DiagramGraph
+    draftAnchor: CommentAnchor | null
+    placing: boolean
+    activeThreadId: string | null
+    onStartPlacing: () => void
+    onCancelDraft: () => void
+    onDraftSaved: () => void
+    onSelectThread: (thread: CommentThread) => void
+    onClose: () => void
+}
+
+type ThreadFilter = 'open' | 'resolved' | 'all'
+
+const MAX_SUGGESTIONS = 5
+
+function anchorLabel(graph: DiagramGraph, anchor: { nodeId: string } | null): string {
+    if (!anchor) return 'Pinned to canvas'
+    const exists = graph.nodes.has(anchor.nodeId) || graph.subgraphs.has(anchor.nodeId)
+    return exists
+        ? labelFor(graph, anchor.nodeId).replace(/<[^>]+>/g, ' ')
+        : `${anchor.nodeId} (no longer in this diagram)`
+}
+
+function formatTime(iso: string): string {
+    return new Date(iso).toLocaleString(undefined, { dateStyle: 'medium', timeStyle: 'short' })
+}
+
+// Highlight @mentions of known members
+function CommentBody({ body, members }: { body: string; members: OrgMember[] }) {
+    const names = new Set(members.map(m => m.profile?.github_username.toLowerCase()).filter(Boolean))
+    return (
+        <p className="comment-body">
+            {body.split(/(@[\w-]+)/g).map((part, index) =>
+                part.startsWith('@') && names.has(part.slice(1).toLowerCase())
+                    ? <span key={index} className="comment-mention">{part}</span>
+                    : part
+            )}
+        </p>
+    )
+}
+
+interface MentionInputProps {
+    members: OrgMember[]
+    placeholder: string
+    submitLabel: string
+    onSubmit: (body: string) => Promise<boolean>
+    onCancel?: () => void
+    autoFocus?: boolean
+}
+
+// Textarea with @mention suggestions; Ctrl/Cmd+Enter submits
+function MentionInput({ members, placeholder, submitLabel, onSubmit, onCancel, autoFocus }: MentionInputProps) {
+    const [value, setValue] = useState('')
+    const [caret, setCaret] = useState(0)
+    const [highlighted, setHighlighted] = useState(0)
+    const [submitting, setSubmitting] = useState(false)
+    const textareaRef = useRef<HTMLTextAreaElement>(null)
+
+    const query = /@([\w-]*)$/.exec(value.slice(0, caret))?.[1]
+    const suggestions = query === undefined ? [] : members
+        .filter(m => m.profile?.github_username.toLowerCase().startsWith(query.toLowerCase()))
+        .slice(0, MAX_SUGGESTIONS)
+
+    const insertMention = (member: OrgMember) => {
+        const username = member.profile?.github_username
+        if (!username || query === undefined) return
+        const start = caret - query.length
+        const next = `${value.slice(0, start)}${username} ${value.slice(caret)}`
+        const nextCaret = start + username.length + 1
+        setValue(next)
+        setCaret(nextCaret)
+        setHighlighted(0)
+        requestAnimationFrame(() => textareaRef.current?.setSelectionRange(nextCaret, nextCaret))
+    }
+
+    const submit = async () => {
+        const body = value.trim()
+        if (!body || submitting) return
+        setSubmitting(true)
+        if (await onSubmit(body)) {
+            setValue('')
+            setCaret(0)
+        }
+        setSubmitting(false)
+    }
+
+    const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+        if (suggestions.length > 0) {
+            if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+                e.preventDefault()
+                const step = e.key === 'ArrowDown' ? 1 : -1
+                setHighlighted(i => (i + step + suggestions.length) % suggestions.length)
+                return
+            }
+            if (e.key === 'Enter' || e.key === 'Tab') {
+                e.preventDefault()
+                insertMention(suggestions[Math.min(highlighted, suggestions.length - 1)])
+                return
+            }
+        }
+        if (e.key === 'Enter' && (e.metaKey || e.ctrlKey)) {
+            e.preventDefault()
+            submit()
+        } else if (e.key === 'Escape' && onCancel) {
+            e.preventDefault()
+            onCancel()
+        }
+    }
+
+    return (
+        <div className="mention-input">
+            <textarea
+                ref={textareaRef}
+                value={value}
+                onChange={e => {
+                    setValue(e.target.value)
+                    setCaret(e.target.selectionStart)
+                    setHighlighted(0)
+                }}
+                onSelect={e => setCaret(e.currentTarget.selectionStart)}
+                onKeyDown={handleKeyDown}
+                placeholder={placeholder}
+                rows={2}
+                autoFocus={autoFocus}
+            />
+            {suggestions.length > 0 && (
+                <ul className="mention-suggestions" role="listbox">
+                    {suggestions.map((member, index) => (
+                        <li
+                            key={member.user_id}
+                            role="option"
+                            aria-selected={index === highlighted}
+                            className={index === highlighted ? 'highlighted' : ''}
+                            onMouseDown={e => {
+                                e.preventDefault()
+                                insertMention(member)
+                            }}
+                        >
+                            {member.profile?.avatar_url && <img src={member.profile.avatar_url} alt="" />}
+                            @{member.profile?.github_username}
+                        </li>
+                    ))}
+                </ul>
+            )}
+            <div className="mention-input-actions">
+                {onCancel && (
+                    <button className="comment-secondary-btn" onClick={onCancel}>
+                        Cancel
+                    </button>
+                )}
+                <button className="comment-primary-btn" onClick={submit} disabled={!value.trim() || submitting}>
+                    {submitLabel}
+                </button>
+            </div>
+        </div>
+    )
+}
+
+export function CommentsSidebar({
+    comments,
+    graph,
+    draftAnchor,
+    placing,
+    activeThreadId,
+    onStartPlacing,
+    onCancelDraft,
+    onDraftSaved,
+    onSelectThread,
+    onClose,
+}: CommentsSidebarProps) {
+    const { user } = useAuth()
+    const { currentOrg, getMembers } = useOrganization()
+    const [members, setMembers] = useState<OrgMember[]>([])
+    const [filter, setFilter] = useState<ThreadFilter>('open')
+    const activeRef = useRef<HTMLDivElement>(null)
+
+    // Members of the current organization can be @mentioned
+    useEffect(() => {
+        let cancelled = false
+        const load = currentOrg ? getMembers(currentOrg.id) : Promise.resolve([])
+        load.then(data => {
+            if (!cancelled) setMembers(data)
+        })
+        return () => {
+            cancelled = true
+        }
+    }, [currentOrg, getMembers])
+
+    useEffect(() => {
+        activeRef.current?.scrollIntoView({ block: 'nearest', behavior: 'smooth' })
+    }, [activeThreadId])
+
+    const openCount = comments.threads.filter(t => !t.root.resolved_at).length
+    const visible = comments.threads.filter(thread =>
+        filter === 'all' || (filter === 'open') === !thread.root.resolved_at
+    )
+
+    const renderComment = (comment: DiagramComment) => (
+        <div key={comment.id} className="comment">
+            <div className="comment-meta">
+                {comment.author?.avatar_url && <img src={comment.author.avatar_url} alt="" />}
+                <span className="comment-author">{comment.author?.github_username ?? 'Unknown'}</span>
+                <span>{formatTime(comment.created_at)}</span>
+                {comment.author_id === user?.id && (
+                    <button
+                        className="comment-icon-btn"
+                        onClick={() => comments.remove(comment)}
+                        title={comment.parent_id ? 'Delete reply' : 'Delete thread'}
+                    >
+                        <Trash2 size={13} />
+                    </button>
+                )}
+            </div>
+            <CommentBody body={comment.body} members={members} />
+        </div>
+    )
+
+    return (
+        <div className="comments-panel">
+            <div className="comments-header">
+                <h3>
+                    <MessageCircle size={18} />
+                    Comments
+                    {openCount > 0 && <span className="comments-count">{openCount}</span>}
+                </h3>
+                <button onClick={onClose} title="Close comments">
+                    <X size={18} />
+                </button>
+            </div>
+
+            <div className="comments-toolbar">
+                <div className="comments-filter">
+                    {(['open', 'resolved', 'all'] as const).map(option => (
+                        <button
+                            key={option}
+                            className={filter === option ? 'active' : ''}
+                            onClick={() => setFilter(option)}
+                        >
+                            {option}
+                        </button>
+                    ))}
+                </div>
+                <button className="comment-primary-btn" onClick={onStartPlacing} disabled={placing}>
+                    <MapPin size={14} />
+                    {placing ? 'Click the diagram' : 'Add comment'}
+                </button>
+            </div>
+
+            <div className="comments-list">
+                {draftAnchor && (
+                    <div className="comment-thread draft">
+                        <div className="comment-anchor">
+                            <MapPin size={13} />
+                            {anchorLabel(graph, 'nodeId' in draftAnchor ? draftAnchor : null)}
+                        </div>
+                        <MentionInput
+                            members={members}
+                            placeholder="Write a comment… use @ to mention someone"
+                            submitLabel="Comment"
+                            onSubmit={async body => {
+                                const saved = await comments.create(draftAnchor, body, members)
+                                if (saved) onDraftSaved()
+                                return saved
+                            }}
+                            onCancel={onCancelDraft}
+                            autoFocus
+                        />
+                    </div>
+                )}
+
+                {visible.length === 0 && !draftAnchor && (
+                    <div className="comments-empty">
+                        {filter === 'resolved'
+                            ? 'No resolved comments'
+                            : 'No comments yet. Pin one to a node or anywhere on the canvas.'}
+                    </div>
+                )}
+
+                {visible.map(thread => {
+                    const active = thread.root.id === activeThreadId
+                    return (
+                        <div
+                            key={thread.root.id}
+                            ref={active ? activeRef : undefined}
+                            className={`comment-thread ${active ? 'active' : ''} ${thread.root.resolved_at ? 'resolved' : ''}`}
+                        >
+                            <button className="comment-anchor" onClick={() => onSelectThread(thread)}>
+                                <MapPin size={13} />
+                                {anchorLabel(graph, thread.root.node_id ? { nodeId: thread.root.node_id } : null)}
+                            </button>
+
+                            {renderComment(thread.root)}
+                            {thread.replies.map(renderComment)}
+
+                            {active && !thread.root.resolved_at && (
+                                <MentionInput
+                                    members={members}
+                                    placeholder="Reply…"
+                                    submitLabel="Reply"
+                                    onSubmit={body => comments.reply(thread.root, body, members)}
+                                />
+                            )}
+
+                            <div className="comment-thread-actions">
+                                {!active && (
+                                    <button className="comment-secondary-btn" onClick={() => onSelectThread(thread)}>
+                                        {thread.replies.length > 0
+                                            ? `${thread.replies.length} ${thread.replies.length === 1 ? 'reply' : 'replies'}`
+                                            : 'Reply'}
+                                    </button>
+                                )}
+                                <button
+                                    className="comment-secondary-btn"
+                                    onClick={() => comments.toggleResolved(thread.root)}
+                                >
+                                    {thread.root.resolved_at ? <RotateCcw size={13} /> : <CheckCircle2 size={13} />}
+                                    {thread.root.resolved_at ? 'Reopen' : 'Resolve'}
+                                </button>
+                            </div>
+                        </div>
+                    )
+                })}
+            </div>
+        </div>
+    )
+}
@@ -0,0 +1,167 @@
+import { useEffect, useRef, useState } from 'react'
+import { Maximize, ZoomIn, ZoomOut } from 'lucide-react'
+import { renderMermaid, type MermaidTheme, type ThemeDirective } from '../lib/mermaid'
+import { contentBounds } from '../lib/diagramDom'
+import { fitView, zoomAt, type Point, type ViewState } from '../lib/viewport'
+import './DiagramCanvas.css'
+
+interface DiagramCanvasProps {
+    code: string
+    // Prefix for the rendered SVG's element IDs
+    idPrefix?: string
+    theme?: MermaidTheme | ThemeDirective
+    // Show the zoom/fit toolbar (pan and wheel zoom always work)
+    controls?: boolean
+    // Draw the SVG inside a sandboxed iframe (public views of untrusted diagrams)
+    sandboxed?: boolean
+}
+
+const ZOOM_STEP = 1.2
+const WHEEL_ZOOM_STEP = 1.1
+
+// Scripts, forms and navigation are off and the frame gets an opaque origin;
+// the CSP keeps the SVG from loading anything
+const FRAME_CSP = "default-src 'none'; style-src 'unsafe-inline'; img-src data:; font-src data:"
+
+function sandboxedFrame(svg: string): HTMLIFrameElement {
+    const viewBox = /viewBox="([^"]+)"/.exec(svg)?.[1].split(/[\s,]+/).map(Number)
+    const width = viewBox?.[2] || 800
+    const height = viewBox?.[3] || 600
+
+    const frame = document.createElement('iframe')
+    frame.setAttribute('sandbox', '')
+    frame.setAttribute('title', 'Diagram')
+    frame.className = 'diagram-frame'
+    frame.style.width = `${width}px`
+    frame.style.height = `${height}px`
+    frame.srcdoc = `<!doctype html><html><head><meta http-equiv="Content-Security-Policy" content="${FRAME_CSP}">` +
+        `<style>html,body{margin:0;overflow:hidden;background:transparent}svg{display:block;width:100%;height:auto}</style>` +
+        `</head><body>${svg}</body></html>`
+    return frame
+}
+
+function fittedView(container: HTMLElement | null, canvas: HTMLElement | null): ViewState | null {
+    if (!container || !canvas) return null
+    // A sandboxed frame can't be looked into, so fit the frame itself
+    const bounds = contentBounds(canvas) ?? { x: 0, y: 0, width: canvas.offsetWidth, height: canvas.offsetHeight }
+    if (bounds.width === 0 || bounds.height === 0) return null
+    return fitView(
+        bounds,
+        { width: canvas.offsetWidth, height: canvas.offsetHeight },
+        { width: container.clientWidth, height: container.clientHeight }
+    )
+}
+
+/**
+ * Read-only diagram with drag-to-pan, wheel/button zoom and fit-to-screen
+ * Used where the full editor-viewer is not available (shared links, embeds)
+ */
+export function DiagramCanvas({ code, idPrefix = 'shared-diagram', theme, controls = true, sandboxed = false }: DiagramCanvasProps) {
+    const [view, setView] = useState<ViewState>({ zoom: 1, pan: { x: 0, y: 0 } })
+    const [error, setError] = useState<string | null>(null)
+    const [dragStart, setDragStart] = useState<{ pointer: Point; pan: Point } | null>(null)
+    const containerRef = useRef<HTMLDivElement>(null)
+    const canvasRef = useRef<HTMLDivElement>(null)
+
+    const fit = () => {
+        const fitted = fittedView(containerRef.current, canvasRef.current)
+        if (fitted) setView(fitted)
+    }
+
+    // Render and fit whenever the source changes
+    useEffect(() => {
+        let cancelled = false
+        renderMermaid(code, idPrefix, theme)
+            .then(svg => {
+                if (cancelled || !canvasRef.current) return
+                if (sandboxed) canvasRef.current.replaceChildren(sandboxedFrame(svg))
+                else canvasRef.current.innerHTML = svg
+                setError(null)
+                const fitted = fittedView(containerRef.current, canvasRef.current)
+                if (fitted) setView(fitted)
+            })
+            .catch(err => {
+                if (cancelled) return
+                console.error('Failed to render diagram:', err)
+                setError('This diagram could not be rendered.')
+            })
+        return () => {
+            cancelled = true
+        }
+    }, [code, idPrefix, theme, sandboxed])
+
+    const zoomBy = (factor: number, anchor: Point = { x: 0, y: 0 }) => {
+        setView(prev => zoomAt(prev, factor, anchor))
+    }
+
+    // React registers wheel listeners as passive, so preventDefault there can't stop the page scrolling
+    useEffect(() => {
+        const container = containerRef.current
+        if (!container) return
+        const handleWheel = (e: WheelEvent) => {
+            e.preventDefault()
+            const box = container.getBoundingClientRect()
+            const factor = e.deltaY > 0 ? 1 / WHEEL_ZOOM_STEP : WHEEL_ZOOM_STEP
+            setView(prev => zoomAt(prev, factor, {
+                x: e.clientX - box.left - box.width / 2,
+                y: e.clientY - box.top - box.height / 2,
+            }))
+        }
+        container.addEventListener('wheel', handleWheel, { passive: false })
+        return () => container.removeEventListener('wheel', handleWheel)
+    }, [])
+
+    const handlePointerDown = (e: React.PointerEvent) => {
+        if (e.pointerType === 'mouse' && e.button !== 0) return
+        e.currentTarget.setPointerCapture(e.pointerId)
+        setDragStart({ pointer: { x: e.clientX, y: e.clientY }, pan: view.pan })
+    }
+
+    const handlePointerMove = (e: React.PointerEvent) => {
+        if (!dragStart) return
+        setView(prev => ({
+            ...prev,
+            pan: {
+                x: dragStart.pan.x + e.clientX - dragStart.pointer.x,
+                y: dragStart.pan.y + e.clientY - dragStart.pointer.y,
+            },
+        }))
+    }
+
+    return (
+        <div className="readonly-diagram">
+            {controls && (
+                <div className="readonly-diagram-toolbar">
+                    <button onClick={() => zoomBy(1 / ZOOM_STEP)} title="Zoom out">
+                        <ZoomOut size={16} />
+                    </button>
+                    <span>{Math.round(view.zoom * 100)}%</span>
+                    <button onClick={() => zoomBy(ZOOM_STEP)} title="Zoom in">
+                        <ZoomIn size={16} />
+                    </button>
+                    <button onClick={fit} title="Fit to screen">
+                        <Maximize size={16} />
+                    </button>
+                </div>
+            )}
+            <div
+                ref={containerRef}
+                className="diagram-container"
+                onPointerDown={handlePointerDown}
+                onPointerMove={handlePointerMove}
+                onPointerUp={() => setDragStart(null)}
+                onPointerCancel={() => setDragStart(null)}
+            >
+                {error && <div className="readonly-diagram-error">{error}</div>}
+                <div
+                    ref={canvasRef}
+                    className="diagram-canvas"
+                    style={{
+                        transform: `translate(${view.pan.x}px, ${view.pan.y}px) scale(${view.zoom})`,
+                        cursor: dragStart ? 'grabbing' : 'grab',
+                    }}
+                />
+            </div>
+        </div>
+    )
+}
@@ -0,0 +1,114 @@
+import { useEffect, useMemo, useRef, useState } from 'react'
+import { GitCompare, X } from 'lucide-react'
+import { renderMermaid, type ThemeDirective } from '../lib/mermaid'
+import { diffDiagrams, isEmptyDiff, type DiagramDiff } from '../lib/diagramDiff'
+import { markEdge, markNode } from '../lib/diagramDom'
+import type { CompareSide } from './VersionHistoryPanel'
+import './DiagramCompare.css'
+
+interface DiagramCompareProps {
+    before: CompareSide
+    after: CompareSide
+    theme?: ThemeDirective
+    onClose: () => void
+}
+
+// Which diff entries are visible on which side
+function highlight(root: Element, diff: DiagramDiff, side: 'before' | 'after') {
+    const own = side === 'before' ? 'removed' : 'added'
+    diff.nodes[own].forEach(id => markNode(root, id, `diff-${own}`))
+    diff.nodes.changed.forEach(id => markNode(root, id, 'diff-changed'))
+    diff.edges[own].forEach(key => markEdge(root, key, `diff-${own}`))
+    diff.edges.changed.forEach(key => markEdge(root, key, 'diff-changed'))
+}
+
+function formatEdge(key: string): string {
+    return key.replace(/#\d+$/, '').replace('->', ' → ')
+}
+
+export function DiagramCompare({ before, after, theme, onClose }: DiagramCompareProps) {
+    const beforeRef = useRef<HTMLDivElement>(null)
+    const afterRef = useRef<HTMLDivElement>(null)
+    const [renderError, setRenderError] = useState<string | null>(null)
+    const diff = useMemo(() => diffDiagrams(before.code, after.code), [before.code, after.code])
+
+    useEffect(() => {
+        let cancelled = false
+
+        const render = async (target: HTMLDivElement | null, code: string, side: 'before' | 'after') => {
+            if (!target) return
+            const svg = await renderMermaid(code, `compare-${side}`, theme)
+            if (cancelled) return
+            target.innerHTML = svg
+            highlight(target, diff, side)
+        }
+
+        Promise.all([
+            render(beforeRef.current, before.code, 'before'),
+            render(afterRef.current, after.code, 'after'),
+        ]).catch(err => {
+            console.error('Failed to render comparison:', err)
+            if (!cancelled) setRenderError('One of the versions could not be rendered. The Mermaid syntax may be invalid.')
+        })
+
+        return () => {
+            cancelled = true
+        }
+    }, [before.code, after.code, diff, theme])
+
+    const changes = [
+        ...diff.nodes.added.map(id => ({ kind: 'added', text: id })),
+        ...diff.nodes.removed.map(id => ({ kind: 'removed', text: id })),
+        ...diff.nodes.changed.map(id => ({ kind: 'changed', text: id })),
+        ...diff.edges.added.map(key => ({ kind: 'added', text: formatEdge(key) })),
+        ...diff.edges.removed.map(key => ({ kind: 'removed', text: formatEdge(key) })),
+        ...diff.edges.changed.map(key => ({ kind: 'changed', text: formatEdge(key) })),
+    ]
+
+    return (
+        <div className="diagram-compare">
+            <div className="compare-header">
+                <h3>
+                    <GitCompare size={18} />
+                    Comparing versions
+                </h3>
+                <div className="compare-legend">
+                    <span className="legend-item added">Added</span>
+                    <span className="legend-item removed">Removed</span>
+                    <span className="legend-item changed">Changed</span>
+                </div>
+                <button onClick={onClose} title="Close comparison">
+                    <X size={18} />
+                </button>
+            </div>
+
+            {renderError && <div className="diagram-error">{renderError}</div>}
+
+            <div className="compare-body">
+                <div className="compare-pane">
+                    <div className="compare-pane-label">{before.label}</div>
+                    <div ref={beforeRef} className="compare-canvas" />
+                </div>
+                <div className="compare-pane">
+                    <div className="compare-pane-label">{after.label}</div>
+                    <div ref={afterRef} className="compare-canvas" />
+                </div>
+            </div>
+
+            <div className="compare-summary">
+                {isEmptyDiff(diff) ? (
+                    <p>No structural changes between these versions.</p>
+                ) : (
+                    <ul>
+                        {changes.map(change => (
+                            <li key={`${change.kind}:${change.text}`} className={change.kind}>
+                                <span className="change-kind">{change.kind}</span>
+                                {change.text}
+                            </li>
+                        ))}
+                    </ul>
+                )}
+            </div>
+        </div>
+    )
+}
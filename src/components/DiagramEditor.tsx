@@ -0,0 +1,95 @@
+import { useRef } from 'react'
+import { AlertCircle, CheckCircle } from 'lucide-react'
+import type { MermaidSyntaxError } from '../lib/mermaid'
+import './DiagramEditor.css'
+
+interface DiagramEditorProps {
+    value: string
+    onChange: (value: string) => void
+    error: MermaidSyntaxError | null
+    validating?: boolean
+}
+
+const INDENT = '    '
+
+export function DiagramEditor({ value, onChange, error, validating = false }: DiagramEditorProps) {
+    const textareaRef = useRef<HTMLTextAreaElement>(null)
+    const gutterRef = useRef<HTMLDivElement>(null)
+    const lineCount = value.split('\n').length
+
+    // Keep line numbers aligned with the scrolled text
+    const handleScroll = () => {
+        if (gutterRef.current && textareaRef.current) {
+            gutterRef.current.scrollTop = textareaRef.current.scrollTop
+        }
+    }
+
+    // Tab indents instead of moving focus out of the editor
+    const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+        if (e.key !== 'Tab' || e.shiftKey) return
+        e.preventDefault()
+        const target = e.currentTarget
+        const { selectionStart, selectionEnd } = target
+        onChange(value.slice(0, selectionStart) + INDENT + value.slice(selectionEnd))
+        requestAnimationFrame(() => {
+            target.selectionStart = target.selectionEnd = selectionStart + INDENT.length
+        })
+    }
+
+    const jumpToLine = (line: number) => {
+        const textarea = textareaRef.current
+        if (!textarea) return
+        const offset = value.split('\n').slice(0, line - 1).join('\n').length + (line > 1 ? 1 : 0)
+        textarea.focus()
+        textarea.setSelectionRange(offset, offset + (value.split('\n')[line - 1]?.length ?? 0))
+    }
+
+    return (
+        <div className="diagram-editor">
+            <div className="editor-body">
+                <div ref={gutterRef} className="editor-gutter" aria-hidden="true">
+                    {Array.from({ length: lineCount }, (_, i) => (
+                        <div
+                            key={i}
+                            className={`editor-line-number ${error?.line === i + 1 ? 'has-error' : ''}`}
+                        >
+                            {i + 1}
+                        </div>
+                    ))}
+                </div>
+                <textarea
+                    ref={textareaRef}
+                    className="editor-textarea"
+                    value={value}
+                    onChange={e => onChange(e.target.value)}
+                    onScroll={handleScroll}
+                    onKeyDown={handleKeyDown}
+                    spellCheck={false}
+                    autoCapitalize="off"
+                    autoComplete="off"
+                    aria-label="Mermaid source"
+                    aria-invalid={!!error}
+                />
+            </div>
+
+            <div className={`editor-status ${error ? 'error' : 'ok'}`}>
+                {validating ? (
+                    <span>Checking syntax...</span>
+                ) : error ? (
+                    <>
+                        <AlertCircle size={14} />
+                        {error.line ? (
+                            <button onClick={() => jumpToLine(error.line!)}>Line {error.line}</button>
+                        ) : null}
+                        <pre>{error.message}</pre>
+                    </>
+                ) : (
+                    <>
+                        <CheckCircle size={14} />
+                        <span>Valid Mermaid syntax</span>
+                    </>
+                )}
+            </div>
+        </div>
+    )
+}
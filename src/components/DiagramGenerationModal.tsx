@@ -1,21 +1,50 @@
 import { useState } from 'react'
 import { DiagramTypeSelector, type DiagramType } from './DiagramTypeSelector'
+import { RefPicker } from './RefPicker'
+import { RepoTreeBrowser } from './RepoTreeBrowser'
+import type { DiagramScope } from '../lib/supabase'
+import { describeScope, parseGlobs, type ScopeSelection } from '../lib/scopes'
 import './DiagramGenerationModal.css'
 
 interface DiagramGenerationModalProps {
     isOpen: boolean
     onClose: () => void
-    onGenerate: (diagramType: DiagramType) => void
+    // `ref` is the branch, tag or commit to analyse; null for the default branch
+    onGenerate: (diagramType: DiagramType, ref: string | null, scope: ScopeSelection) => void
+    repoOwner: string
     repoName: string
+    scopes: DiagramScope[]
 }
 
-export function DiagramGenerationModal({ isOpen, onClose, onGenerate, repoName }: DiagramGenerationModalProps) {
+// Select values for the scope picker besides existing scope ids
+const WHOLE_REPO = ''
+const NEW_SCOPE = 'new'
+
+export function DiagramGenerationModal({ isOpen, onClose, onGenerate, repoOwner, repoName, scopes }: DiagramGenerationModalProps) {
     const [selectedType, setSelectedType] = useState<DiagramType>('flowchart')
+    const [ref, setRef] = useState<string | null>(null)
+    const [scopeChoice, setScopeChoice] = useState(WHOLE_REPO)
+    const [scopePath, setScopePath] = useState('')
+    const [scopeName, setScopeName] = useState('')
+    const [includeText, setIncludeText] = useState('')
+    const [excludeText, setExcludeText] = useState('')
 
     if (!isOpen) return null
 
+    const newScope = {
+        name: scopeName.trim() || scopePath.split('/').pop() || repoName,
+        path: scopePath,
+        include: parseGlobs(includeText),
+        exclude: parseGlobs(excludeText),
+    }
+    // A new scope has to narrow something, otherwise it's just the whole repository
+    const newScopeEmpty = !newScope.path && newScope.include.length === 0 && newScope.exclude.length === 0
+
     const handleGenerate = () => {
-        onGenerate(selectedType)
+        const selection: ScopeSelection = scopeChoice === NEW_SCOPE
+            ? { scope: newScope }
+            : { scopeId: scopeChoice || null }
+        onGenerate(selectedType, ref, selection)
         // Don't close immediately - let parent handle closing after generation starts
     }
 
@@ -30,6 +59,79 @@ export function DiagramGenerationModal({ isOpen, onClose, onGenerate, repoName }
                 <div className="modal-body">
                     <p className="repo-name">for <strong>{repoName}</strong></p>
 
+                    <div className="generation-ref">
+                        <span>Analyse</span>
+                        <RefPicker owner={repoOwner} repo={repoName} value={ref} onChange={setRef} />
+                    </div>
+
+                    <div className="generation-scope">
+                        <span>Scope</span>
+                        <select
+                            value={scopeChoice}
+                            onChange={e => setScopeChoice(e.target.value)}
+                            aria-label="Diagram scope"
+                        >
+                            <option value={WHOLE_REPO}>Whole repository</option>
+                            {scopes.map(scope => (
+                                <option key={scope.id} value={scope.id}>
+                                    {scope.name} ({describeScope(scope)})
+                                </option>
+                            ))}
+                            <option value={NEW_SCOPE}>New scope...</option>
+                        </select>
+                    </div>
+
+                    {scopeChoice === NEW_SCOPE && (
+                        <div className="scope-editor">
+                            <div className="scope-field">
+                                <span>Directory</span>
+                                <RepoTreeBrowser
+                                    owner={repoOwner}
+                                    repo={repoName}
+                                    selected={scopePath}
+                                    onSelect={setScopePath}
+                                />
+                            </div>
+                            <label className="scope-field">
+                                <span>Name</span>
+                                <input
+                                    type="text"
+                                    value={scopeName}
+                                    onChange={e => setScopeName(e.target.value)}
+                                    placeholder={newScope.name}
+                                    maxLength={60}
+                                />
+                            </label>
+                            <div className="scope-globs">
+                                <label className="scope-field">
+                                    <span>Include globs</span>
+                                    <textarea
+                                        value={includeText}
+                                        onChange={e => setIncludeText(e.target.value)}
+                                        placeholder={'src/**/*.ts\nlib/**'}
+                                        rows={3}
+                                        spellCheck={false}
+                                    />
+                                </label>
+                                <label className="scope-field">
+                                    <span>Exclude globs</span>
+                                    <textarea
+                                        value={excludeText}
+                                        onChange={e => setExcludeText(e.target.value)}
+                                        placeholder={'**/*.test.ts\n**/fixtures/**'}
+                                        rows={3}
+                                        spellCheck={false}
+                                    />
+                                </label>
+                            </div>
+                            <p className="scope-hint">
+                                {newScopeEmpty
+                                    ? 'Pick a directory or add globs to narrow the scope.'
+                                    : `Diagrams for ${describeScope(newScope)}, kept alongside the whole-repository set.`}
+                            </p>
+                        </div>
+                    )}
+
                     <DiagramTypeSelector
                         selected={selectedType}
                         onChange={setSelectedType}
@@ -40,7 +142,11 @@ export function DiagramGenerationModal({ isOpen, onClose, onGenerate, repoName }
                     <button className="secondary-btn" onClick={onClose}>
                         Cancel
                     </button>
-                    <button className="primary-btn" onClick={handleGenerate}>
+                    <button
+                        className="primary-btn"
+                        onClick={handleGenerate}
+                        disabled={ref === '' || (scopeChoice === NEW_SCOPE && newScopeEmpty)}
+                    >
                         Generate Diagram
                     </button>
                 </div>
@@ -0,0 +1,121 @@
+import { useEffect, useMemo, useRef, useState } from 'react'
+import { localRect } from '../lib/diagramDom'
+import { centreOn, visibleRect, type Point, type Rect, type Size, type ViewState } from '../lib/viewport'
+import './DiagramMinimap.css'
+
+interface DiagramMinimapProps {
+    svg: string
+    canvasRef: React.RefObject<HTMLDivElement | null>
+    containerRef: React.RefObject<HTMLDivElement | null>
+    view: ViewState
+    onNavigate: (pan: Point) => void
+}
+
+interface Layout {
+    canvas: Size
+    viewport: Size
+    // Where the SVG sits inside the (padded) canvas
+    svg: Rect
+}
+
+const MINIMAP_WIDTH = 200
+const MINIMAP_MAX_HEIGHT = 150
+
+export function DiagramMinimap({ svg, canvasRef, containerRef, view, onNavigate }: DiagramMinimapProps) {
+    const [layout, setLayout] = useState<Layout | null>(null)
+    const [dragging, setDragging] = useState(false)
+    const boxRef = useRef<HTMLDivElement>(null)
+
+    // Standalone image of the diagram; keeps duplicate SVG IDs out of the page
+    const imageUrl = useMemo(() => `data:image/svg+xml;charset=utf-8,${encodeURIComponent(svg)}`, [svg])
+
+    // Re-measure whenever the canvas or viewport changes size
+    useEffect(() => {
+        const canvas = canvasRef.current
+        const container = containerRef.current
+        if (!canvas || !container) return
+
+        const measure = () => {
+            const svgElement = canvas.querySelector('svg')
+            if (!svgElement) return
+            setLayout({
+                canvas: { width: canvas.offsetWidth, height: canvas.offsetHeight },
+                viewport: { width: container.clientWidth, height: container.clientHeight },
+                svg: localRect(canvas, svgElement),
+            })
+        }
+
+        const observer = new ResizeObserver(measure)
+        observer.observe(canvas)
+        observer.observe(container)
+        return () => observer.disconnect()
+    }, [canvasRef, containerRef, svg])
+
+    if (!layout || layout.canvas.width === 0 || layout.canvas.height === 0) return null
+
+    const scale = Math.min(MINIMAP_WIDTH / layout.canvas.width, MINIMAP_MAX_HEIGHT / layout.canvas.height)
+    const visible = visibleRect(view, layout.canvas, layout.viewport)
+    const boxWidth = layout.canvas.width * scale
+    const boxHeight = layout.canvas.height * scale
+
+    // Clip the viewport rectangle to the minimap
+    const left = Math.max(visible.x * scale, 0)
+    const top = Math.max(visible.y * scale, 0)
+    const right = Math.min((visible.x + visible.width) * scale, boxWidth)
+    const bottom = Math.min((visible.y + visible.height) * scale, boxHeight)
+
+    const navigateTo = (e: React.PointerEvent) => {
+        const box = boxRef.current?.getBoundingClientRect()
+        if (!box) return
+        const point = { x: (e.clientX - box.left) / scale, y: (e.clientY - box.top) / scale }
+        onNavigate(centreOn(point, layout.canvas, view.zoom))
+    }
+
+    const handlePointerDown = (e: React.PointerEvent) => {
+        e.stopPropagation()
+        e.currentTarget.setPointerCapture(e.pointerId)
+        setDragging(true)
+        navigateTo(e)
+    }
+
+    const handlePointerMove = (e: React.PointerEvent) => {
+        if (dragging) navigateTo(e)
+    }
+
+    const handlePointerUp = (e: React.PointerEvent) => {
+        e.currentTarget.releasePointerCapture(e.pointerId)
+        setDragging(false)
+    }
+
+    return (
+        <div
+            ref={boxRef}
+            className={`diagram-minimap ${dragging ? 'dragging' : ''}`}
+            style={{ width: boxWidth, height: boxHeight }}
+            onPointerDown={handlePointerDown}
+            onPointerMove={handlePointerMove}
+            onPointerUp={handlePointerUp}
+            onPointerCancel={handlePointerUp}
+            onWheel={e => e.stopPropagation()}
+            aria-label="Diagram overview"
+        >
+            <img
+                src={imageUrl}
+                alt=""
+                draggable={false}
+                style={{
+                    left: layout.svg.x * scale,
+                    top: layout.svg.y * scale,
+                    width: layout.svg.width * scale,
+                    height: layout.svg.height * scale,
+                }}
+            />
+            {right > left && bottom > top && (
+                <div
+                    className="minimap-viewport"
+                    style={{ left, top, width: right - left, height: bottom - top }}
+                />
+            )}
+        </div>
+    )
+}
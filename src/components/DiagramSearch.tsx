@@ -0,0 +1,102 @@
+import { useEffect, useMemo, useState } from 'react'
+import { SearchBar } from './SearchBar'
+import type { DiagramGraph } from '../lib/diagramGraph'
+import { findNodeElements } from '../lib/diagramDom'
+import { fuzzyScore } from '../lib/fuzzy'
+import './DiagramSearch.css'
+
+interface DiagramSearchProps {
+    graph: DiagramGraph
+    canvasRef: React.RefObject<HTMLDivElement | null>
+    // Changes whenever the SVG is re-rendered, so highlights get re-applied
+    renderKey: number
+    onFocusMatch: (element: Element) => void
+}
+
+// Labels may contain Mermaid's HTML line breaks
+function plainText(label: string): string {
+    return label.replace(/<[^>]+>/g, ' ').replace(/\s+/g, ' ').trim()
+}
+
+export function DiagramSearch({ graph, canvasRef, renderKey, onFocusMatch }: DiagramSearchProps) {
+    const [query, setQuery] = useState('')
+    const [activeIndex, setActiveIndex] = useState(-1)
+
+    const matches = useMemo(() => {
+        if (!query.trim()) return []
+        const candidates = [
+            ...[...graph.nodes.values()].map(n => ({ id: n.id, label: n.label, order: n.order })),
+            ...[...graph.subgraphs.values()].map(s => ({ id: s.id, label: s.label, order: s.order })),
+        ]
+        return candidates
+            .map(c => ({
+                id: c.id,
+                order: c.order,
+                score: Math.max(fuzzyScore(query, plainText(c.label)) ?? -1, fuzzyScore(query, c.id) ?? -1),
+            }))
+            .filter(c => c.score >= 0)
+            .sort((a, b) => b.score - a.score || a.order - b.order)
+            .map(c => c.id)
+    }, [graph, query])
+
+    // Highlight matches in the rendered SVG
+    useEffect(() => {
+        const root = canvasRef.current
+        if (!root) return
+
+        root.classList.toggle('searching', matches.length > 0)
+        root.querySelectorAll('.search-match, .search-active').forEach(el => {
+            el.classList.remove('search-match', 'search-active')
+        })
+        matches.forEach((nodeId, index) => {
+            findNodeElements(root, nodeId).forEach(el => {
+                el.classList.add(index === activeIndex ? 'search-active' : 'search-match')
+            })
+        })
+    }, [canvasRef, matches, activeIndex, renderKey])
+
+    const handleChange = (value: string) => {
+        setQuery(value)
+        setActiveIndex(-1)
+    }
+
+    // Enter / Shift+Enter cycle through matches, Escape clears
+    const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+        if (e.key === 'Escape') {
+            handleChange('')
+            e.currentTarget.blur()
+            return
+        }
+        if (e.key !== 'Enter' || matches.length === 0) return
+        e.preventDefault()
+
+        const step = e.shiftKey ? -1 : 1
+        const next = activeIndex < 0 && step < 0
+            ? matches.length - 1
+            : (activeIndex + step + matches.length) % matches.length
+        setActiveIndex(next)
+
+        const element = canvasRef.current && findNodeElements(canvasRef.current, matches[next])[0]
+        if (element) onFocusMatch(element)
+    }
+
+    return (
+        // Keep clicks and scrolling here from panning/zooming the canvas underneath
+        <div className="diagram-search" onPointerDown={e => e.stopPropagation()} onWheel={e => e.stopPropagation()}>
+            <SearchBar
+                id="diagram-search-input"
+                value={query}
+                onChange={handleChange}
+                onKeyDown={handleKeyDown}
+                placeholder="Find a node..."
+                debounceMs={150}
+            >
+                {query.trim() && (
+                    <span className="diagram-search-count">
+                        {matches.length === 0 ? 'No matches' : `${activeIndex + 1 || '–'} / ${matches.length}`}
+                    </span>
+                )}
+            </SearchBar>
+        </div>
+    )
+}
@@ -0,0 +1,203 @@
+import { useEffect, useState } from 'react'
+import { Check, Copy, Link2, X } from 'lucide-react'
+import { useAuth } from '../hooks/useAuth'
+import type { Repository, RepositoryDiagram, ShareLink } from '../lib/supabase'
+import { ShareService, isLinkActive } from '../lib/shares'
+import { diagramsInScope } from '../lib/scopes'
+import {
+    embedUrl,
+    iframeSnippet,
+    markdownSnippet,
+    scriptSnippet,
+    type EmbedOptions,
+    type EmbedTheme,
+} from '../lib/embed'
+import { getUserFriendlyErrorMessage } from '../lib/api'
+import { showToast } from '../lib/toast'
+import { trackEvent, AnalyticsEvents } from '../lib/analytics'
+import './EmbedModal.css'
+
+interface EmbedModalProps {
+    isOpen: boolean
+    repo: Repository
+    diagramType: RepositoryDiagram['diagram_type']
+    // Scope of the diagram being viewed; null for the whole repository
+    scopeId: string | null
+    onClose: () => void
+}
+
+type SnippetKind = 'iframe' | 'script' | 'markdown'
+
+const THEMES: EmbedTheme[] = ['dark', 'light', 'neutral']
+
+// Embeds are public and can't prompt for a password
+function embeddable(link: ShareLink): boolean {
+    return isLinkActive(link) && !link.password_hash
+}
+
+export function EmbedModal({ isOpen, repo, diagramType, scopeId, onClose }: EmbedModalProps) {
+    const { user } = useAuth()
+    const [links, setLinks] = useState<ShareLink[] | null>(null)
+    const [linkId, setLinkId] = useState<string | null>(null)
+    const [creating, setCreating] = useState(false)
+    const [options, setOptions] = useState<EmbedOptions>({ diagramType, scopeId, theme: 'dark', controls: true, height: 480 })
+    const [copied, setCopied] = useState<SnippetKind | null>(null)
+
+    useEffect(() => {
+        if (!isOpen) return
+        let cancelled = false
+        ShareService.list(repo.id)
+            .then(data => {
+                if (!cancelled) setLinks(data.filter(embeddable))
+            })
+            .catch(err => {
+                console.error('Failed to load share links:', err)
+                if (!cancelled) setLinks([])
+            })
+        return () => {
+            cancelled = true
+        }
+    }, [isOpen, repo.id])
+
+    if (!isOpen) return null
+
+    const link = links?.find(l => l.id === linkId) ?? links?.[0]
+    const scope = repo.diagram_scopes?.find(s => s.id === options.scopeId)
+    const title = `${repo.repo_name}${scope ? ` ${scope.name}` : ''} ${options.diagramType} diagram`
+    const update = (patch: Partial<EmbedOptions>) => setOptions(prev => ({ ...prev, ...patch }))
+
+    const handleCreateLink = async () => {
+        if (!user) return
+        setCreating(true)
+        try {
+            const created = await ShareService.create(repo.id, { expiresAt: null, password: null })
+            setLinks(prev => [created, ...(prev ?? [])])
+            setLinkId(created.id)
+        } catch (err) {
+            console.error('Failed to create share link:', err)
+            showToast.error(getUserFriendlyErrorMessage(err))
+        } finally {
+            setCreating(false)
+        }
+    }
+
+    const handleCopy = async (kind: SnippetKind, snippet: string) => {
+        await navigator.clipboard.writeText(snippet)
+        setCopied(kind)
+        setTimeout(() => setCopied(current => (current === kind ? null : current)), 2000)
+        trackEvent(AnalyticsEvents.COPY_EMBED, { kind, diagramType: options.diagramType })
+        showToast.success('Snippet copied to clipboard!')
+    }
+
+    const snippets: { kind: SnippetKind; label: string; hint: string; code: string }[] = link ? [
+        { kind: 'iframe', label: 'iframe', hint: 'Live, pan/zoomable diagram', code: iframeSnippet(link, options, title) },
+        { kind: 'script', label: 'Script', hint: 'Drop-in tag; mounts the iframe for you', code: scriptSnippet(link, options) },
+        { kind: 'markdown', label: 'Markdown image', hint: 'Static SVG for READMEs and wikis', code: markdownSnippet(link, options, title) },
+    ] : []
+
+    return (
+        <div className="modal-overlay" onClick={onClose}>
+            <div className="embed-modal" onClick={(e) => e.stopPropagation()}>
+                <div className="modal-header">
+                    <h3>Embed diagram</h3>
+                    <button className="close-btn" onClick={onClose}>
+                        <X size={20} />
+                    </button>
+                </div>
+
+                <div className="modal-body">
+                    {links === null ? (
+                        <div className="embed-loading">
+                            <div className="loading-spinner small"></div>
+                        </div>
+                    ) : !link ? (
+                        <div className="embed-no-link">
+                            <p>Embeds use a public share link without a password. Anyone with the snippet can view this repository's diagrams.</p>
+                            <button className="primary-btn" onClick={handleCreateLink} disabled={creating}>
+                                <Link2 size={16} />
+                                {creating ? 'Creating...' : 'Create embed link'}
+                            </button>
+                        </div>
+                    ) : (
+                        <>
+                            <div className="embed-options">
+                                {links.length > 1 && (
+                                    <label>
+                                        Share link
+                                        <select value={link.id} onChange={e => setLinkId(e.target.value)}>
+                                            {links.map(l => (
+                                                <option key={l.id} value={l.id}>
+                                                    …{l.token.slice(-8)} · created {new Date(l.created_at).toLocaleDateString()}
+                                                </option>
+                                            ))}
+                                        </select>
+                                    </label>
+                                )}
+                                <label>
+                                    Diagram
+                                    <select
+                                        value={options.diagramType}
+                                        onChange={e => update({ diagramType: e.target.value as RepositoryDiagram['diagram_type'] })}
+                                    >
+                                        {diagramsInScope(repo, options.scopeId).map(d => (
+                                            <option key={d.diagram_type} value={d.diagram_type}>{d.diagram_type}</option>
+                                        ))}
+                                    </select>
+                                </label>
+                                <label>
+                                    Theme
+                                    <select value={options.theme} onChange={e => update({ theme: e.target.value as EmbedTheme })}>
+                                        {THEMES.map(theme => (
+                                            <option key={theme} value={theme}>{theme}</option>
+                                        ))}
+                                    </select>
+                                </label>
+                                <label>
+                                    Height
+                                    <input
+                                        type="number"
+                                        min={200}
+                                        max={2000}
+                                        step={20}
+                                        value={options.height}
+                                        onChange={e => update({ height: Number(e.target.value) || 480 })}
+                                    />
+                                </label>
+                                <label className="embed-checkbox">
+                                    <input
+                                        type="checkbox"
+                                        checked={options.controls}
+                                        onChange={e => update({ controls: e.target.checked })}
+                                    />
+                                    Zoom controls
+                                </label>
+                            </div>
+
+                            <iframe
+                                className="embed-preview"
+                                src={embedUrl(link, options)}
+                                title="Embed preview"
+                            />
+
+                            {snippets.map(snippet => (
+                                <div key={snippet.kind} className="embed-snippet">
+                                    <div className="embed-snippet-header">
+                                        <span>
+                                            {snippet.label}
+                                            <small>{snippet.hint}</small>
+                                        </span>
+                                        <button onClick={() => handleCopy(snippet.kind, snippet.code)}>
+                                            {copied === snippet.kind ? <Check size={14} /> : <Copy size={14} />}
+                                            {copied === snippet.kind ? 'Copied' : 'Copy'}
+                                        </button>
+                                    </div>
+                                    <pre>{snippet.code}</pre>
+                                </div>
+                            ))}
+                        </>
+                    )}
+                </div>
+            </div>
+        </div>
+    )
+}
@@ -0,0 +1,85 @@
+import { useEffect, useRef, useState } from 'react'
+import { Archive, ChevronDown, Code2, Copy, Download } from 'lucide-react'
+import './ExportMenu.css'
+
+export type ExportFormat = 'svg' | 'image' | 'pdf' | 'drawio' | 'mmd' | 'markdown' | 'zip'
+
+interface ExportMenuProps {
+    disabled?: boolean
+    onExport: (format: ExportFormat) => void
+    // Embedding needs a share link, so only owners get the option
+    onEmbed?: () => void
+}
+
+const FORMATS: { format: ExportFormat; label: string; description: string }[] = [
+    { format: 'svg', label: 'SVG', description: 'Vector image' },
+    { format: 'image', label: 'Image', description: 'PNG, JPEG or WebP' },
+    { format: 'pdf', label: 'PDF', description: 'Every diagram, one per page' },
+    { format: 'drawio', label: 'draw.io', description: 'Editable in diagrams.net' },
+    { format: 'mmd', label: 'Mermaid', description: '.mmd source file' },
+    { format: 'markdown', label: 'Markdown', description: 'Copy a fenced mermaid block' },
+    { format: 'zip', label: 'Export all', description: 'README and every diagram as a ZIP' },
+]
+
+export function ExportMenu({ disabled, onExport, onEmbed }: ExportMenuProps) {
+    const [isOpen, setIsOpen] = useState(false)
+    const menuRef = useRef<HTMLDivElement>(null)
+
+    // Close when clicking outside
+    useEffect(() => {
+        function handleClickOutside(event: MouseEvent) {
+            if (menuRef.current && !menuRef.current.contains(event.target as Node)) {
+                setIsOpen(false)
+            }
+        }
+        document.addEventListener('mousedown', handleClickOutside)
+        return () => document.removeEventListener('mousedown', handleClickOutside)
+    }, [])
+
+    const choose = (action: () => void) => {
+        setIsOpen(false)
+        action()
+    }
+
+    return (
+        <div className="export-menu" ref={menuRef}>
+            <button
+                className="viewer-btn"
+                onClick={() => setIsOpen(open => !open)}
+                disabled={disabled}
+                aria-haspopup="menu"
+                aria-expanded={isOpen}
+            >
+                <Download size={18} />
+                Export
+                <ChevronDown size={14} />
+            </button>
+
+            {isOpen && (
+                <div className="export-menu-dropdown" role="menu">
+                    {FORMATS.map(({ format, label, description }) => (
+                        <button key={format} role="menuitem" onClick={() => choose(() => onExport(format))}>
+                            {format === 'markdown' ? <Copy size={16} /> : format === 'zip' ? <Archive size={16} /> : <Download size={16} />}
+                            <span>
+                                {label}
+                                <small>{description}</small>
+                            </span>
+                        </button>
+                    ))}
+                    {onEmbed && (
+                        <>
+                            <div className="export-menu-divider" />
+                            <button role="menuitem" onClick={() => choose(onEmbed)}>
+                                <Code2 size={16} />
+                                <span>
+                                    Embed
+                                    <small>iframe, script or Markdown image</small>
+                                </span>
+                            </button>
+                        </>
+                    )}
+                </div>
+            )}
+        </div>
+    )
+}
@@ -0,0 +1,67 @@
+import { ChevronRight, Crosshair, X } from 'lucide-react'
+import './FocusBar.css'
+
+interface FocusBarProps {
+    // Focused node IDs, oldest first; the last one is the current focus
+    trail: { id: string; label: string }[]
+    depth: number
+    upstreamCount: number
+    downstreamCount: number
+    onDepthChange: (depth: number) => void
+    onNavigate: (index: number) => void
+    onExit: () => void
+}
+
+const FOCUS_DEPTHS = [1, 2, 3] as const
+
+export function FocusBar({
+    trail,
+    depth,
+    upstreamCount,
+    downstreamCount,
+    onDepthChange,
+    onNavigate,
+    onExit,
+}: FocusBarProps) {
+    return (
+        <div className="focus-bar" onPointerDown={e => e.stopPropagation()} onWheel={e => e.stopPropagation()}>
+            <Crosshair size={16} className="focus-bar-icon" />
+
+            <nav className="focus-breadcrumbs" aria-label="Focus trail">
+                {trail.map((item, index) => (
+                    <span key={`${item.id}-${index}`} className="focus-crumb">
+                        {index > 0 && <ChevronRight size={14} />}
+                        <button
+                            onClick={() => onNavigate(index)}
+                            className={index === trail.length - 1 ? 'current' : ''}
+                            disabled={index === trail.length - 1}
+                        >
+                            {item.label}
+                        </button>
+                    </span>
+                ))}
+            </nav>
+
+            <span className="focus-counts" title="Upstream / downstream nodes in view">
+                ↑{upstreamCount} ↓{downstreamCount}
+            </span>
+
+            <div className="focus-depth" role="group" aria-label="Hops">
+                {FOCUS_DEPTHS.map(value => (
+                    <button
+                        key={value}
+                        className={depth === value ? 'active' : ''}
+                        onClick={() => onDepthChange(value)}
+                        title={`${value} hop${value > 1 ? 's' : ''}`}
+                    >
+                        {value}
+                    </button>
+                ))}
+            </div>
+
+            <button className="focus-exit" onClick={onExit} title="Exit focus (Esc)">
+                <X size={16} />
+            </button>
+        </div>
+    )
+}
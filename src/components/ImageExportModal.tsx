@@ -0,0 +1,178 @@
+import { useState } from 'react'
+import { Download, X } from 'lucide-react'
+import { downloadImage } from '../lib/export'
+import type { RasterFormat, RasterProgress } from '../lib/rasterize'
+import { showToast } from '../lib/toast'
+import { trackEvent, AnalyticsEvents } from '../lib/analytics'
+import './ImageExportModal.css'
+
+interface ImageExportModalProps {
+    isOpen: boolean
+    // The diagram as currently rendered on screen
+    getSvg: () => SVGSVGElement | null
+    // File name without extension
+    filename: string
+    // Background of the diagram theme in use
+    themeBackground: string
+    onClose: () => void
+}
+
+type BackgroundMode = 'theme' | 'transparent' | 'white' | 'custom'
+
+const FORMATS: { format: RasterFormat; label: string }[] = [
+    { format: 'png', label: 'PNG' },
+    { format: 'jpeg', label: 'JPEG' },
+    { format: 'webp', label: 'WebP' },
+]
+
+const SCALES = [1, 2, 3, 4]
+// CSS pixels per inch
+const BASE_DPI = 96
+
+const BACKGROUNDS: { mode: BackgroundMode; label: string }[] = [
+    { mode: 'theme', label: 'Theme' },
+    { mode: 'transparent', label: 'Transparent' },
+    { mode: 'white', label: 'White' },
+    { mode: 'custom', label: 'Custom' },
+]
+
+export function ImageExportModal({ isOpen, getSvg, filename, themeBackground, onClose }: ImageExportModalProps) {
+    const [format, setFormat] = useState<RasterFormat>('png')
+    const [scale, setScale] = useState(2)
+    const [backgroundMode, setBackgroundMode] = useState<BackgroundMode>('theme')
+    const [customColour, setCustomColour] = useState('#1a1d29')
+    const [progress, setProgress] = useState<RasterProgress | null>(null)
+
+    if (!isOpen) return null
+
+    const exporting = progress !== null
+    const transparentUnsupported = format === 'jpeg' && backgroundMode === 'transparent'
+
+    const handleExport = async () => {
+        const svg = getSvg()
+        if (!svg) {
+            showToast.error('No diagram to export')
+            return
+        }
+
+        const background = {
+            theme: themeBackground,
+            transparent: null,
+            white: '#ffffff',
+            custom: customColour,
+        }[backgroundMode]
+
+        setProgress({ step: 'Starting', progress: 0 })
+        try {
+            const result = await downloadImage(
+                svg,
+                `${filename}.${format === 'jpeg' ? 'jpg' : format}`,
+                { format, scale, background, quality: 0.92 },
+                setProgress
+            )
+            if (result.scale < scale) {
+                showToast.success(`Exported at ${result.width}×${result.height}px (${result.scale.toFixed(1)}x) to stay within browser limits`)
+            } else {
+                showToast.success(`Diagram exported as ${format.toUpperCase()}!`)
+            }
+            trackEvent(AnalyticsEvents.EXPORT_DIAGRAM, { format, scale: result.scale })
+            onClose()
+        } catch (error) {
+            console.error('Export failed:', error)
+            showToast.error(error instanceof Error ? error.message : 'Failed to export diagram')
+        } finally {
+            setProgress(null)
+        }
+    }
+
+    return (
+        <div className="modal-overlay" onClick={exporting ? undefined : onClose}>
+            <div className="image-export-modal" onClick={(e) => e.stopPropagation()}>
+                <div className="modal-header">
+                    <h3>Export image</h3>
+                    <button className="close-btn" onClick={onClose} disabled={exporting}>
+                        <X size={20} />
+                    </button>
+                </div>
+
+                <div className="modal-body">
+                    <fieldset disabled={exporting}>
+                        <legend>Format</legend>
+                        <div className="image-export-options">
+                            {FORMATS.map(option => (
+                                <button
+                                    key={option.format}
+                                    className={format === option.format ? 'active' : ''}
+                                    onClick={() => setFormat(option.format)}
+                                >
+                                    {option.label}
+                                </button>
+                            ))}
+                        </div>
+                    </fieldset>
+
+                    <fieldset disabled={exporting}>
+                        <legend>Resolution</legend>
+                        <div className="image-export-options">
+                            {SCALES.map(option => (
+                                <button
+                                    key={option}
+                                    className={scale === option ? 'active' : ''}
+                                    onClick={() => setScale(option)}
+                                >
+                                    {option}x
+                                    <small>{option * BASE_DPI} DPI</small>
+                                </button>
+                            ))}
+                        </div>
+                    </fieldset>
+
+                    <fieldset disabled={exporting}>
+                        <legend>Background</legend>
+                        <div className="image-export-options">
+                            {BACKGROUNDS.map(option => (
+                                <button
+                                    key={option.mode}
+                                    className={backgroundMode === option.mode ? 'active' : ''}
+                                    onClick={() => setBackgroundMode(option.mode)}
+                                >
+                                    {option.label}
+                                </button>
+                            ))}
+                            {backgroundMode === 'custom' && (
+                                <input
+                                    type="color"
+                                    value={customColour}
+                                    onChange={e => setCustomColour(e.target.value)}
+                                    aria-label="Background colour"
+                                />
+                            )}
+                        </div>
+                        {transparentUnsupported && (
+                            <p className="image-export-hint">JPEG has no transparency, so the background will be white.</p>
+                        )}
+                    </fieldset>
+
+                    {progress && (
+                        <div className="image-export-progress" role="progressbar" aria-valuenow={Math.round(progress.progress * 100)}>
+                            <div className="image-export-progress-bar">
+                                <div style={{ width: `${progress.progress * 100}%` }} />
+                            </div>
+                            <span>{progress.step}...</span>
+                        </div>
+                    )}
+                </div>
+
+                <div className="modal-footer">
+                    <button className="secondary-btn" onClick={onClose} disabled={exporting}>
+                        Cancel
+                    </button>
+                    <button className="primary-btn" onClick={handleExport} disabled={exporting}>
+                        <Download size={16} />
+                        {exporting ? 'Exporting...' : 'Export'}
+                    </button>
+                </div>
+            </div>
+        </div>
+    )
+}
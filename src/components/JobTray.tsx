@@ -0,0 +1,103 @@
+import { useState } from 'react'
+import { useNavigate } from 'react-router-dom'
+import { useJobs } from '../hooks/useJobs'
+import { isActiveJob } from '../lib/jobs'
+import { displayRef } from '../lib/github'
+import type { GenerationJob } from '../lib/supabase'
+import { RefreshCw, CheckCircle, AlertCircle, Clock, X, RotateCcw, ChevronDown } from 'lucide-react'
+import './JobTray.css'
+
+function jobLabel(job: GenerationJob): string {
+    const label = job.kind === 'diagram' ? `${job.diagram_type} diagram` : 'README'
+    return job.ref ? `${label} @ ${displayRef(job.ref)}` : label
+}
+
+function jobStatusText(job: GenerationJob): string {
+    switch (job.status) {
+        case 'queued':
+            return 'Queued'
+        case 'running':
+            return job.step || 'Running'
+        case 'failed':
+            return job.error || 'Failed'
+        default:
+            return 'Done'
+    }
+}
+
+export function JobTray() {
+    const { jobs, retryJob, dismissJob, clearFinished } = useJobs()
+    const navigate = useNavigate()
+    const [collapsed, setCollapsed] = useState(false)
+
+    if (jobs.length === 0) return null
+
+    const activeCount = jobs.filter(isActiveJob).length
+    const hasFinished = activeCount < jobs.length
+
+    const openResult = (job: GenerationJob) => {
+        if (job.status !== 'done') return
+        navigate(job.kind === 'diagram'
+            ? `/repository/${job.repository_id}`
+            : `/repository/${job.repository_id}/readme`)
+    }
+
+    return (
+        <div className={`job-tray ${collapsed ? 'collapsed' : ''}`} role="status" aria-live="polite">
+            <div className="job-tray-header">
+                <button
+                    className="job-tray-toggle"
+                    onClick={() => setCollapsed(!collapsed)}
+                    aria-expanded={!collapsed}
+                >
+                    {activeCount > 0 && <RefreshCw size={16} className="spinning" />}
+                    <span>
+                        {activeCount > 0
+                            ? `Generating ${activeCount} item${activeCount !== 1 ? 's' : ''}`
+                            : 'Generation complete'}
+                    </span>
+                    <ChevronDown size={16} className={`chevron ${collapsed ? '' : 'open'}`} />
+                </button>
+                {hasFinished && (
+                    <button className="job-tray-clear" onClick={clearFinished}>
+                        Clear
+                    </button>
+                )}
+            </div>
+
+            {!collapsed && (
+                <ul className="job-tray-list">
+                    {jobs.map(job => (
+                        <li key={job.id} className={`job-item ${job.status}`}>
+                            <span className="job-icon">
+                                {job.status === 'queued' && <Clock size={16} />}
+                                {job.status === 'running' && <RefreshCw size={16} className="spinning" />}
+                                {job.status === 'done' && <CheckCircle size={16} />}
+                                {job.status === 'failed' && <AlertCircle size={16} />}
+                            </span>
+                            <button
+                                className="job-info"
+                                onClick={() => openResult(job)}
+                                disabled={job.status !== 'done'}
+                                title={job.status === 'done' ? 'Open result' : undefined}
+                            >
+                                <span className="job-title">{job.repo_name} · {jobLabel(job)}</span>
+                                <span className="job-step">{jobStatusText(job)}</span>
+                            </button>
+                            {job.status === 'failed' && (
+                                <button className="job-action" onClick={() => retryJob(job.id)} title="Retry">
+                                    <RotateCcw size={14} />
+                                </button>
+                            )}
+                            {!isActiveJob(job) && (
+                                <button className="job-action" onClick={() => dismissJob(job.id)} title="Dismiss">
+                                    <X size={14} />
+                                </button>
+                            )}
+                        </li>
+                    ))}
+                </ul>
+            )}
+        </div>
+    )
+}
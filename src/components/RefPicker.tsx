@@ -0,0 +1,114 @@
+import { useEffect, useState } from 'react'
+import { GitBranch } from 'lucide-react'
+import { useAuth } from '../hooks/useAuth'
+import { GitHubService, qualifiedRef, type GitHubRefs } from '../lib/github'
+import './RefPicker.css'
+
+interface RefPickerProps {
+    owner: string
+    repo: string
+    // Selected `refs/heads/…` / `refs/tags/…` name or commit SHA; null for the default branch,
+    // '' while a commit is being typed
+    value: string | null
+    onChange: (ref: string | null) => void
+    disabled?: boolean
+}
+
+// Branches and tags use their fully qualified name as the select value
+const DEFAULT_VALUE = ''
+const COMMIT_VALUE = 'commit:'
+
+/**
+ * Branch / tag / commit chooser for a GitHub repository
+ */
+export function RefPicker({ owner, repo, value, onChange, disabled }: RefPickerProps) {
+    const { session } = useAuth()
+    const [refs, setRefs] = useState<GitHubRefs | null>(null)
+    const [loadFailed, setLoadFailed] = useState(false)
+    const [commitMode, setCommitMode] = useState(false)
+
+    const token = session?.provider_token
+
+    useEffect(() => {
+        if (!token) return
+        let cancelled = false
+        GitHubService.listRefs(owner, repo, token)
+            .then(data => {
+                if (!cancelled) setRefs(data)
+            })
+            .catch(err => {
+                console.error('Failed to load branches and tags:', err)
+                if (!cancelled) setLoadFailed(true)
+            })
+        return () => {
+            cancelled = true
+        }
+    }, [owner, repo, token])
+
+    // Refs stored before they were qualified are plain names; match those by name
+    const listed = value === null
+        ? undefined
+        : refs?.refs.find(ref => qualifiedRef(ref) === value) ?? refs?.refs.find(ref => ref.name === value)
+    const selected = commitMode || (value !== null && !listed)
+        ? COMMIT_VALUE
+        : listed ? qualifiedRef(listed) : DEFAULT_VALUE
+
+    const handleSelect = (next: string) => {
+        if (next === COMMIT_VALUE) {
+            setCommitMode(true)
+            onChange('')
+            return
+        }
+        setCommitMode(false)
+        onChange(next === DEFAULT_VALUE ? null : next)
+    }
+
+    const branches = refs?.refs.filter(ref => ref.kind === 'branch' && ref.name !== refs.defaultBranch) ?? []
+    const tags = refs?.refs.filter(ref => ref.kind === 'tag') ?? []
+
+    return (
+        <div className="ref-picker">
+            <GitBranch size={16} />
+            <select
+                value={selected}
+                onChange={e => handleSelect(e.target.value)}
+                disabled={disabled}
+                aria-label="Branch, tag or commit"
+            >
+                <option value={DEFAULT_VALUE}>
+                    {refs ? `${refs.defaultBranch} (default)` : 'Default branch'}
+                </option>
+                {branches.length > 0 && (
+                    <optgroup label="Branches">
+                        {branches.map(ref => (
+                            <option key={ref.name} value={qualifiedRef(ref)}>{ref.name}</option>
+                        ))}
+                    </optgroup>
+                )}
+                {tags.length > 0 && (
+                    <optgroup label="Tags">
+                        {tags.map(ref => (
+                            <option key={ref.name} value={qualifiedRef(ref)}>{ref.name}</option>
+                        ))}
+                    </optgroup>
+                )}
+                <option value={COMMIT_VALUE}>Specific commit...</option>
+            </select>
+            {selected === COMMIT_VALUE && (
+                <input
+                    type="text"
+                    value={value ?? ''}
+                    onChange={e => onChange(e.target.value.trim())}
+                    placeholder="Commit SHA"
+                    spellCheck={false}
+                    disabled={disabled}
+                    autoFocus
+                />
+            )}
+            {loadFailed && <span className="ref-picker-hint">Couldn't load branches and tags</span>}
+            {refs?.truncated && (
+                <span className="ref-picker-hint muted">Not every branch and tag is listed; pick a commit for others</span>
+            )}
+        </div>
+    )
+}
@@ -0,0 +1,116 @@
+import { useEffect, useState } from 'react'
+import { ChevronDown, ChevronRight, Folder, FolderOpen } from 'lucide-react'
+import { useAuth } from '../hooks/useAuth'
+import { GitHubService, type GitHubContentEntry } from '../lib/github'
+import './RepoTreeBrowser.css'
+
+interface RepoTreeBrowserProps {
+    owner: string
+    repo: string
+    // Selected directory relative to the root; '' for the root itself
+    selected: string
+    onSelect: (path: string) => void
+}
+
+type Listing = GitHubContentEntry[] | 'loading' | 'error'
+
+async function listFolders(owner: string, repo: string, path: string, token: string): Promise<GitHubContentEntry[]> {
+    const entries = await GitHubService.listDirectory(owner, repo, path, token)
+    return entries
+        .filter(entry => entry.type === 'dir')
+        .sort((a, b) => a.name.localeCompare(b.name))
+}
+
+/**
+ * Directory tree of a GitHub repository, loaded a level at a time from the contents API
+ */
+export function RepoTreeBrowser({ owner, repo, selected, onSelect }: RepoTreeBrowserProps) {
+    const { session } = useAuth()
+    const [listings, setListings] = useState<Record<string, Listing>>({})
+    const [expanded, setExpanded] = useState<string[]>([])
+
+    const token = session?.provider_token
+
+    const load = (path: string) => {
+        if (!token) return
+        setListings(prev => ({ ...prev, [path]: 'loading' }))
+        listFolders(owner, repo, path, token)
+            .then(dirs => setListings(prev => ({ ...prev, [path]: dirs })))
+            .catch(err => {
+                console.error(`Failed to list ${path}:`, err)
+                setListings(prev => ({ ...prev, [path]: 'error' }))
+            })
+    }
+
+    useEffect(() => {
+        if (!token) return
+        let cancelled = false
+        listFolders(owner, repo, '', token)
+            .then(dirs => {
+                if (!cancelled) setListings({ '': dirs })
+            })
+            .catch(err => {
+                console.error('Failed to list repository root:', err)
+                if (!cancelled) setListings({ '': 'error' })
+            })
+        return () => {
+            cancelled = true
+        }
+    }, [owner, repo, token])
+
+    const toggle = (path: string) => {
+        if (expanded.includes(path)) {
+            setExpanded(prev => prev.filter(p => p !== path))
+            return
+        }
+        setExpanded(prev => [...prev, path])
+        const listing = listings[path]
+        if (!listing || listing === 'error') load(path)
+    }
+
+    const renderListing = (path: string, depth: number) => {
+        const listing = listings[path]
+        if (!listing || listing === 'loading') {
+            return <div className="repo-tree-status" style={{ paddingLeft: `${depth + 1.5}rem` }}>Loading...</div>
+        }
+        if (listing === 'error') {
+            return <div className="repo-tree-status error" style={{ paddingLeft: `${depth + 1.5}rem` }}>Couldn't load this folder</div>
+        }
+        if (listing.length === 0 && depth > 0) {
+            return <div className="repo-tree-status" style={{ paddingLeft: `${depth + 1.5}rem` }}>No subfolders</div>
+        }
+
+        return listing.map(entry => {
+            const isOpen = expanded.includes(entry.path)
+            return (
+                <div key={entry.path}>
+                    <div
+                        className={`repo-tree-row ${selected === entry.path ? 'selected' : ''}`}
+                        style={{ paddingLeft: `${depth + 0.5}rem` }}
+                    >
+                        <button className="repo-tree-toggle" onClick={() => toggle(entry.path)} aria-label={isOpen ? 'Collapse' : 'Expand'}>
+                            {isOpen ? <ChevronDown size={14} /> : <ChevronRight size={14} />}
+                        </button>
+                        <button className="repo-tree-name" onClick={() => onSelect(entry.path)}>
+                            {isOpen ? <FolderOpen size={14} /> : <Folder size={14} />}
+                            {entry.name}
+                        </button>
+                    </div>
+                    {isOpen && renderListing(entry.path, depth + 1)}
+                </div>
+            )
+        })
+    }
+
+    return (
+        <div className="repo-tree">
+            <div className={`repo-tree-row ${selected === '' ? 'selected' : ''}`}>
+                <button className="repo-tree-name root" onClick={() => onSelect('')}>
+                    <FolderOpen size={14} />
+                    {repo} (root)
+                </button>
+            </div>
+            {renderListing('', 0)}
+        </div>
+    )
+}
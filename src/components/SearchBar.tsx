@@ -1,5 +1,5 @@
 import { Search, X } from 'lucide-react'
-import { useState, useEffect, useCallback } from 'react'
+import { useState, useEffect, useCallback, type ReactNode } from 'react'
 import './SearchBar.css'
 
 interface SearchBarProps {
@@ -7,9 +7,21 @@ interface SearchBarProps {
     onChange: (value: string) => void
     placeholder?: string
     debounceMs?: number
+    id?: string
+    onKeyDown?: (e: React.KeyboardEvent<HTMLInputElement>) => void
+    // Extra content shown before the shortcut hint (e.g. a result counter)
+    children?: ReactNode
 }
 
-export function SearchBar({ value, onChange, placeholder = 'Search...', debounceMs = 300 }: SearchBarProps) {
+export function SearchBar({
+    value,
+    onChange,
+    placeholder = 'Search...',
+    debounceMs = 300,
+    id = 'search-input',
+    onKeyDown,
+    children,
+}: SearchBarProps) {
     const [localValue, setLocalValue] = useState(value)
 
     // Debounce the onChange callback
@@ -36,24 +48,35 @@ export function SearchBar({ value, onChange, placeholder = 'Search...', debounce
     // Keyboard shortcut: / to focus search
     useEffect(() => {
         const handleKeyPress = (e: KeyboardEvent) => {
-            if (e.key === '/' && document.activeElement?.tagName !== 'INPUT') {
+            const active = document.activeElement as HTMLElement | null
+            const typing = active?.tagName === 'INPUT' || active?.tagName === 'TEXTAREA' || active?.isContentEditable
+            if (e.key === '/' && !typing) {
                 e.preventDefault()
-                document.getElementById('search-input')?.focus()
+                document.getElementById(id)?.focus()
             }
         }
 
         document.addEventListener('keydown', handleKeyPress)
         return () => document.removeEventListener('keydown', handleKeyPress)
-    }, [])
+    }, [id])
+
+    const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+        // Don't make Enter wait for the debounce
+        if (e.key === 'Enter' && localValue !== value) {
+            onChange(localValue)
+        }
+        onKeyDown?.(e)
+    }
 
     return (
         <div className="search-bar">
             <Search size={20} className="search-icon" />
             <input
-                id="search-input"
+                id={id}
                 type="text"
                 value={localValue}
                 onChange={e => setLocalValue(e.target.value)}
+                onKeyDown={handleKeyDown}
                 placeholder={placeholder}
                 className="search-input"
             />
@@ -62,6 +85,7 @@ export function SearchBar({ value, onChange, placeholder = 'Search...', debounce
                     <X size={18} />
                 </button>
             )}
+            {children}
             <kbd className="search-shortcut">/</kbd>
         </div>
     )
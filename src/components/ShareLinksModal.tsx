@@ -0,0 +1,187 @@
+import { useEffect, useState } from 'react'
+import { Check, Copy, Eye, Link2, Lock, X } from 'lucide-react'
+import { useAuth } from '../hooks/useAuth'
+import type { Repository, ShareLink } from '../lib/supabase'
+import { ShareService, isLinkActive, shareUrl } from '../lib/shares'
+import { getUserFriendlyErrorMessage } from '../lib/api'
+import { showToast } from '../lib/toast'
+import { trackEvent, AnalyticsEvents } from '../lib/analytics'
+import './ShareLinksModal.css'
+
+interface ShareLinksModalProps {
+    isOpen: boolean
+    repo: Repository
+    onClose: () => void
+}
+
+const EXPIRY_OPTIONS = [
+    { label: 'Never', days: null },
+    { label: '1 day', days: 1 },
+    { label: '7 days', days: 7 },
+    { label: '30 days', days: 30 },
+] as const
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+function linkStatus(link: ShareLink): string {
+    if (link.revoked_at) return 'Revoked'
+    if (link.expires_at && !isLinkActive(link)) return 'Expired'
+    if (link.expires_at) return `Expires ${new Date(link.expires_at).toLocaleDateString()}`
+    return 'No expiry'
+}
+
+export function ShareLinksModal({ isOpen, repo, onClose }: ShareLinksModalProps) {
+    const { user } = useAuth()
+    const [links, setLinks] = useState<ShareLink[]>([])
+    const [loading, setLoading] = useState(true)
+    const [expiryDays, setExpiryDays] = useState<number | null>(null)
+    const [password, setPassword] = useState('')
+    const [creating, setCreating] = useState(false)
+    const [copiedId, setCopiedId] = useState<string | null>(null)
+
+    useEffect(() => {
+        if (!isOpen) return
+        let cancelled = false
+        ShareService.list(repo.id)
+            .then(data => {
+                if (!cancelled) setLinks(data)
+            })
+            .catch(err => {
+                console.error('Failed to load share links:', err)
+                showToast.error(getUserFriendlyErrorMessage(err))
+            })
+            .finally(() => {
+                if (!cancelled) setLoading(false)
+            })
+        return () => {
+            cancelled = true
+        }
+    }, [isOpen, repo.id])
+
+    if (!isOpen) return null
+
+    const handleCopy = async (link: ShareLink) => {
+        await navigator.clipboard.writeText(shareUrl(link))
+        setCopiedId(link.id)
+        setTimeout(() => setCopiedId(current => (current === link.id ? null : current)), 2000)
+        showToast.success('Link copied to clipboard!')
+    }
+
+    const handleCreate = async () => {
+        if (!user) return
+        setCreating(true)
+        try {
+            const link = await ShareService.create(repo.id, {
+                expiresAt: expiryDays ? new Date(Date.now() + expiryDays * DAY_MS).toISOString() : null,
+                password: password || null,
+            })
+            setLinks(prev => [link, ...prev])
+            setPassword('')
+            trackEvent(AnalyticsEvents.CREATE_SHARE_LINK, { expiryDays: expiryDays ?? 'never', password: link.password_hash ? 'yes' : 'no' })
+            await handleCopy(link)
+        } catch (err) {
+            console.error('Failed to create share link:', err)
+            showToast.error(getUserFriendlyErrorMessage(err))
+        } finally {
+            setCreating(false)
+        }
+    }
+
+    const handleRevoke = async (link: ShareLink) => {
+        try {
+            const revoked = await ShareService.revoke(link.id)
+            setLinks(prev => prev.map(l => (l.id === revoked.id ? revoked : l)))
+            showToast.success('Link revoked')
+        } catch (err) {
+            console.error('Failed to revoke share link:', err)
+            showToast.error(getUserFriendlyErrorMessage(err))
+        }
+    }
+
+    return (
+        <div className="modal-overlay" onClick={onClose}>
+            <div className="share-modal" onClick={(e) => e.stopPropagation()}>
+                <div className="modal-header">
+                    <h3>Share {repo.repo_name}</h3>
+                    <button className="close-btn" onClick={onClose}>
+                        <X size={20} />
+                    </button>
+                </div>
+
+                <div className="modal-body">
+                    <p className="share-intro">
+                        Anyone with the link can view the diagrams and README without an account. They can't edit anything.
+                    </p>
+
+                    <div className="share-form">
+                        <label>
+                            Expires
+                            <select
+                                value={expiryDays ?? ''}
+                                onChange={e => setExpiryDays(e.target.value ? Number(e.target.value) : null)}
+                            >
+                                {EXPIRY_OPTIONS.map(option => (
+                                    <option key={option.label} value={option.days ?? ''}>{option.label}</option>
+                                ))}
+                            </select>
+                        </label>
+                        <label>
+                            Password (optional)
+                            <input
+                                type="password"
+                                value={password}
+                                onChange={e => setPassword(e.target.value)}
+                                placeholder="No password"
+                                autoComplete="new-password"
+                            />
+                        </label>
+                        <button className="primary-btn" onClick={handleCreate} disabled={creating}>
+                            <Link2 size={16} />
+                            {creating ? 'Creating...' : 'Create link'}
+                        </button>
+                    </div>
+
+                    <div className="share-links">
+                        {loading ? (
+                            <div className="share-empty">
+                                <div className="loading-spinner small"></div>
+                            </div>
+                        ) : links.length === 0 ? (
+                            <div className="share-empty">No share links yet</div>
+                        ) : (
+                            links.map(link => {
+                                const active = isLinkActive(link)
+                                return (
+                                    <div key={link.id} className={`share-link ${active ? '' : 'inactive'}`}>
+                                        <div className="share-link-main">
+                                            <code>{shareUrl(link)}</code>
+                                            <div className="share-link-meta">
+                                                <span>{linkStatus(link)}</span>
+                                                {link.password_hash && (
+                                                    <span><Lock size={12} /> Password</span>
+                                                )}
+                                                <span title={link.last_viewed_at ? `Last viewed ${new Date(link.last_viewed_at).toLocaleString()}` : 'Not viewed yet'}>
+                                                    <Eye size={12} /> {link.view_count} {link.view_count === 1 ? 'view' : 'views'}
+                                                </span>
+                                            </div>
+                                        </div>
+                                        {active && (
+                                            <div className="share-link-actions">
+                                                <button onClick={() => handleCopy(link)} title="Copy link">
+                                                    {copiedId === link.id ? <Check size={14} /> : <Copy size={14} />}
+                                                </button>
+                                                <button className="revoke" onClick={() => handleRevoke(link)}>
+                                                    Revoke
+                                                </button>
+                                            </div>
+                                        )}
+                                    </div>
+                                )
+                            })
+                        )}
+                    </div>
+                </div>
+            </div>
+        </div>
+    )
+}
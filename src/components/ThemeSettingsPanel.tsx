@@ -0,0 +1,184 @@
+import { useMemo, useState } from 'react'
+import { Palette, X } from 'lucide-react'
+import { useOrganization } from '../hooks/useOrganization'
+import type { DiagramThemes } from '../hooks/useDiagramTheme'
+import {
+    DEFAULT_BRAND,
+    FONT_CHOICES,
+    THEME_PRESETS,
+    mermaidTheme,
+    themePalette,
+    type BrandColours,
+    type DiagramTheme,
+    type ThemePreset,
+} from '../lib/themes'
+import { showToast } from '../lib/toast'
+import { DiagramCanvas } from './DiagramCanvas'
+import './ThemeSettingsPanel.css'
+
+interface ThemeSettingsPanelProps {
+    themes: DiagramThemes
+    // Diagram to preview with; a small sample is used when there is none
+    previewCode: string | null
+    onClose: () => void
+}
+
+type Scope = 'user' | 'org'
+
+const SAMPLE_DIAGRAM = `flowchart LR
+    client[Web client] --> api(API gateway)
+    api --> auth{Authenticated?}
+    auth -->|yes| service[Orders service]
+    auth -->|no| login[Login page]
+    service --> db[(Database)]`
+
+const BRAND_FIELDS: { key: keyof BrandColours; label: string }[] = [
+    { key: 'primary', label: 'Nodes' },
+    { key: 'secondary', label: 'Secondary' },
+    { key: 'background', label: 'Background' },
+    { key: 'text', label: 'Text' },
+    { key: 'line', label: 'Lines & borders' },
+]
+
+export function ThemeSettingsPanel({ themes, previewCode, onClose }: ThemeSettingsPanelProps) {
+    const { currentOrg, canManageMembers } = useOrganization()
+    const [scope, setScope] = useState<Scope>('user')
+    const [draft, setDraft] = useState<DiagramTheme>(themes.userTheme ?? themes.theme)
+    const [saving, setSaving] = useState(false)
+
+    const directive = useMemo(() => mermaidTheme(draft), [draft])
+    const palette = themePalette(draft)
+    const canEditOrg = !!currentOrg && canManageMembers
+    const stored = scope === 'user' ? themes.userTheme : themes.orgTheme
+
+    const switchScope = (next: Scope) => {
+        setScope(next)
+        setDraft((next === 'user' ? themes.userTheme : themes.orgTheme) ?? themes.theme)
+    }
+
+    const choosePreset = (preset: ThemePreset) => {
+        setDraft(prev => ({ ...prev, preset, brand: preset === 'brand' ? prev.brand ?? DEFAULT_BRAND : prev.brand }))
+    }
+
+    const setBrandColour = (key: keyof BrandColours, value: string) => {
+        setDraft(prev => ({ ...prev, brand: { ...(prev.brand ?? DEFAULT_BRAND), [key]: value } }))
+    }
+
+    const save = async (theme: DiagramTheme | null) => {
+        setSaving(true)
+        const saved = scope === 'user' ? await themes.saveUserTheme(theme) : await themes.saveOrgTheme(theme)
+        setSaving(false)
+        if (!saved) return
+        showToast.success(theme ? 'Diagram theme saved!' : 'Theme reset')
+        onClose()
+    }
+
+    return (
+        <div className="modal-overlay" onClick={onClose}>
+            <div className="theme-settings" onClick={(e) => e.stopPropagation()}>
+                <div className="modal-header">
+                    <h3>
+                        <Palette size={18} />
+                        Diagram theme
+                    </h3>
+                    <button className="close-btn" onClick={onClose}>
+                        <X size={20} />
+                    </button>
+                </div>
+
+                <div className="theme-settings-body">
+                    <div className="theme-settings-form">
+                        {canEditOrg && (
+                            <div className="theme-scope">
+                                <button className={scope === 'user' ? 'active' : ''} onClick={() => switchScope('user')}>
+                                    My theme
+                                </button>
+                                <button className={scope === 'org' ? 'active' : ''} onClick={() => switchScope('org')}>
+                                    {currentOrg?.name} default
+                                </button>
+                            </div>
+                        )}
+                        <p className="theme-scope-hint">
+                            {scope === 'org'
+                                ? 'Used by every member who hasn\'t picked their own theme.'
+                                : themes.userTheme
+                                    ? 'Your own theme, used in the viewer and for every export.'
+                                    : themes.orgTheme
+                                        ? `You're using the ${currentOrg?.name} default. Saving sets your own.`
+                                        : 'Used in the viewer and for every export.'}
+                        </p>
+
+                        <div className="theme-presets">
+                            {THEME_PRESETS.map(({ preset, label, description }) => {
+                                const swatch = themePalette({ ...draft, preset })
+                                return (
+                                    <button
+                                        key={preset}
+                                        className={`theme-preset ${draft.preset === preset ? 'active' : ''}`}
+                                        onClick={() => choosePreset(preset)}
+                                    >
+                                        <span className="theme-swatch" style={{ background: swatch.background, borderColor: swatch.nodeStroke }}>
+                                            <span style={{ background: swatch.nodeFill, borderColor: swatch.nodeStroke }} />
+                                            <span style={{ background: swatch.line }} />
+                                        </span>
+                                        <span className="theme-preset-text">
+                                            {label}
+                                            <small>{description}</small>
+                                        </span>
+                                    </button>
+                                )
+                            })}
+                        </div>
+
+                        {draft.preset === 'brand' && (
+                            <div className="theme-brand">
+                                {BRAND_FIELDS.map(({ key, label }) => (
+                                    <label key={key}>
+                                        <input
+                                            type="color"
+                                            value={(draft.brand ?? DEFAULT_BRAND)[key]}
+                                            onChange={e => setBrandColour(key, e.target.value)}
+                                        />
+                                        {label}
+                                    </label>
+                                ))}
+                            </div>
+                        )}
+
+                        <label className="theme-font">
+                            Font
+                            <select value={draft.fontFamily} onChange={e => setDraft(prev => ({ ...prev, fontFamily: e.target.value }))}>
+                                {FONT_CHOICES.map(font => (
+                                    <option key={font.value} value={font.value}>{font.label}</option>
+                                ))}
+                            </select>
+                        </label>
+                    </div>
+
+                    <div className="theme-preview" style={{ background: palette.background }}>
+                        <DiagramCanvas
+                            code={previewCode ?? SAMPLE_DIAGRAM}
+                            idPrefix="theme-preview"
+                            theme={directive}
+                            controls={false}
+                        />
+                    </div>
+                </div>
+
+                <div className="modal-footer">
+                    {stored && (
+                        <button className="secondary-btn theme-reset" onClick={() => save(null)} disabled={saving}>
+                            {scope === 'user' && themes.orgTheme ? 'Use organization default' : 'Reset to default'}
+                        </button>
+                    )}
+                    <button className="secondary-btn" onClick={onClose} disabled={saving}>
+                        Cancel
+                    </button>
+                    <button className="primary-btn" onClick={() => save(draft)} disabled={saving}>
+                        {saving ? 'Saving...' : 'Save theme'}
+                    </button>
+                </div>
+            </div>
+        </div>
+    )
+}
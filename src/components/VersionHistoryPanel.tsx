@@ -0,0 +1,187 @@
+import { useEffect, useState } from 'react'
+import { GitCommit, GitCompare, History, RotateCcw, X } from 'lucide-react'
+import type { DiagramVersion, Repository, RepositoryDiagram } from '../lib/supabase'
+import { VersionService } from '../lib/versions'
+import { GitHubService, displayRef } from '../lib/github'
+import { getUserFriendlyErrorMessage } from '../lib/api'
+import './VersionHistoryPanel.css'
+
+export interface CompareSide {
+    label: string
+    code: string
+}
+
+interface VersionHistoryPanelProps {
+    repo: Repository
+    diagramType: RepositoryDiagram['diagram_type']
+    // Diagram scope being viewed; null for the whole repository
+    scopeId: string | null
+    currentDiagram: RepositoryDiagram | undefined
+    onClose: () => void
+    onCompare: (before: CompareSide, after: CompareSide) => void
+    onRestore: (version: DiagramVersion) => void
+}
+
+const GENERATOR_LABELS: Record<DiagramVersion['generator'], string> = {
+    ai: 'AI generated',
+    manual: 'Manual edit',
+    restore: 'Restored',
+}
+
+function versionLabel(version: DiagramVersion): string {
+    const date = new Date(version.created_at).toLocaleString()
+    return version.source_ref ? `${date} · ${displayRef(version.source_ref)}` : date
+}
+
+export function VersionHistoryPanel({
+    repo,
+    diagramType,
+    scopeId,
+    currentDiagram,
+    onClose,
+    onCompare,
+    onRestore,
+}: VersionHistoryPanelProps) {
+    const [versions, setVersions] = useState<DiagramVersion[]>([])
+    const [loadedKey, setLoadedKey] = useState<string | null>(null)
+    const [error, setError] = useState<string | null>(null)
+    const [selected, setSelected] = useState<string[]>([])
+
+    const currentCode = currentDiagram?.diagram_code ?? null
+    // Reload whenever the type or scope changes or the current diagram is replaced
+    const key = `${repo.id}:${diagramType}:${scopeId ?? ''}:${currentDiagram?.updated_at ?? ''}`
+    const loading = loadedKey !== key
+
+    useEffect(() => {
+        let cancelled = false
+        VersionService.list(repo.id, diagramType, scopeId)
+            .then(data => {
+                if (cancelled) return
+                setVersions(data)
+                setError(null)
+            })
+            .catch(err => {
+                if (cancelled) return
+                console.error('Failed to load diagram history:', err)
+                setError(getUserFriendlyErrorMessage(err))
+            })
+            .finally(() => {
+                if (!cancelled) setLoadedKey(key)
+            })
+        return () => {
+            cancelled = true
+        }
+    }, [repo.id, diagramType, scopeId, key])
+
+    const toggleSelected = (versionId: string) => {
+        setSelected(prev => {
+            if (prev.includes(versionId)) return prev.filter(id => id !== versionId)
+            // Keep at most two; the oldest pick drops out
+            return [...prev, versionId].slice(-2)
+        })
+    }
+
+    const compareSelected = () => {
+        const picked = versions
+            .filter(v => selected.includes(v.id))
+            .sort((a, b) => new Date(a.created_at).getTime() - new Date(b.created_at).getTime())
+        if (picked.length !== 2) return
+        onCompare(
+            { label: versionLabel(picked[0]), code: picked[0].diagram_code },
+            { label: versionLabel(picked[1]), code: picked[1].diagram_code }
+        )
+    }
+
+    const compareWithCurrent = (version: DiagramVersion) => {
+        if (!currentCode) return
+        onCompare({ label: versionLabel(version), code: version.diagram_code }, { label: 'Current', code: currentCode })
+    }
+
+    return (
+        <div className="history-panel">
+            <div className="history-header">
+                <h3>
+                    <History size={18} />
+                    Version History
+                </h3>
+                <button onClick={onClose} title="Close history">
+                    <X size={18} />
+                </button>
+            </div>
+
+            <div className="history-toolbar">
+                <span>{selected.length}/2 selected</span>
+                <button
+                    className="history-compare-btn"
+                    onClick={compareSelected}
+                    disabled={selected.length !== 2}
+                >
+                    <GitCompare size={14} />
+                    Compare
+                </button>
+            </div>
+
+            <div className="history-list">
+                {loading && versions.length === 0 ? (
+                    <div className="history-empty">
+                        <div className="loading-spinner small"></div>
+                    </div>
+                ) : error ? (
+                    <p className="history-empty">{error}</p>
+                ) : versions.length === 0 ? (
+                    <p className="history-empty">No earlier versions yet. A version is saved every time this diagram changes.</p>
+                ) : (
+                    versions.map((version, index) => {
+                        const isCurrent = index === 0 && version.diagram_code === currentCode
+                        return (
+                            <div
+                                key={version.id}
+                                className={`history-item ${selected.includes(version.id) ? 'selected' : ''}`}
+                            >
+                                <label className="history-item-main">
+                                    <input
+                                        type="checkbox"
+                                        checked={selected.includes(version.id)}
+                                        onChange={() => toggleSelected(version.id)}
+                                    />
+                                    <div>
+                                        <div className="history-item-date">
+                                            {versionLabel(version)}
+                                            {isCurrent && <span className="history-current">Current</span>}
+                                        </div>
+                                        <div className="history-item-meta">
+                                            <span className={`history-generator ${version.generator}`}>
+                                                {GENERATOR_LABELS[version.generator]}
+                                            </span>
+                                            {version.source_commit_sha && (
+                                                <a
+                                                    href={GitHubService.commitUrl(repo.repo_owner, repo.repo_name, version.source_commit_sha)}
+                                                    target="_blank"
+                                                    rel="noopener noreferrer"
+                                                    title={version.source_commit_sha}
+                                                >
+                                                    <GitCommit size={12} />
+                                                    {version.source_commit_sha.slice(0, 7)}
+                                                </a>
+                                            )}
+                                        </div>
+                                    </div>
+                                </label>
+                                {!isCurrent && (
+                                    <div className="history-item-actions">
+                                        <button onClick={() => compareWithCurrent(version)} disabled={!currentCode} title="Compare with current">
+                                            <GitCompare size={14} />
+                                        </button>
+                                        <button onClick={() => onRestore(version)} title="Restore this version">
+                                            <RotateCcw size={14} />
+                                        </button>
+                                    </div>
+                                )}
+                            </div>
+                        )
+                    })
+                )}
+            </div>
+        </div>
+    )
+}
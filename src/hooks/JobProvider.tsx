@@ -0,0 +1,311 @@
+import { useState, useEffect, useCallback, useRef, type ReactNode } from 'react'
+import type { GenerationJob, Repository, RepositoryDiagram } from '../lib/supabase'
+import { JobService, isActiveJob } from '../lib/jobs'
+import { getUserFriendlyErrorMessage } from '../lib/api'
+import { showToast } from '../lib/toast'
+import { trackEvent, AnalyticsEvents } from '../lib/analytics'
+import { useAuth } from './useAuth'
+import { JobContext, type JobContextType } from './useJobs'
+
+const STORAGE_KEY = 'mivna_jobs'
+const MAX_CONCURRENT_JOBS = 2
+// Give up on a job we lost track of after this long
+const STALE_JOB_MS = 5 * 60 * 1000
+const RECOVERY_POLL_MS = 5000
+// Identifies this tab when claiming jobs, so two tabs or devices never run the same one
+const TAB_ID = crypto.randomUUID()
+
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms))
+
+function loadStoredJobs(userId: string): GenerationJob[] {
+    try {
+        const stored = localStorage.getItem(STORAGE_KEY)
+        if (!stored) return []
+        const parsed: GenerationJob[] = JSON.parse(stored)
+        return parsed.filter(job => job.user_id === userId)
+    } catch (e) {
+        console.warn('Failed to read stored jobs:', e)
+        return []
+    }
+}
+
+// Prefer whichever copy of a job has progressed further
+function mergeJobs(local: GenerationJob[], remote: GenerationJob[]): GenerationJob[] {
+    const byId = new Map(local.map(job => [job.id, job]))
+    for (const job of remote) {
+        const existing = byId.get(job.id)
+        if (!existing || (isActiveJob(existing) && !isActiveJob(job))) {
+            byId.set(job.id, job)
+        }
+    }
+    return [...byId.values()].sort((a, b) => b.created_at.localeCompare(a.created_at))
+}
+
+export function JobProvider({ children }: { children: ReactNode }) {
+    const { user, session, profile, refreshProfile } = useAuth()
+    const [jobs, setJobs] = useState<GenerationJob[]>([])
+    const [lastFinishedJob, setLastFinishedJob] = useState<GenerationJob | null>(null)
+    // Jobs this tab is currently executing (or recovering)
+    const inFlight = useRef<Set<string>>(new Set())
+    // Jobs whose row is still being written; they can't be claimed until it lands
+    const saving = useRef<Set<string>>(new Set())
+    // Jobs another tab or device owns; this tab only mirrors their progress
+    const watching = useRef<Set<string>>(new Set())
+
+    const updateJob = useCallback((jobId: string, patch: Partial<GenerationJob>) => {
+        setJobs(prev => prev.map(job => (job.id === jobId ? { ...job, ...patch } : job)))
+        JobService.update(jobId, patch).catch(err => {
+            console.error('Failed to persist job update:', err)
+        })
+    }, [])
+
+    const finishJob = useCallback((job: GenerationJob, patch: Partial<GenerationJob>) => {
+        const finalPatch = { ...patch, step: null, finished_at: new Date().toISOString() }
+        updateJob(job.id, finalPatch)
+        setLastFinishedJob({ ...job, ...finalPatch })
+    }, [updateJob])
+
+    // Write the job row before the scheduler may claim it
+    const persistJob = useCallback((job: GenerationJob) => {
+        saving.current.add(job.id)
+        JobService.create(job)
+            .then(() => {
+                saving.current.delete(job.id)
+                setJobs(prev => [...prev]) // wake the scheduler
+            })
+            .catch(err => {
+                saving.current.delete(job.id)
+                console.error('Failed to persist job:', err)
+                finishJob(job, { status: 'failed', error: getUserFriendlyErrorMessage(err) })
+            })
+    }, [finishJob])
+
+    // Another tab or device owns the job: follow its row without writing to it
+    const watchJob = useCallback(async (job: GenerationJob) => {
+        watching.current.add(job.id)
+
+        try {
+            const since = Date.now()
+            while (Date.now() - since < STALE_JOB_MS) {
+                const remote = await JobService.get(job.id)
+                if (!remote) {
+                    setJobs(prev => prev.map(j => (j.id === job.id
+                        ? { ...j, status: 'failed', step: null, error: 'This job was never saved. Please retry.' }
+                        : j)))
+                    return
+                }
+                setJobs(prev => prev.map(j => (j.id === job.id ? remote : j)))
+                if (!isActiveJob(remote)) {
+                    setLastFinishedJob(remote)
+                    return
+                }
+                // Released back to the queue; the scheduler can claim it again
+                if (remote.status === 'queued') return
+                await wait(RECOVERY_POLL_MS)
+            }
+        } catch (err) {
+            console.error('Failed to follow job:', err)
+        } finally {
+            watching.current.delete(job.id)
+        }
+    }, [])
+
+    // Restore jobs on login: local copy first (instant), then reconcile with the database
+    useEffect(() => {
+        if (!user) {
+            setJobs([])
+            return
+        }
+
+        let isMounted = true
+        setJobs(loadStoredJobs(user.id))
+
+        JobService.listRecent(user.id)
+            .then(remote => {
+                if (isMounted) setJobs(prev => mergeJobs(prev, remote))
+            })
+            .catch(err => console.error('Failed to load generation jobs:', err))
+
+        return () => {
+            isMounted = false
+        }
+    }, [user])
+
+    // Persist jobs so the tray survives reloads
+    useEffect(() => {
+        if (!user) return
+        localStorage.setItem(STORAGE_KEY, JSON.stringify(jobs))
+    }, [jobs, user])
+
+    const runJob = useCallback(async (job: GenerationJob) => {
+        inFlight.current.add(job.id)
+
+        try {
+            if (!session?.provider_token || !profile) {
+                finishJob(job, { status: 'failed', error: 'GitHub token not available. Please log in again.' })
+                return
+            }
+
+            const startedAt = new Date().toISOString()
+            if (!await JobService.claim(job.id, TAB_ID, startedAt)) {
+                watchJob(job)
+                return
+            }
+            setJobs(prev => prev.map(j => (j.id === job.id
+                ? { ...j, status: 'running', step: 'Starting', started_at: startedAt, claimed_by: TAB_ID }
+                : j)))
+
+            await JobService.execute({ ...job, started_at: startedAt }, {
+                accessToken: session.access_token,
+                githubToken: session.provider_token,
+                profile,
+                onStep: step => updateJob(job.id, { step }),
+            })
+
+            finishJob(job, { status: 'done', started_at: startedAt })
+            await refreshProfile() // Update UI counter
+
+            if (job.kind === 'diagram') {
+                showToast.success(`${job.diagram_type?.toUpperCase()} diagram for ${job.repo_name} generated!`)
+                trackEvent(AnalyticsEvents.GENERATE_DIAGRAM, { repo: job.repo_name, success: 1 })
+            } else {
+                showToast.success(`README for ${job.repo_name} generated!`)
+                trackEvent(AnalyticsEvents.GENERATE_README, { repo: job.repo_name, success: 1 })
+            }
+        } catch (err) {
+            console.error(`Failed to run ${job.kind} job:`, err)
+            const message = getUserFriendlyErrorMessage(err)
+            finishJob(job, { status: 'failed', error: message })
+            showToast.error(`${job.repo_name}: ${message}`)
+        } finally {
+            inFlight.current.delete(job.id)
+        }
+    }, [session, profile, refreshProfile, updateJob, finishJob, watchJob])
+
+    // A "running" job this tab isn't executing was interrupted by a reload.
+    // Generation keeps going server-side, so wait for the result to land.
+    const recoverJob = useCallback(async (job: GenerationJob) => {
+        inFlight.current.add(job.id)
+
+        try {
+            const remote = await JobService.get(job.id)
+            if (!remote || remote.status !== 'running' || !await JobService.claimRecovery(remote, TAB_ID)) {
+                watchJob(job)
+                return
+            }
+
+            const startedAt = new Date(job.started_at || job.created_at).getTime()
+            while (Date.now() - startedAt < STALE_JOB_MS) {
+                if (await JobService.hasJobLanded(job)) {
+                    finishJob(job, { status: 'done' })
+                    return
+                }
+                await wait(RECOVERY_POLL_MS)
+            }
+            finishJob(job, { status: 'failed', error: 'Generation was interrupted. Please retry.' })
+        } catch (err) {
+            console.error('Failed to recover job:', err)
+            finishJob(job, { status: 'failed', error: getUserFriendlyErrorMessage(err) })
+        } finally {
+            inFlight.current.delete(job.id)
+        }
+    }, [finishJob, watchJob])
+
+    // Scheduler: start queued jobs up to the concurrency limit, recover orphaned ones
+    useEffect(() => {
+        if (!session) return
+
+        const idle = (job: GenerationJob) =>
+            !inFlight.current.has(job.id) && !saving.current.has(job.id) && !watching.current.has(job.id)
+
+        for (const job of jobs) {
+            if (job.status === 'running' && idle(job)) {
+                recoverJob(job)
+            }
+        }
+
+        const queued = jobs
+            .filter(job => job.status === 'queued' && idle(job))
+            .sort((a, b) => a.created_at.localeCompare(b.created_at))
+        const freeSlots = MAX_CONCURRENT_JOBS - inFlight.current.size
+        queued.slice(0, Math.max(freeSlots, 0)).forEach(job => {
+            runJob(job)
+        })
+    }, [jobs, session, runJob, recoverJob])
+
+    const activeJobFor = useCallback((
+        repoId: string,
+        kind?: GenerationJob['kind'],
+        diagramType?: RepositoryDiagram['diagram_type'],
+        scopeId?: string | null
+    ) => jobs.find(job =>
+        job.repository_id === repoId &&
+        isActiveJob(job) &&
+        (!kind || job.kind === kind) &&
+        (!diagramType || job.diagram_type === diagramType) &&
+        (scopeId === undefined || (job.scope_id ?? null) === scopeId)
+    ), [jobs])
+
+    const submitJob = (
+        repo: Repository,
+        kind: GenerationJob['kind'],
+        diagramType: RepositoryDiagram['diagram_type'] | null = null,
+        ref: string | null = null,
+        scopeId: string | null = null
+    ): GenerationJob | null => {
+        if (!user) return null
+
+        // Don't queue the same work twice
+        const existing = activeJobFor(repo.id, kind, diagramType ?? undefined, kind === 'diagram' ? scopeId : undefined)
+        if (existing) {
+            showToast.error(`${repo.repo_name} is already being generated`)
+            return existing
+        }
+
+        const job = JobService.draft(user.id, repo, kind, diagramType, ref, scopeId)
+        setJobs(prev => [job, ...prev])
+        persistJob(job)
+        return job
+    }
+
+    const retryJob = (jobId: string) => {
+        const job = jobs.find(j => j.id === jobId)
+        if (!job || job.status !== 'failed') return
+        const retried: GenerationJob = {
+            ...job,
+            status: 'queued',
+            step: null,
+            error: null,
+            claimed_by: null,
+            started_at: null,
+            finished_at: null,
+        }
+        setJobs(prev => prev.map(j => (j.id === jobId ? retried : j)))
+        persistJob(retried)
+    }
+
+    const dismissJob = (jobId: string) => {
+        setJobs(prev => prev.filter(job => job.id !== jobId || isActiveJob(job)))
+    }
+
+    const clearFinished = () => {
+        setJobs(prev => prev.filter(isActiveJob))
+    }
+
+    const value: JobContextType = {
+        jobs,
+        lastFinishedJob,
+        submitDiagramJob: (repo, diagramType, ref, scopeId) => submitJob(repo, 'diagram', diagramType, ref, scopeId),
+        submitReadmeJob: (repo, ref) => submitJob(repo, 'readme', null, ref),
+        retryJob,
+        dismissJob,
+        clearFinished,
+        activeJobFor,
+    }
+
+    return (
+        <JobContext.Provider value={value}>
+            {children}
+        </JobContext.Provider>
+    )
+}
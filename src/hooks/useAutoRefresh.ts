@@ -0,0 +1,144 @@
+import { useEffect, useMemo, useRef, useState } from 'react'
+import { useAuth } from './useAuth'
+import { useJobs } from './useJobs'
+import type { RefreshSetting, Repository } from '../lib/supabase'
+import {
+    AutoRefreshService,
+    POLL_INTERVAL_MS,
+    needsRegeneration,
+    type RefreshSettingInput,
+} from '../lib/autoRefresh'
+import { ApiError, getUserFriendlyErrorMessage } from '../lib/api'
+import { showToast } from '../lib/toast'
+import { trackEvent, AnalyticsEvents } from '../lib/analytics'
+
+// How often the poll timer wakes up; each repository is still only checked every POLL_INTERVAL_MS
+const POLL_TICK_MS = 60 * 1000
+
+interface StoredSettings {
+    // Repository ids these were loaded for, so results for an older list are ignored
+    key: string
+    byRepo: Record<string, RefreshSetting>
+}
+
+/**
+ * Auto-refresh for the user's repositories while the dashboard is open
+ * Polls repositories set to 'poll' and queues regeneration (as background jobs)
+ * for stale repositories that ask for it, once per stale commit.
+ */
+export function useAutoRefresh(repos: Repository[]) {
+    const { user, session } = useAuth()
+    const { submitDiagramJob, submitReadmeJob } = useJobs()
+    const [stored, setStored] = useState<StoredSettings | null>(null)
+    const lastChecked = useRef(new Map<string, number>())
+    // Stale commits this tab already queued, in case the queued_sha update is slow
+    const queued = useRef(new Set<string>())
+
+    const key = repos.map(repo => repo.id).sort().join(',')
+    const settings = useMemo(() => (stored?.key === key ? stored.byRepo : {}), [stored, key])
+    const githubToken = session?.provider_token
+
+    useEffect(() => {
+        if (!key) return
+        let cancelled = false
+        AutoRefreshService.list(key.split(','))
+            .then(list => {
+                if (!cancelled) setStored({ key, byRepo: Object.fromEntries(list.map(s => [s.repository_id, s])) })
+            })
+            .catch(err => {
+                console.error('Failed to load auto-refresh settings:', err)
+            })
+        return () => {
+            cancelled = true
+        }
+    }, [key])
+
+    const polled = useMemo(
+        () => repos.filter(repo => settings[repo.id]?.enabled && settings[repo.id].mode === 'poll'),
+        [repos, settings]
+    )
+
+    useEffect(() => {
+        if (!githubToken || polled.length === 0) return
+
+        const check = () => {
+            const now = Date.now()
+            for (const repo of polled) {
+                if (repo.stale_since_sha || now - (lastChecked.current.get(repo.id) ?? 0) < POLL_INTERVAL_MS) continue
+                lastChecked.current.set(repo.id, now)
+                AutoRefreshService.check(repo, githubToken).catch(err => {
+                    console.error(`Failed to check ${repo.repo_name} for new commits:`, err)
+                })
+            }
+        }
+
+        check()
+        const timer = setInterval(check, POLL_TICK_MS)
+        return () => clearInterval(timer)
+    }, [polled, githubToken])
+
+    // Queue regeneration for repositories that went stale (from polling or the webhook)
+    useEffect(() => {
+        if (!githubToken) return
+
+        for (const repo of repos) {
+            const setting = settings[repo.id]
+            const staleSha = repo.stale_since_sha
+            if (!setting || !staleSha || !needsRegeneration(repo, setting)) continue
+
+            const queueKey = `${repo.id}:${staleSha}`
+            if (queued.current.has(queueKey)) continue
+            queued.current.add(queueKey)
+
+            setting.diagram_types.forEach(type => submitDiagramJob(repo, type))
+            if (setting.regenerate_readme) submitReadmeJob(repo)
+            trackEvent(AnalyticsEvents.AUTO_REFRESH, { repo: repo.repo_name, diagrams: setting.diagram_types.length })
+
+            AutoRefreshService.markQueued(setting.id, staleSha)
+                .then(updated => setStored(prev => prev && {
+                    ...prev,
+                    byRepo: { ...prev.byRepo, [repo.id]: updated },
+                }))
+                .catch(err => {
+                    console.error('Failed to record queued regeneration:', err)
+                })
+        }
+    }, [repos, settings, githubToken, submitDiagramJob, submitReadmeJob])
+
+    /**
+     * Save a repository's setting; resolves to `true` on success (failures show a toast)
+     */
+    const saveSetting = async (repo: Repository, input: RefreshSettingInput): Promise<boolean> => {
+        if (!user || !session?.provider_token) {
+            showToast.error('GitHub token not available. Please log in again.')
+            return false
+        }
+        try {
+            const saved = await AutoRefreshService.save(repo, settings[repo.id], input, {
+                accessToken: session.access_token,
+                githubToken: session.provider_token,
+                userId: user.id,
+            })
+            setStored(prev => ({
+                key,
+                byRepo: { ...(prev?.key === key ? prev.byRepo : {}), [repo.id]: saved },
+            }))
+            lastChecked.current.delete(repo.id)
+            return true
+        } catch (err) {
+            console.error('Failed to save auto-refresh setting:', err)
+            const forbidden = ApiError.fromError(err).statusCode === 403
+            showToast.error(forbidden && input.mode === 'webhook'
+                ? 'Registering a webhook needs admin access to the repository. Try polling instead.'
+                : getUserFriendlyErrorMessage(err))
+            return false
+        }
+    }
+
+    return {
+        settings,
+        saveSetting,
+    }
+}
+
+export type AutoRefresh = ReturnType<typeof useAutoRefresh>
@@ -0,0 +1,87 @@
+import { useEffect, useMemo, useState } from 'react'
+import { useAuth } from './useAuth'
+import type { DiagramComment, OrgMember, RepositoryDiagram } from '../lib/supabase'
+import { CommentService, extractMentions, groupThreads, type CommentAnchor } from '../lib/comments'
+import { getUserFriendlyErrorMessage } from '../lib/api'
+import { showToast } from '../lib/toast'
+import { trackEvent, AnalyticsEvents } from '../lib/analytics'
+
+/**
+ * Comment threads on one diagram, with actions that keep local state in step
+ * Actions resolve to `true` on success; failures are reported with a toast.
+ */
+export function useDiagramComments(
+    repoId: string | undefined,
+    diagramType: RepositoryDiagram['diagram_type'],
+    scopeId: string | null = null
+) {
+    const { user } = useAuth()
+    const [comments, setComments] = useState<DiagramComment[]>([])
+
+    useEffect(() => {
+        if (!repoId) return
+        let cancelled = false
+        CommentService.list(repoId, diagramType, scopeId)
+            .then(data => {
+                if (!cancelled) setComments(data)
+            })
+            .catch(err => {
+                console.error('Failed to load comments:', err)
+            })
+        return () => {
+            cancelled = true
+        }
+    }, [repoId, diagramType, scopeId])
+
+    // Ignore rows left over from the previous diagram type or scope until the reload lands
+    const threads = useMemo(
+        () => groupThreads(comments.filter(c =>
+            c.repository_id === repoId &&
+            c.diagram_type === diagramType &&
+            (c.scope_id ?? null) === scopeId
+        )),
+        [comments, repoId, diagramType, scopeId]
+    )
+
+    const upsert = (comment: DiagramComment) => {
+        setComments(prev => prev.some(c => c.id === comment.id)
+            ? prev.map(c => (c.id === comment.id ? comment : c))
+            : [...prev, comment])
+    }
+
+    const run = async (action: () => Promise<void>, failure: string): Promise<boolean> => {
+        try {
+            await action()
+            return true
+        } catch (err) {
+            console.error(`${failure}:`, err)
+            showToast.error(getUserFriendlyErrorMessage(err))
+            return false
+        }
+    }
+
+    const create = (anchor: CommentAnchor, body: string, members: OrgMember[]) => run(async () => {
+        if (!repoId || !user) return
+        upsert(await CommentService.create(repoId, diagramType, scopeId, anchor, body, extractMentions(body, members), user.id))
+        trackEvent(AnalyticsEvents.ADD_COMMENT, { diagramType, pinned: 'nodeId' in anchor ? 'node' : 'canvas' })
+    }, 'Failed to add comment')
+
+    const reply = (root: DiagramComment, body: string, members: OrgMember[]) => run(async () => {
+        if (!user) return
+        upsert(await CommentService.reply(root, body, extractMentions(body, members), user.id))
+    }, 'Failed to reply')
+
+    const toggleResolved = (root: DiagramComment) => run(async () => {
+        if (!user) return
+        upsert(await CommentService.setResolved(root, !root.resolved_at, user.id))
+    }, 'Failed to update comment')
+
+    const remove = (comment: DiagramComment) => run(async () => {
+        await CommentService.remove(comment)
+        setComments(prev => prev.filter(c => c.id !== comment.id && c.parent_id !== comment.id))
+    }, 'Failed to delete comment')
+
+    return { threads, create, reply, toggleResolved, remove }
+}
+
+export type DiagramComments = ReturnType<typeof useDiagramComments>
@@ -0,0 +1,77 @@
+import { useEffect, useState } from 'react'
+import { useAuth } from './useAuth'
+import { useOrganization } from './useOrganization'
+import { DEFAULT_THEME, ThemeService, type DiagramTheme, type ThemeScope } from '../lib/themes'
+import { getUserFriendlyErrorMessage } from '../lib/api'
+import { showToast } from '../lib/toast'
+
+interface StoredThemes {
+    // Which user/org these were loaded for, so stale results are ignored
+    key: string
+    user: DiagramTheme | null
+    org: DiagramTheme | null
+}
+
+/**
+ * The diagram theme in effect: the user's own choice, else the current org's, else the default
+ * Save and clear actions resolve to `true` on success; failures are reported with a toast.
+ */
+export function useDiagramTheme() {
+    const { user } = useAuth()
+    const { currentOrg } = useOrganization()
+    const [stored, setStored] = useState<StoredThemes | null>(null)
+
+    const key = `${user?.id ?? ''}:${currentOrg?.id ?? ''}`
+
+    useEffect(() => {
+        if (!user) return
+        let cancelled = false
+        Promise.all([
+            ThemeService.get({ userId: user.id }),
+            currentOrg ? ThemeService.get({ orgId: currentOrg.id }) : Promise.resolve(null),
+        ])
+            .then(([userTheme, orgTheme]) => {
+                if (!cancelled) setStored({ key, user: userTheme, org: orgTheme })
+            })
+            .catch(err => {
+                console.error('Failed to load diagram theme:', err)
+            })
+        return () => {
+            cancelled = true
+        }
+    }, [user, currentOrg, key])
+
+    const current = stored?.key === key ? stored : null
+    const userTheme = current?.user ?? null
+    const orgTheme = current?.org ?? null
+
+    const update = async (scope: ThemeScope, theme: DiagramTheme | null): Promise<boolean> => {
+        if (!user) return false
+        try {
+            let saved: DiagramTheme | null = null
+            if (theme) saved = await ThemeService.save(scope, theme, user.id)
+            else await ThemeService.clear(scope)
+            setStored(prev => ({
+                key,
+                user: 'userId' in scope ? saved : prev?.user ?? null,
+                org: 'orgId' in scope ? saved : prev?.org ?? null,
+            }))
+            return true
+        } catch (err) {
+            console.error('Failed to save diagram theme:', err)
+            showToast.error(getUserFriendlyErrorMessage(err))
+            return false
+        }
+    }
+
+    return {
+        theme: userTheme ?? orgTheme ?? DEFAULT_THEME,
+        userTheme,
+        orgTheme,
+        loaded: current !== null,
+        saveUserTheme: (theme: DiagramTheme | null) => user ? update({ userId: user.id }, theme) : Promise.resolve(false),
+        saveOrgTheme: (theme: DiagramTheme | null) => currentOrg ? update({ orgId: currentOrg.id }, theme) : Promise.resolve(false),
+    }
+}
+
+export type DiagramThemes = ReturnType<typeof useDiagramTheme>
@@ -0,0 +1,39 @@
+import { createContext, useContext } from 'react'
+import type { GenerationJob, Repository, RepositoryDiagram } from '../lib/supabase'
+
+export interface JobContextType {
+    jobs: GenerationJob[]
+    // Most recently finished job (done or failed); pages refresh when it changes
+    lastFinishedJob: GenerationJob | null
+
+    // `ref` is a branch, tag or commit to analyse; omit it for the default branch.
+    // `scopeId` narrows a diagram to a diagram scope; omit it for the whole repository.
+    submitDiagramJob: (
+        repo: Repository,
+        diagramType: RepositoryDiagram['diagram_type'],
+        ref?: string | null,
+        scopeId?: string | null
+    ) => GenerationJob | null
+    submitReadmeJob: (repo: Repository, ref?: string | null) => GenerationJob | null
+    retryJob: (jobId: string) => void
+    dismissJob: (jobId: string) => void
+    clearFinished: () => void
+
+    // Active (queued or running) job for a repository, optionally narrowed by kind/type/scope
+    activeJobFor: (
+        repoId: string,
+        kind?: GenerationJob['kind'],
+        diagramType?: RepositoryDiagram['diagram_type'],
+        scopeId?: string | null
+    ) => GenerationJob | undefined
+}
+
+export const JobContext = createContext<JobContextType | null>(null)
+
+export function useJobs() {
+    const context = useContext(JobContext)
+    if (!context) {
+        throw new Error('useJobs must be used within a JobProvider')
+    }
+    return context
+}
@@ -1,30 +1,8 @@
 import { useState, useEffect, useCallback, createContext, useContext, type ReactNode } from 'react'
 import { supabase } from '../lib/supabase'
+import type { Organization, OrgMember } from '../lib/supabase'
 import { useAuth } from './useAuth'
 
-export interface Organization {
-    id: string
-    name: string
-    slug: string
-    avatar_url: string | null
-    owner_id: string
-    created_at: string
-}
-
-export interface OrgMember {
-    id: string
-    org_id: string
-    user_id: string
-    role: 'owner' | 'admin' | 'member' | 'viewer'
-    invited_at: string
-    joined_at: string | null
-    // Joined profile data
-    profile?: {
-        github_username: string
-        avatar_url: string
-    }
-}
-
 interface OrganizationContextType {
     // Current organization context (null = personal)
     currentOrg: Organization | null
@@ -198,7 +176,8 @@ export function OrganizationProvider({ children }: { children: ReactNode }) {
         }
     }
 
-    const getMembers = async (orgId: string): Promise<OrgMember[]> => {
+    // Stable so consumers can load members from an effect without refetching every render
+    const getMembers = useCallback(async (orgId: string): Promise<OrgMember[]> => {
         try {
             const { data, error } = await supabase
                 .from('org_members')
@@ -220,7 +199,7 @@ export function OrganizationProvider({ children }: { children: ReactNode }) {
             console.error('Failed to fetch members:', err)
             return []
         }
-    }
+    }, [])
 
     const inviteMember = async (orgId: string, userId: string, role: OrgMember['role']): Promise<boolean> => {
         try {
@@ -0,0 +1,34 @@
+import { useEffect, useRef } from 'react'
+import { subscribeToChanges, type DiagramChange, type RepositoryChange, type TableSubscription } from '../lib/realtime'
+
+/**
+ * Subscribe to Supabase Realtime row changes for the lifetime of a component
+ *
+ * The channel is re-opened only when the channel name or a table/filter changes.
+ * Handlers always see the latest render's closure, and the channel is removed on unmount.
+ * Pass `null` as the channel name to stay unsubscribed (e.g. until an id is known).
+ */
+export function useRealtime(channelName: string | null, subscriptions: TableSubscription[]) {
+    const subscriptionsRef = useRef(subscriptions)
+
+    useEffect(() => {
+        subscriptionsRef.current = subscriptions
+    })
+
+    const subscriptionKey = subscriptions.map(sub => `${sub.table}:${sub.filter ?? ''}`).join('|')
+
+    useEffect(() => {
+        if (!channelName) return
+
+        // Route every event through the ref so handlers are never stale
+        const latest = (index: number) => subscriptionsRef.current[index]
+        const proxied = subscriptionsRef.current.map((sub, index): TableSubscription => {
+            if (sub.table === 'repositories') {
+                return { ...sub, onChange: (payload: RepositoryChange) => (latest(index) as typeof sub).onChange(payload) }
+            }
+            return { ...sub, onChange: (payload: DiagramChange) => (latest(index) as typeof sub).onChange(payload) }
+        })
+
+        return subscribeToChanges(channelName, proxied)
+    }, [channelName, subscriptionKey])
+}
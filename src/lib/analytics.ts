@@ -54,16 +54,25 @@ export const AnalyticsEvents = {
     GENERATE_README: 'generate_readme',
     UPDATE_DIAGRAM: 'update_diagram',
     UPDATE_README: 'update_readme',
+    RESTORE_DIAGRAM: 'restore_diagram_version',
+    COMPARE_DIAGRAMS: 'compare_diagram_versions',
+    AUTO_REFRESH: 'auto_refresh_queued',
+    SAVE_AUTO_REFRESH: 'save_auto_refresh',
 
     // Export actions
     EXPORT_PNG: 'export_png',
     EXPORT_SVG: 'export_svg',
+    EXPORT_DIAGRAM: 'export_diagram',
     COPY_README: 'copy_readme',
 
     // UI interactions
     SEARCH_REPOS: 'search_repositories',
     FILTER_REPOS: 'filter_repositories',
     EXPLAIN_NODE: 'explain_node',
+    ASK_ARCHITECTURE: 'ask_architecture',
+    ADD_COMMENT: 'add_comment',
+    CREATE_SHARE_LINK: 'create_share_link',
+    COPY_EMBED: 'copy_embed',
 
     // Auth
     LOGIN: 'login',
@@ -3,6 +3,8 @@
  * Enterprise-grade resilience for all API operations
  */
 
+import { FunctionsFetchError, FunctionsHttpError, FunctionsRelayError, PostgrestError } from '@supabase/supabase-js'
+
 // Retry configuration
 interface RetryConfig {
     maxRetries: number
@@ -16,28 +18,12 @@ const DEFAULT_RETRY_CONFIG: RetryConfig = {
     baseDelayMs: 1000,
     maxDelayMs: 10000,
     retryOn: (error, attempt) => {
-        // Retry on network errors and 5xx server errors
-        if (error.message.includes('fetch') || error.message.includes('network')) {
-            return true
-        }
-        // Don't retry on auth errors (401, 403)
-        if (error.message.includes('401') || error.message.includes('403')) {
-            return false
-        }
-        // Don't retry on client errors (400, 404)
-        if (error.message.includes('400') || error.message.includes('404')) {
-            return false
-        }
-        // Retry on server errors (500, 502, 503, 504)
-        if (error.message.includes('500') || error.message.includes('502') ||
-            error.message.includes('503') || error.message.includes('504')) {
-            return true
-        }
-        // Retry on timeout
-        if (error.message.includes('timeout') || error.message.includes('TIMEOUT')) {
-            return true
+        const apiError = ApiError.fromError(error)
+        if (apiError.type === ApiErrorType.UNKNOWN) {
+            return attempt < 2 // Allow 1 more retry for unknown errors
         }
-        return attempt < 2 // Allow 1 more retry for unknown errors
+        // Network, timeout, 5xx and rate limits (with Retry-After) are retryable
+        return apiError.isRetryable
     }
 }
 
@@ -80,8 +66,12 @@ export async function withRetry<T>(
             const isLastAttempt = attempt === finalConfig.maxRetries
             const shouldRetry = !isLastAttempt && finalConfig.retryOn(lastError, attempt)
 
-            if (shouldRetry) {
-                const delay = calculateBackoff(attempt, finalConfig)
+            // Respect server-provided Retry-After, but never wait longer than maxDelayMs
+            const retryAfterMs = lastError instanceof ApiError ? lastError.retryAfterMs : undefined
+            const withinRetryAfter = retryAfterMs === undefined || retryAfterMs <= finalConfig.maxDelayMs
+
+            if (shouldRetry && withinRetryAfter) {
+                const delay = retryAfterMs ?? calculateBackoff(attempt, finalConfig)
                 console.log(`⚠️ Retry attempt ${attempt + 1}/${finalConfig.maxRetries} after ${delay}ms:`, lastError.message)
                 await sleep(delay)
             } else {
@@ -93,6 +83,26 @@ export async function withRetry<T>(
     throw lastError
 }
 
+/**
+ * Run a Supabase query with retry logic, throwing a classified ApiError on failure
+ */
+export async function runQuery<T>(
+    query: () => PromiseLike<{ data: T | null; error: unknown; status: number }>
+): Promise<T> {
+    try {
+        return await withRetry(
+            async () => {
+                const { data, error, status } = await query()
+                if (error) throw ApiError.fromError(error, status)
+                return data as T
+            },
+            { retryOn: (error) => ApiError.fromError(error).isRetryable }
+        )
+    } catch (error) {
+        throw ApiError.fromError(error)
+    }
+}
+
 /**
  * Wrapper for fetch with automatic retry
  */
@@ -113,14 +123,14 @@ export async function fetchWithRetry(
             clearTimeout(timeoutId)
 
             if (!response.ok) {
-                throw new Error(`HTTP ${response.status}: ${response.statusText}`)
+                throw ApiError.fromResponse(response)
             }
 
             return response
         } catch (error) {
             clearTimeout(timeoutId)
             if (error instanceof Error && error.name === 'AbortError') {
-                throw new Error('Request timeout')
+                throw new ApiError('Request timeout', ApiErrorType.TIMEOUT, undefined, { cause: error })
             }
             throw error
         }
@@ -140,53 +150,149 @@ export const ApiErrorType = {
 
 export type ApiErrorType = typeof ApiErrorType[keyof typeof ApiErrorType]
 
+interface ApiErrorOptions {
+    // Underlying error (Supabase, fetch, etc.) for debugging and Sentry
+    cause?: unknown
+    // Provider-specific error code (e.g. PostgREST/Postgres code)
+    code?: string
+    // Delay requested by the server via Retry-After
+    retryAfterMs?: number
+}
+
+/**
+ * Map an HTTP status code to an error category
+ */
+function typeFromStatus(status: number): ApiErrorType {
+    if (status === 401 || status === 403) return ApiErrorType.AUTH
+    if (status === 408) return ApiErrorType.TIMEOUT
+    if (status === 429) return ApiErrorType.RATE_LIMIT
+    if (status >= 500) return ApiErrorType.SERVER
+    if (status >= 400) return ApiErrorType.CLIENT
+    return ApiErrorType.UNKNOWN
+}
+
+/**
+ * Map a PostgREST / Postgres error code to an HTTP-equivalent status
+ * @see https://postgrest.org/en/stable/references/errors.html
+ */
+function statusFromPostgrestCode(code: string): number | undefined {
+    if (code === 'PGRST301' || code === 'PGRST302' || code === 'PGRST303') return 401
+    if (code === '42501') return 403 // insufficient_privilege (RLS)
+    if (code === 'PGRST116') return 406 // .single() matched zero or many rows
+    if (code === '57014') return 408 // statement timeout
+    if (/^PGRST00\d$/.test(code)) return 503 // PostgREST cannot reach the database
+    if (code.startsWith('23')) return 409 // integrity constraint violation
+    if (code.startsWith('08') || code.startsWith('53')) return 503 // connection / resources
+    if (code.startsWith('22') || code.startsWith('42') || code.startsWith('PGRST')) return 400
+    return undefined
+}
+
+/**
+ * Parse a Retry-After header (delta-seconds or HTTP date) into milliseconds
+ */
+export function parseRetryAfter(value: string | null | undefined): number | undefined {
+    if (!value) return undefined
+    const seconds = Number(value)
+    if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000)
+    const date = Date.parse(value)
+    if (Number.isNaN(date)) return undefined
+    return Math.max(0, date - Date.now())
+}
+
+function isPostgrestError(error: unknown): error is PostgrestError {
+    if (error instanceof PostgrestError) return true
+    return typeof error === 'object' && error !== null &&
+        typeof (error as PostgrestError).code === 'string' &&
+        'details' in error && 'hint' in error
+}
+
 export class ApiError extends Error {
     type: ApiErrorType
     statusCode?: number
+    code?: string
+    retryAfterMs?: number
     isRetryable: boolean
 
-    constructor(message: string, type: ApiErrorType, statusCode?: number) {
-        super(message)
+    constructor(message: string, type: ApiErrorType, statusCode?: number, options: ApiErrorOptions = {}) {
+        super(message, { cause: options.cause })
         this.name = 'ApiError'
         this.type = type
         this.statusCode = statusCode
+        this.code = options.code
+        this.retryAfterMs = options.retryAfterMs
         this.isRetryable =
             type === ApiErrorType.NETWORK ||
             type === ApiErrorType.SERVER ||
-            type === ApiErrorType.TIMEOUT
+            type === ApiErrorType.TIMEOUT ||
+            (type === ApiErrorType.RATE_LIMIT && options.retryAfterMs !== undefined)
     }
 
-    static fromError(error: unknown): ApiError {
+    /**
+     * Build an error from a failed fetch Response (status + Retry-After)
+     */
+    static fromResponse(response: Response, message?: string, cause?: unknown): ApiError {
+        return new ApiError(
+            message || `HTTP ${response.status}: ${response.statusText}`,
+            typeFromStatus(response.status),
+            response.status,
+            { cause, retryAfterMs: parseRetryAfter(response.headers.get('Retry-After')) }
+        )
+    }
+
+    /**
+     * Classify any thrown value. Pass the HTTP status from a Supabase
+     * response when available; it takes precedence over error codes.
+     */
+    static fromError(error: unknown, status?: number): ApiError {
         if (error instanceof ApiError) {
             return error
         }
 
         const message = error instanceof Error ? error.message : String(error)
 
-        // Categorize the error
-        if (message.includes('fetch') || message.includes('network') || message.includes('ECONNREFUSED')) {
-            return new ApiError(message, ApiErrorType.NETWORK)
-        }
-        if (message.includes('401') || message.includes('Unauthorized')) {
-            return new ApiError(message, ApiErrorType.AUTH, 401)
+        // Edge Function returned a non-2xx response; context is the Response
+        if (error instanceof FunctionsHttpError && error.context instanceof Response) {
+            return ApiError.fromResponse(error.context, message, error)
         }
-        if (message.includes('403') || message.includes('Forbidden')) {
-            return new ApiError(message, ApiErrorType.AUTH, 403)
+        // Supabase relay could not reach the Edge Function
+        if (error instanceof FunctionsRelayError) {
+            const relayStatus = error.context instanceof Response ? error.context.status : 502
+            return new ApiError(message, ApiErrorType.SERVER, relayStatus, { cause: error })
         }
-        if (message.includes('429') || message.includes('rate limit')) {
-            return new ApiError(message, ApiErrorType.RATE_LIMIT, 429)
+        // Request never reached Supabase
+        if (error instanceof FunctionsFetchError) {
+            return new ApiError(message, ApiErrorType.NETWORK, undefined, { cause: error })
         }
-        if (message.includes('500') || message.includes('502') || message.includes('503') || message.includes('504')) {
-            return new ApiError(message, ApiErrorType.SERVER, parseInt(message.match(/\d{3}/)?.[0] || '500'))
+
+        if (isPostgrestError(error)) {
+            const resolvedStatus = status || statusFromPostgrestCode(error.code)
+            // PostgREST reports dropped connections with an empty code
+            if (!resolvedStatus && !error.code) {
+                return new ApiError(message, ApiErrorType.NETWORK, undefined, { cause: error })
+            }
+            return new ApiError(
+                message,
+                resolvedStatus ? typeFromStatus(resolvedStatus) : ApiErrorType.UNKNOWN,
+                resolvedStatus,
+                { cause: error, code: error.code }
+            )
         }
-        if (message.includes('400') || message.includes('404')) {
-            return new ApiError(message, ApiErrorType.CLIENT, parseInt(message.match(/\d{3}/)?.[0] || '400'))
+
+        if (status) {
+            return new ApiError(message, typeFromStatus(status), status, { cause: error })
         }
-        if (message.includes('timeout') || message.includes('TIMEOUT') || message.includes('AbortError')) {
-            return new ApiError(message, ApiErrorType.TIMEOUT)
+
+        if (error instanceof Error) {
+            if (error.name === 'AbortError' || error.name === 'TimeoutError') {
+                return new ApiError(message, ApiErrorType.TIMEOUT, undefined, { cause: error })
+            }
+            // fetch() rejects with a TypeError when the network is unreachable
+            if (error.name === 'TypeError' && /fetch|network/i.test(message)) {
+                return new ApiError(message, ApiErrorType.NETWORK, undefined, { cause: error })
+            }
         }
 
-        return new ApiError(message, ApiErrorType.UNKNOWN)
+        return new ApiError(message, ApiErrorType.UNKNOWN, undefined, { cause: error })
     }
 }
 
@@ -200,7 +306,9 @@ export function getUserFriendlyErrorMessage(error: unknown): string {
         case ApiErrorType.NETWORK:
             return 'Unable to connect. Please check your internet connection and try again.'
         case ApiErrorType.AUTH:
-            return 'Your session has expired. Please log in again.'
+            return apiError.statusCode === 403
+                ? 'You do not have permission to perform this action.'
+                : 'Your session has expired. Please log in again.'
         case ApiErrorType.RATE_LIMIT:
             return 'Too many requests. Please wait a moment and try again.'
         case ApiErrorType.SERVER:
@@ -0,0 +1,163 @@
+/**
+ * Automatic refresh when a repository gets new commits
+ * A repository either has a GitHub push webhook (registered by the
+ * manage-github-webhook Edge Function, which also receives the pushes and
+ * marks the repository stale) or is polled from the app by comparing the
+ * default branch SHA with the commit the diagrams were generated from.
+ */
+
+import { supabase } from './supabase'
+import type { RefreshSetting, Repository } from './supabase'
+import { ApiError, runQuery } from './api'
+import { GitHubService } from './github'
+import { RepositoryService } from './repositories'
+
+export type RefreshSettingInput = Pick<RefreshSetting, 'enabled' | 'mode' | 'diagram_types' | 'regenerate_readme'>
+
+export interface RefreshContext {
+    accessToken: string
+    githubToken: string
+    userId: string
+}
+
+// How often polled repositories are checked while the dashboard is open
+export const POLL_INTERVAL_MS = 5 * 60 * 1000
+
+export const DEFAULT_REFRESH_SETTING: RefreshSettingInput = {
+    enabled: false,
+    mode: 'webhook',
+    diagram_types: [],
+    regenerate_readme: false,
+}
+
+/**
+ * Whether a stale repository should have regeneration queued for its current stale commit
+ */
+export function needsRegeneration(repo: Repository, setting: RefreshSetting | undefined): boolean {
+    return !!setting?.enabled &&
+        !!repo.stale_since_sha &&
+        repo.stale_since_sha !== setting.queued_sha &&
+        (setting.diagram_types.length > 0 || setting.regenerate_readme)
+}
+
+/**
+ * Auto-refresh settings for a set of repositories
+ */
+async function list(repoIds: string[]): Promise<RefreshSetting[]> {
+    if (repoIds.length === 0) return []
+    const data = await runQuery<RefreshSetting[]>(() =>
+        supabase
+            .from('refresh_settings')
+            .select('*')
+            .in('repository_id', repoIds)
+    )
+    return data ?? []
+}
+
+// Registers or removes the push webhook; resolves to the GitHub hook id when registering
+async function manageWebhook(body: Record<string, unknown>, accessToken: string): Promise<number | null> {
+    const { data, error } = await supabase.functions.invoke('manage-github-webhook', {
+        headers: {
+            Authorization: `Bearer ${accessToken}`,
+        },
+        body,
+    })
+    if (error) throw ApiError.fromError(error)
+    return data?.webhookId ?? null
+}
+
+/**
+ * Save a repository's auto-refresh setting, registering or removing the GitHub
+ * webhook to match. Registering needs admin access to the repository.
+ */
+async function save(
+    repo: Repository,
+    current: RefreshSetting | undefined,
+    input: RefreshSettingInput,
+    ctx: RefreshContext
+): Promise<RefreshSetting> {
+    const wantsWebhook = input.enabled && input.mode === 'webhook'
+    let webhookId = current?.webhook_id ?? null
+
+    if (wantsWebhook && webhookId === null) {
+        webhookId = await manageWebhook({
+            action: 'register',
+            repositoryId: repo.id,
+            repoOwner: repo.repo_owner,
+            repoName: repo.repo_name,
+            githubToken: ctx.githubToken,
+        }, ctx.accessToken)
+    } else if (!wantsWebhook && webhookId !== null) {
+        await manageWebhook({
+            action: 'remove',
+            repositoryId: repo.id,
+            repoOwner: repo.repo_owner,
+            repoName: repo.repo_name,
+            githubToken: ctx.githubToken,
+            webhookId,
+        }, ctx.accessToken)
+        webhookId = null
+    }
+
+    // Without a known starting point the first push can't be told apart from old commits
+    if (input.enabled && !repo.last_scanned_sha) {
+        const head = await GitHubService.getCommitSha(repo.repo_owner, repo.repo_name, ctx.githubToken)
+        await RepositoryService.markScanned(repo.id, head)
+    }
+
+    return runQuery<RefreshSetting>(() =>
+        supabase
+            .from('refresh_settings')
+            .upsert({
+                repository_id: repo.id,
+                enabled: input.enabled,
+                mode: input.mode,
+                webhook_id: webhookId,
+                diagram_types: input.diagram_types,
+                regenerate_readme: input.regenerate_readme,
+                updated_by: ctx.userId,
+                updated_at: new Date().toISOString(),
+            }, { onConflict: 'repository_id' })
+            .select()
+            .single()
+    )
+}
+
+/**
+ * Compare a polled repository's default branch with the commit it was last generated
+ * from, marking it stale when they differ. Resolves to whether it was marked.
+ */
+async function check(repo: Repository, githubToken: string): Promise<boolean> {
+    if (repo.stale_since_sha) return false
+
+    const head = await GitHubService.getCommitSha(repo.repo_owner, repo.repo_name, githubToken)
+    if (!repo.last_scanned_sha) {
+        await RepositoryService.markScanned(repo.id, head)
+        return false
+    }
+    if (head === repo.last_scanned_sha) return false
+
+    await RepositoryService.markStale(repo.id, head)
+    return true
+}
+
+/**
+ * Remember that regeneration was queued for a stale commit
+ */
+async function markQueued(settingId: string, commitSha: string): Promise<RefreshSetting> {
+    return runQuery<RefreshSetting>(() =>
+        supabase
+            .from('refresh_settings')
+            .update({ queued_sha: commitSha })
+            .eq('id', settingId)
+            .select()
+            .single()
+    )
+}
+
+export const AutoRefreshService = {
+    list,
+    save,
+    check,
+    markQueued,
+}
@@ -0,0 +1,191 @@
+/**
+ * "Export all" documentation bundle
+ * Builds a ZIP with the README, every diagram as SVG, PNG and Mermaid source,
+ * and an index.html that shows everything offline. Runs entirely in the browser.
+ */
+
+import { createElement } from 'react'
+import { renderToStaticMarkup } from 'react-dom/server'
+import ReactMarkdown from 'react-markdown'
+import remarkGfm from 'remark-gfm'
+import JSZip from 'jszip'
+import type { DiagramScope, Repository, RepositoryDiagram } from './supabase'
+import { renderMermaid } from './mermaid'
+import { DIAGRAM_TYPE_NAMES, downloadBlob } from './export'
+import { rasterizeMarkup } from './rasterize'
+import { describeScope, findDiagram } from './scopes'
+import { PRINT_THEME, mermaidTheme, themePalette, type DiagramTheme } from './themes'
+
+interface BundledDiagram {
+    type: RepositoryDiagram['diagram_type']
+    // Scope the diagram belongs to; null for the whole repository
+    scope: DiagramScope | null
+    // Folder inside the bundle, e.g. `diagrams` or `diagrams/api`
+    dir: string
+    // index.html anchor, e.g. `flowchart` or `api-flowchart`
+    anchor: string
+    svg: string | null
+}
+
+interface BundleSet {
+    scope: DiagramScope | null
+    // Folder name for a scope's diagrams; null for the whole repository
+    slug: string | null
+    diagrams: RepositoryDiagram[]
+}
+
+const INDEX_STYLES = `
+body { margin: 0; font-family: system-ui, -apple-system, sans-serif; color: #1f2328; background: #f6f8fa; }
+header { padding: 1.5rem 2rem; background: #fff; border-bottom: 1px solid #d0d7de; }
+header h1 { margin: 0 0 0.25rem; font-size: 1.5rem; }
+header p { margin: 0; color: #59636e; font-size: 0.9rem; }
+nav { display: flex; gap: 1rem; margin-top: 1rem; flex-wrap: wrap; }
+nav a { color: #0969da; text-decoration: none; font-size: 0.9rem; }
+main { max-width: 1100px; margin: 0 auto; padding: 2rem; }
+section { margin-bottom: 2rem; padding: 1.5rem; background: #fff; border: 1px solid #d0d7de; border-radius: 8px; }
+section h2 { margin-top: 0; }
+.files { font-size: 0.85rem; color: #59636e; }
+.files a { color: #0969da; margin-right: 0.75rem; }
+.diagram { overflow: auto; padding: 1rem; border-radius: 6px; }
+.diagram svg { max-width: 100%; height: auto; }
+.readme pre { padding: 1rem; background: #f6f8fa; border-radius: 6px; overflow: auto; }
+.readme table { border-collapse: collapse; }
+.readme th, .readme td { padding: 0.4rem 0.75rem; border: 1px solid #d0d7de; }
+`
+
+function escapeHtml(value: string): string {
+    return value
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;')
+}
+
+// Anchor and file-safe folder name for a scope
+function slugify(value: string): string {
+    return value.toLowerCase().replace(/[^a-z0-9_-]+/g, '-').replace(/^-+|-+$/g, '')
+}
+
+/**
+ * Diagram sets to bundle: the whole repository under `diagrams/`, then one
+ * folder per scope under `diagrams/<scope>/`
+ */
+function bundleSets(repo: Repository): BundleSet[] {
+    const ordered = (scopeId: string | null) =>
+        (Object.keys(DIAGRAM_TYPE_NAMES) as RepositoryDiagram['diagram_type'][])
+            .map(type => findDiagram(repo, type, scopeId))
+            .filter((d): d is RepositoryDiagram => !!d)
+
+    const sets: BundleSet[] = [{ scope: null, slug: null, diagrams: ordered(null) }]
+    const used = new Set<string>()
+    for (const scope of repo.diagram_scopes ?? []) {
+        let slug = slugify(scope.name) || scope.id.slice(0, 8)
+        if (used.has(slug)) slug = `${slug}-${scope.id.slice(0, 8)}`
+        used.add(slug)
+        sets.push({ scope, slug, diagrams: ordered(scope.id) })
+    }
+    return sets.filter(set => set.diagrams.length > 0)
+}
+
+function diagramLabel(d: BundledDiagram): string {
+    const name = DIAGRAM_TYPE_NAMES[d.type]
+    return d.scope ? `${escapeHtml(d.scope.name)} · ${name}` : name
+}
+
+function indexHtml(repo: Repository, diagrams: BundledDiagram[], exportedAt: Date, background: string): string {
+    const title = `${repo.repo_owner}/${repo.repo_name}`
+    const readme = repo.readme_content
+        ? renderToStaticMarkup(createElement(ReactMarkdown, { remarkPlugins: [remarkGfm] }, repo.readme_content))
+        : null
+
+    const nav = [
+        readme ? '<a href="#readme">README</a>' : '',
+        ...diagrams.map(d => `<a href="#${d.anchor}">${diagramLabel(d)}</a>`),
+    ].join('')
+
+    const sections = diagrams.map(d => {
+        const files = [
+            d.svg ? `<a href="${d.dir}/${d.type}.svg">SVG</a><a href="${d.dir}/${d.type}.png">PNG</a>` : '',
+            `<a href="${d.dir}/${d.type}.mmd">Mermaid source</a>`,
+        ].join('')
+        const body = d.svg
+            ? `<div class="diagram" style="background: ${background}">${d.svg}</div>`
+            : '<p>This diagram could not be rendered; the Mermaid source is included.</p>'
+        const scope = d.scope ? `<p class="files">${escapeHtml(describeScope(d.scope))}</p>` : ''
+        return `<section id="${d.anchor}"><h2>${diagramLabel(d)} diagram</h2>${scope}<p class="files">${files}</p>${body}</section>`
+    })
+
+    return `<!doctype html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(title)} architecture</title>
+<style>${INDEX_STYLES}</style>
+</head>
+<body>
+<header>
+<h1>${escapeHtml(title)}</h1>
+<p>Exported ${escapeHtml(exportedAt.toLocaleString())} · <a href="${escapeHtml(repo.repo_url)}">${escapeHtml(repo.repo_url)}</a></p>
+<nav>${nav}</nav>
+</header>
+<main>
+${readme ? `<section id="readme" class="readme">${readme}</section>` : ''}
+${sections.join('\n')}
+</main>
+</body>
+</html>
+`
+}
+
+/**
+ * Build the documentation ZIP for a repository, with diagrams drawn in the given theme
+ * Diagrams that fail to render still ship their Mermaid source. Scoped diagram sets
+ * go in a folder per scope next to the whole-repository diagrams.
+ */
+export async function buildBundle(repo: Repository, theme: DiagramTheme = PRINT_THEME): Promise<Blob> {
+    const zip = new JSZip()
+    const folder = zip.folder(repo.repo_name) ?? zip
+    const exportedAt = new Date()
+    const directive = mermaidTheme(theme)
+    const { background } = themePalette(theme)
+
+    if (repo.readme_content) folder.file('README.md', repo.readme_content)
+
+    const bundled: BundledDiagram[] = []
+    for (const { scope, slug, diagrams } of bundleSets(repo)) {
+        const dir = slug ? `diagrams/${slug}` : 'diagrams'
+        for (const diagram of diagrams) {
+            const type = diagram.diagram_type
+            const anchor = slug ? `${slug}-${type}` : type
+            folder.file(`${dir}/${type}.mmd`, diagram.diagram_code)
+            try {
+                const svg = await renderMermaid(diagram.diagram_code, `bundle-${bundled.length}-${type}`, directive)
+                const png = await rasterizeMarkup(svg, { format: 'png', scale: 2, background })
+                folder.file(`${dir}/${type}.svg`, svg)
+                folder.file(`${dir}/${type}.png`, png.blob)
+                bundled.push({ type, scope, dir, anchor, svg })
+            } catch (error) {
+                console.error(`Failed to render ${type} diagram for export:`, error)
+                bundled.push({ type, scope, dir, anchor, svg: null })
+            }
+        }
+    }
+
+    folder.file('index.html', indexHtml(repo, bundled, exportedAt, background))
+    return zip.generateAsync({ type: 'blob', compression: 'DEFLATE' })
+}
+
+/**
+ * Build and download the documentation ZIP for a repository
+ */
+export async function downloadBundle(repo: Repository, theme?: DiagramTheme) {
+    downloadBlob(await buildBundle(repo, theme), `${repo.repo_name}-docs.zip`)
+}
+
+/**
+ * Whether there is anything to put in the bundle
+ */
+export function hasBundleContent(repo: Repository): boolean {
+    return !!repo.readme_content || (repo.repository_diagrams?.length ?? 0) > 0
+}
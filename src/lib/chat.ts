@@ -0,0 +1,190 @@
+/**
+ * "Ask the architecture" conversations
+ * Threads and messages are stored per repository and user; answers stream
+ * from the ask-architecture Edge Function
+ */
+
+import { supabase } from './supabase'
+import type { ChatMessage, ChatThread, RepositoryDiagram } from './supabase'
+import { ApiError, ApiErrorType, runQuery } from './api'
+import { env } from './env'
+
+// How much of the conversation is sent back as context
+const HISTORY_LIMIT = 20
+// Keep the node list in the prompt bounded for huge diagrams
+const NODE_LIMIT = 300
+
+export interface AskRequest {
+    repoOwner: string
+    repoName: string
+    diagramType: RepositoryDiagram['diagram_type']
+    diagramCode: string | null
+    readme: string | null
+    nodes: { id: string; label: string }[]
+    history: Pick<ChatMessage, 'role' | 'content'>[]
+    question: string
+}
+
+async function listThreads(repoId: string, userId: string): Promise<ChatThread[]> {
+    const data = await runQuery<ChatThread[]>(() =>
+        supabase
+            .from('chat_threads')
+            .select('*')
+            .eq('repository_id', repoId)
+            .eq('user_id', userId)
+            .order('updated_at', { ascending: false })
+    )
+    return data ?? []
+}
+
+async function createThread(repoId: string, userId: string, title: string): Promise<ChatThread> {
+    return runQuery<ChatThread>(() =>
+        supabase
+            .from('chat_threads')
+            .insert({ repository_id: repoId, user_id: userId, title })
+            .select()
+            .single()
+    )
+}
+
+async function deleteThread(threadId: string): Promise<void> {
+    await runQuery(() =>
+        supabase
+            .from('chat_threads')
+            .delete()
+            .eq('id', threadId)
+    )
+}
+
+async function listMessages(threadId: string): Promise<ChatMessage[]> {
+    const data = await runQuery<ChatMessage[]>(() =>
+        supabase
+            .from('chat_messages')
+            .select('*')
+            .eq('thread_id', threadId)
+            .order('created_at', { ascending: true })
+    )
+    return data ?? []
+}
+
+/**
+ * Append a message and bump the thread so it sorts first
+ */
+async function addMessage(threadId: string, role: ChatMessage['role'], content: string): Promise<ChatMessage> {
+    const message = await runQuery<ChatMessage>(() =>
+        supabase
+            .from('chat_messages')
+            .insert({ thread_id: threadId, role, content })
+            .select()
+            .single()
+    )
+    await runQuery(() =>
+        supabase
+            .from('chat_threads')
+            .update({ updated_at: message.created_at })
+            .eq('id', threadId)
+    )
+    return message
+}
+
+// Pull the text out of one server-sent event (`data: {"delta": "..."}` or raw text)
+function parseEvent(event: string): string | null {
+    const data = event
+        .split('\n')
+        .filter(line => line.startsWith('data:'))
+        .map(line => line.slice(5).replace(/^ /, ''))
+        .join('\n')
+    if (!data || data === '[DONE]') return null
+
+    try {
+        const parsed = JSON.parse(data)
+        if (typeof parsed === 'string') return parsed
+        return parsed.delta ?? parsed.content ?? parsed.text ?? ''
+    } catch {
+        return data
+    }
+}
+
+/**
+ * Ask a question and stream the answer; resolves with the full text
+ */
+async function ask(
+    request: AskRequest,
+    accessToken: string,
+    onDelta: (text: string) => void,
+    signal?: AbortSignal
+): Promise<string> {
+    let response: Response
+    try {
+        response = await fetch(`${env.SUPABASE_URL}/functions/v1/ask-architecture`, {
+            method: 'POST',
+            headers: {
+                Authorization: `Bearer ${accessToken}`,
+                apikey: env.SUPABASE_ANON_KEY,
+                'Content-Type': 'application/json',
+                Accept: 'text/event-stream',
+            },
+            body: JSON.stringify({
+                ...request,
+                history: request.history.slice(-HISTORY_LIMIT),
+                nodes: request.nodes.slice(0, NODE_LIMIT),
+                // The panel turns these into links that select the node
+                nodeReferenceFormat: '[[node-id]]',
+            }),
+            signal,
+        })
+    } catch (error) {
+        if (error instanceof Error && error.name === 'AbortError') throw error
+        throw new ApiError('Could not reach the assistant', ApiErrorType.NETWORK, undefined, { cause: error })
+    }
+
+    if (!response.ok) {
+        throw ApiError.fromResponse(response, 'Failed to get an answer')
+    }
+    if (!response.body) {
+        const text = await response.text()
+        onDelta(text)
+        return text
+    }
+
+    const isEventStream = response.headers.get('content-type')?.includes('text/event-stream')
+    const reader = response.body.pipeThrough(new TextDecoderStream()).getReader()
+    let answer = ''
+    let buffer = ''
+
+    for (;;) {
+        const { value, done } = await reader.read()
+        if (done) break
+        if (!isEventStream) {
+            answer += value
+            onDelta(value)
+            continue
+        }
+
+        buffer += value
+        const events = buffer.split(/\r?\n\r?\n/)
+        buffer = events.pop() ?? ''
+        for (const event of events) {
+            const delta = parseEvent(event)
+            if (!delta) continue
+            answer += delta
+            onDelta(delta)
+        }
+    }
+
+    const trailing = isEventStream ? parseEvent(buffer) : null
+    if (trailing) {
+        answer += trailing
+        onDelta(trailing)
+    }
+    return answer
+}
+
+export const ChatService = {
+    listThreads,
+    createThread,
+    deleteThread,
+    listMessages,
+    addMessage,
+    ask,
+}
@@ -0,0 +1,157 @@
+/**
+ * Diagram comments
+ * Comments are pinned to a node ID or to a point on the canvas; replies hang
+ * off the first comment of a thread, which also carries the resolved state
+ */
+
+import { supabase } from './supabase'
+import type { DiagramComment, OrgMember, RepositoryDiagram } from './supabase'
+import { runQuery } from './api'
+import type { Point } from './viewport'
+
+export interface CommentThread {
+    root: DiagramComment
+    replies: DiagramComment[]
+}
+
+export type CommentAnchor = { nodeId: string } | { position: Point }
+
+const COMMENT_SELECT = '*, author:profiles(github_username, avatar_url)'
+
+/**
+ * List every comment on one diagram type in one scope (null for the whole repository), oldest first
+ */
+async function list(
+    repoId: string,
+    diagramType: RepositoryDiagram['diagram_type'],
+    scopeId: string | null = null
+): Promise<DiagramComment[]> {
+    const data = await runQuery<DiagramComment[]>(() => {
+        const query = supabase
+            .from('diagram_comments')
+            .select(COMMENT_SELECT)
+            .eq('repository_id', repoId)
+            .eq('diagram_type', diagramType)
+        return (scopeId ? query.eq('scope_id', scopeId) : query.is('scope_id', null))
+            .order('created_at', { ascending: true })
+    })
+    return data ?? []
+}
+
+/**
+ * Start a new thread pinned to a node or canvas point
+ */
+async function create(
+    repoId: string,
+    diagramType: RepositoryDiagram['diagram_type'],
+    scopeId: string | null,
+    anchor: CommentAnchor,
+    body: string,
+    mentions: string[],
+    authorId: string
+): Promise<DiagramComment> {
+    return runQuery<DiagramComment>(() =>
+        supabase
+            .from('diagram_comments')
+            .insert({
+                repository_id: repoId,
+                diagram_type: diagramType,
+                scope_id: scopeId,
+                parent_id: null,
+                node_id: 'nodeId' in anchor ? anchor.nodeId : null,
+                position_x: 'position' in anchor ? anchor.position.x : null,
+                position_y: 'position' in anchor ? anchor.position.y : null,
+                body,
+                mentions,
+                author_id: authorId,
+            })
+            .select(COMMENT_SELECT)
+            .single()
+    )
+}
+
+/**
+ * Reply to a thread
+ */
+async function reply(root: DiagramComment, body: string, mentions: string[], authorId: string): Promise<DiagramComment> {
+    return runQuery<DiagramComment>(() =>
+        supabase
+            .from('diagram_comments')
+            .insert({
+                repository_id: root.repository_id,
+                diagram_type: root.diagram_type,
+                scope_id: root.scope_id ?? null,
+                parent_id: root.id,
+                node_id: root.node_id,
+                position_x: root.position_x,
+                position_y: root.position_y,
+                body,
+                mentions,
+                author_id: authorId,
+            })
+            .select(COMMENT_SELECT)
+            .single()
+    )
+}
+
+/**
+ * Resolve or reopen a thread
+ */
+async function setResolved(root: DiagramComment, resolved: boolean, userId: string): Promise<DiagramComment> {
+    return runQuery<DiagramComment>(() =>
+        supabase
+            .from('diagram_comments')
+            .update({
+                resolved_at: resolved ? new Date().toISOString() : null,
+                resolved_by: resolved ? userId : null,
+                updated_at: new Date().toISOString(),
+            })
+            .eq('id', root.id)
+            .select(COMMENT_SELECT)
+            .single()
+    )
+}
+
+/**
+ * Delete a comment (deleting a thread's first comment removes its replies too)
+ */
+async function remove(comment: DiagramComment): Promise<void> {
+    await runQuery(() =>
+        supabase
+            .from('diagram_comments')
+            .delete()
+            .or(`id.eq.${comment.id},parent_id.eq.${comment.id}`)
+    )
+}
+
+/**
+ * Group a flat, time-ordered list into threads
+ */
+export function groupThreads(comments: DiagramComment[]): CommentThread[] {
+    const threads = new Map<string, CommentThread>()
+    comments.forEach(comment => {
+        if (!comment.parent_id) threads.set(comment.id, { root: comment, replies: [] })
+    })
+    comments.forEach(comment => {
+        if (comment.parent_id) threads.get(comment.parent_id)?.replies.push(comment)
+    })
+    return [...threads.values()]
+}
+
+/**
+ * User IDs of the members @mentioned in a comment body
+ */
+export function extractMentions(body: string, members: OrgMember[]): string[] {
+    const names = new Set([...body.matchAll(/@([\w-]+)/g)].map(match => match[1].toLowerCase()))
+    return members
+        .filter(member => member.profile && names.has(member.profile.github_username.toLowerCase()))
+        .map(member => member.user_id)
+}
+
+export const CommentService = {
+    list,
+    create,
+    reply,
+    setResolved,
+    remove,
+}
@@ -0,0 +1,57 @@
+/**
+ * Structural diff between two Mermaid diagram sources
+ * Compares nodes (by ID) and edges (by endpoints) so a compare view can
+ * highlight what was added, removed or relabelled between versions
+ */
+
+import { parseDiagram, type DiagramGraph } from './diagramGraph'
+
+export interface DiffSet {
+    added: string[]
+    removed: string[]
+    changed: string[]
+}
+
+export interface DiagramDiff {
+    nodes: DiffSet
+    edges: DiffSet
+}
+
+function nodeLabels(graph: DiagramGraph): Map<string, string> {
+    return new Map([...graph.nodes.values()].map(node => [node.id, node.label]))
+}
+
+function edgeLabels(graph: DiagramGraph): Map<string, string> {
+    return new Map(graph.edges.map(edge => [edge.id, `${edge.arrow} ${edge.label}`]))
+}
+
+function diffMaps(before: Map<string, string>, after: Map<string, string>): DiffSet {
+    const diff: DiffSet = { added: [], removed: [], changed: [] }
+    for (const [key, value] of after) {
+        const previous = before.get(key)
+        if (previous === undefined) diff.added.push(key)
+        else if (previous !== value) diff.changed.push(key)
+    }
+    for (const key of before.keys()) {
+        if (!after.has(key)) diff.removed.push(key)
+    }
+    return diff
+}
+
+/**
+ * Compare two diagram sources
+ */
+export function diffDiagrams(beforeCode: string, afterCode: string): DiagramDiff {
+    const before = parseDiagram(beforeCode)
+    const after = parseDiagram(afterCode)
+    return {
+        nodes: diffMaps(nodeLabels(before), nodeLabels(after)),
+        edges: diffMaps(edgeLabels(before), edgeLabels(after)),
+    }
+}
+
+export function isEmptyDiff(diff: DiagramDiff): boolean {
+    return [diff.nodes, diff.edges].every(set =>
+        set.added.length === 0 && set.removed.length === 0 && set.changed.length === 0
+    )
+}
@@ -0,0 +1,155 @@
+/**
+ * Helpers for locating diagram nodes and edges inside Mermaid's rendered SVG
+ *
+ * Mermaid IDs look like `flowchart-<id>-<n>` (flowchart), `entity-<id>-<n>` (ERD)
+ * and `L_<from>_<to>_<n>` (edges); sequence actors carry a `name` attribute.
+ */
+
+import type { DiagramGraph } from './diagramGraph'
+import type { Point, Rect } from './viewport'
+
+const NODE_DOM_ID = /(?:^|-)(?:flowchart|entity|classId|state)-(.+)-\d+$/
+
+function escapeRegExp(value: string): string {
+    return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+}
+
+/**
+ * Find the SVG groups rendered for a node ID
+ */
+export function findNodeElements(root: Element, nodeId: string): Element[] {
+    const pattern = new RegExp(`(^|-)(flowchart|entity|classId|state)-${escapeRegExp(nodeId)}-\\d+$`)
+    const byId = Array.from(root.querySelectorAll('g[id]')).filter(el =>
+        pattern.test(el.id) || (el.classList.contains('cluster') && (el.getAttribute('data-id') || el.id) === nodeId)
+    )
+    if (byId.length > 0) return byId
+    // Sequence diagram actors (top and bottom boxes)
+    return Array.from(root.querySelectorAll(`rect[name="${CSS.escape(nodeId)}"]`))
+        .map(rect => rect.parentElement)
+        .filter((el): el is HTMLElement => !!el)
+}
+
+/**
+ * Every element that represents a node, entity, participant or subgraph
+ */
+export function selectableElements(root: Element): Element[] {
+    const groups = new Set<Element>(root.querySelectorAll('g.node, g.cluster, g[id*="entity-"]'))
+    root.querySelectorAll('rect.actor[name]').forEach(rect => {
+        if (rect.parentElement) groups.add(rect.parentElement)
+    })
+    return Array.from(groups)
+}
+
+/**
+ * Resolve a rendered element back to the node or subgraph ID in the graph model
+ */
+export function nodeIdFromElement(el: Element, graph: DiagramGraph): string | null {
+    const domId = el.getAttribute('data-id') || el.id
+    if (graph.subgraphs.has(domId) || graph.nodes.has(domId)) return domId
+
+    const match = NODE_DOM_ID.exec(el.id)
+    if (match && graph.nodes.has(match[1])) return match[1]
+
+    const actor = el.querySelector('rect[name]')?.getAttribute('name')
+    if (actor && graph.nodes.has(actor)) return actor
+    return null
+}
+
+/**
+ * Find the SVG paths (and their labels) rendered for an edge
+ */
+export function findEdgeElements(root: Element, from: string, to: string, index = 0): Element[] {
+    const pattern = new RegExp(`^L[_-]${escapeRegExp(from)}[_-]${escapeRegExp(to)}[_-]${index}$`)
+    return Array.from(root.querySelectorAll('[data-id], path[id]')).filter(el =>
+        pattern.test(el.getAttribute('data-id') || el.id)
+    )
+}
+
+/**
+ * Toggle a CSS class on every element of a node
+ */
+export function markNode(root: Element, nodeId: string, className: string) {
+    findNodeElements(root, nodeId).forEach(el => el.classList.add(className))
+}
+
+/**
+ * Toggle a CSS class on every element of an edge, given its `from->to#n` key
+ */
+export function markEdge(root: Element, edgeKey: string, className: string) {
+    const match = /^(.+)->(.+)#(\d+)$/.exec(edgeKey)
+    if (!match) return
+    findEdgeElements(root, match[1], match[2], Number(match[3])).forEach(el => el.classList.add(className))
+}
+
+/**
+ * Remove overlay classes from everything under the root
+ */
+export function clearMarks(root: Element, classNames: string[]) {
+    root.querySelectorAll(classNames.map(c => `.${c}`).join(', ')).forEach(el => {
+        el.classList.remove(...classNames)
+    })
+}
+
+/**
+ * Where an element sits on the canvas, in unscaled canvas pixels
+ * (works mid-transition because the scale is measured, not assumed)
+ */
+export function localRect(canvas: HTMLElement, element: Element): Rect {
+    const canvasRect = canvas.getBoundingClientRect()
+    const rect = element.getBoundingClientRect()
+    const scale = canvasRect.width / (canvas.offsetWidth || 1)
+    return {
+        x: (rect.left - canvasRect.left) / scale,
+        y: (rect.top - canvasRect.top) / scale,
+        width: rect.width / scale,
+        height: rect.height / scale,
+    }
+}
+
+/**
+ * Canvas position under a point on screen (e.g. a click), in unscaled canvas pixels
+ */
+export function localPoint(canvas: HTMLElement, clientX: number, clientY: number): Point {
+    const canvasRect = canvas.getBoundingClientRect()
+    const scale = canvasRect.width / (canvas.offsetWidth || 1)
+    return {
+        x: (clientX - canvasRect.left) / scale,
+        y: (clientY - canvasRect.top) / scale,
+    }
+}
+
+/**
+ * Bounding box of the drawn content (not the whole SVG viewport), in unscaled canvas pixels
+ */
+export function contentBounds(canvas: HTMLElement): Rect | null {
+    const svg = canvas.querySelector('svg')
+    if (!svg) return null
+
+    const box = localRect(canvas, svg)
+    const viewBox = svg.viewBox.baseVal
+    if (!viewBox || viewBox.width === 0 || viewBox.height === 0) return box
+
+    const content = svg.getBBox()
+    const unitX = box.width / viewBox.width
+    const unitY = box.height / viewBox.height
+    return {
+        x: box.x + (content.x - viewBox.x) * unitX,
+        y: box.y + (content.y - viewBox.y) * unitY,
+        width: content.width * unitX,
+        height: content.height * unitY,
+    }
+}
+
+/**
+ * Where every node and subgraph of the graph was drawn, in unscaled canvas pixels
+ * Anything Mermaid didn't render (or we can't locate) is left out.
+ */
+export function measureLayout(canvas: HTMLElement, graph: DiagramGraph): Map<string, Rect> {
+    const layout = new Map<string, Rect>()
+    const ids = [...graph.subgraphs.keys(), ...graph.nodes.keys()]
+    ids.forEach(id => {
+        const element = findNodeElements(canvas, id)[0]
+        if (element) layout.set(id, localRect(canvas, element))
+    })
+    return layout
+}
@@ -0,0 +1,715 @@
+/**
+ * Typed graph model for Mermaid diagram sources
+ * Parses flowchart (component diagrams use the same syntax), ERD and sequence
+ * diagrams into nodes, edges and subgraphs with source spans, and serializes
+ * the model back to Mermaid. Anything the model doesn't understand (styles,
+ * notes, loops, comments) is kept verbatim as a statement.
+ */
+
+export type GraphKind = 'flowchart' | 'erd' | 'sequence' | 'unknown'
+
+export interface SourceSpan {
+    // Character offsets into the source, end exclusive
+    start: number
+    end: number
+    // 1-based line of `start`
+    line: number
+}
+
+export interface NodeShape {
+    open: string
+    close: string
+}
+
+export interface GraphNode {
+    id: string
+    label: string
+    // Flowchart shape brackets, null for bare references
+    shape: NodeShape | null
+    // Whether the label was written in double quotes
+    quoted: boolean
+    // `:::className` shorthand
+    className: string | null
+    // Innermost subgraph the node belongs to
+    subgraph: string | null
+    // ERD entity attribute lines, verbatim
+    attributes: string[]
+    // Sequence diagrams: how the participant was declared, null if implicit
+    declaration: 'participant' | 'actor' | null
+    span: SourceSpan | null
+    order: number
+}
+
+export interface GraphEdge {
+    // `from->to#n`, where n counts parallel edges between the same pair
+    // (matches Mermaid's `L_from_to_n` edge IDs in the rendered SVG)
+    id: string
+    from: string
+    to: string
+    label: string
+    // Arrow token, e.g. `-->`, `-.->`, `||--o{` or `->>+`
+    arrow: string
+    span: SourceSpan | null
+    order: number
+}
+
+export interface GraphSubgraph {
+    id: string
+    label: string
+    parent: string | null
+    span: SourceSpan | null
+    order: number
+}
+
+// A source line kept verbatim (styles, notes, loops, comments...)
+export interface GraphStatement {
+    text: string
+    subgraph: string | null
+    span: SourceSpan | null
+    order: number
+}
+
+export interface DiagramGraph {
+    kind: GraphKind
+    // Diagram declaration line, e.g. `flowchart TD`
+    header: string
+    // Front matter and init directives before the header, verbatim
+    preamble: string[]
+    nodes: Map<string, GraphNode>
+    edges: GraphEdge[]
+    subgraphs: Map<string, GraphSubgraph>
+    statements: GraphStatement[]
+}
+
+interface SourceLine {
+    text: string
+    offset: number
+    line: number
+}
+
+interface ParseState {
+    graph: DiagramGraph
+    order: number
+}
+
+// Longest openers first so `((` wins over `(`
+const FLOW_SHAPES: { open: string; close: string[] }[] = [
+    { open: '(((', close: [')))'] },
+    { open: '[[', close: [']]'] },
+    { open: '[(', close: [')]'] },
+    { open: '((', close: ['))'] },
+    { open: '([', close: ['])'] },
+    { open: '[/', close: ['/]', '\\]'] },
+    { open: '[\\', close: ['\\]', '/]'] },
+    { open: '{{', close: ['}}'] },
+    { open: '[', close: [']'] },
+    { open: '(', close: [')'] },
+    { open: '{', close: ['}'] },
+    { open: '>', close: [']'] },
+]
+
+const FLOW_DIRECTIVE = /^(classDef|class|style|linkStyle|click|direction)\b/
+const FLOW_SUBGRAPH = /^subgraph\s+(.+)$/
+// A hyphen only continues an ID when it isn't the start of an arrow
+const FLOW_ID = /[A-Za-z0-9_]+(?:-(?![-.>ox=])[A-Za-z0-9_]+)*/y
+const FLOW_CLASS = /:::([\w-]+)/y
+const FLOW_ARROW = /(<?)(-{2,}|={2,}|-\.+-|~{3,})([>ox]?)/y
+const FLOW_INLINE_ARROW = /(<?)(--|==|-\.)\s+(.+?)\s+(-{2,}[>ox]?|={2,}[>ox]?|\.+-+[>ox]?)(?=\s|[\w"])/y
+const FLOW_PIPE_LABEL = /\s*\|([^|]*)\|/y
+
+const ER_RELATION = /^([\w-]+)\s+([|}o][|o]?(?:--|\.\.)[|o]?[|{o])\s+([\w-]+)\s*:\s*(?:"([^"]*)"|(.*))$/
+const ER_ENTITY_BLOCK = /^([\w-]+)\s*\{\s*(\})?$/
+const ER_ENTITY = /^([\w-]+)$/
+
+const SEQ_PARTICIPANT = /^(participant|actor)\s+(\S+?)(?:\s+as\s+(.+))?$/
+const SEQ_MESSAGE = /^([^\s:+<>]+?)\s*(<<-{1,2}>>|-{1,2}>>|-{1,2}>|-{1,2}x|-{1,2}\))\s*([+-]?)\s*([^\s:]+)\s*(?::\s*(.*))?$/
+
+const INDENT = '    '
+
+function splitLines(code: string): SourceLine[] {
+    const lines: SourceLine[] = []
+    let offset = 0
+    code.split('\n').forEach((text, index) => {
+        lines.push({ text: text.replace(/\r$/, ''), offset, line: index + 1 })
+        offset += text.length + 1
+    })
+    return lines
+}
+
+// Span of a trimmed piece of a line
+function spanOf(line: SourceLine, start: number, end: number): SourceSpan {
+    return { start: line.offset + start, end: line.offset + end, line: line.line }
+}
+
+// Span of an ID referenced inside a statement
+function refSpan(line: SourceLine, base: number, text: string, id: string, searchFrom: number): SourceSpan {
+    const index = text.indexOf(id, searchFrom)
+    return spanOf(line, base + index, base + index + id.length)
+}
+
+function trimmedRange(text: string): [number, number] {
+    const start = text.length - text.trimStart().length
+    return [start, text.trimEnd().length]
+}
+
+function emptyGraph(): DiagramGraph {
+    return {
+        kind: 'unknown',
+        header: '',
+        preamble: [],
+        nodes: new Map(),
+        edges: [],
+        subgraphs: new Map(),
+        statements: [],
+    }
+}
+
+function detectKind(header: string): GraphKind {
+    if (/^(flowchart|graph)\b/.test(header)) return 'flowchart'
+    if (/^erDiagram\b/.test(header)) return 'erd'
+    if (/^sequenceDiagram\b/.test(header)) return 'sequence'
+    return 'unknown'
+}
+
+function touchNode(
+    state: ParseState,
+    id: string,
+    details: Partial<Omit<GraphNode, 'id' | 'order'>> = {}
+): GraphNode {
+    const existing = state.graph.nodes.get(id)
+    if (!existing) {
+        const node: GraphNode = {
+            id,
+            label: details.label ?? id,
+            shape: details.shape ?? null,
+            quoted: details.quoted ?? false,
+            className: details.className ?? null,
+            subgraph: details.subgraph ?? null,
+            attributes: details.attributes ?? [],
+            declaration: details.declaration ?? null,
+            span: details.span ?? null,
+            order: state.order++,
+        }
+        state.graph.nodes.set(id, node)
+        return node
+    }
+
+    // A later explicit declaration beats an earlier bare reference
+    const declares = details.shape || details.declaration || (details.attributes && details.attributes.length > 0)
+    const wasBare = !existing.shape && !existing.declaration && existing.attributes.length === 0
+    if (declares && wasBare) {
+        Object.assign(existing, {
+            label: details.label ?? existing.label,
+            shape: details.shape ?? existing.shape,
+            quoted: details.quoted ?? existing.quoted,
+            attributes: details.attributes ?? existing.attributes,
+            declaration: details.declaration ?? existing.declaration,
+            span: details.span ?? existing.span,
+        })
+    }
+    if (details.className) existing.className = details.className
+    if (details.subgraph && !existing.subgraph) existing.subgraph = details.subgraph
+    return existing
+}
+
+function addEdge(
+    state: ParseState,
+    edge: Omit<GraphEdge, 'id' | 'order'>
+): GraphEdge {
+    const parallel = state.graph.edges.filter(e => e.from === edge.from && e.to === edge.to).length
+    const created = { ...edge, id: `${edge.from}->${edge.to}#${parallel}`, order: state.order++ }
+    state.graph.edges.push(created)
+    return created
+}
+
+function addStatement(state: ParseState, text: string, span: SourceSpan | null, subgraph: string | null = null) {
+    state.graph.statements.push({ text, subgraph, span, order: state.order++ })
+}
+
+/* ---------- Flowchart ---------- */
+
+interface FlowNodeRef {
+    id: string
+    label?: string
+    shape?: NodeShape
+    quoted: boolean
+    className?: string
+    start: number
+    end: number
+}
+
+function matchAt(regex: RegExp, text: string, pos: number): RegExpExecArray | null {
+    regex.lastIndex = pos
+    return regex.exec(text)
+}
+
+function skipSpaces(text: string, pos: number): number {
+    while (pos < text.length && /\s/.test(text[pos])) pos++
+    return pos
+}
+
+function parseFlowNode(text: string, pos: number): FlowNodeRef | null {
+    const idMatch = matchAt(FLOW_ID, text, pos)
+    if (!idMatch) return null
+    const ref: FlowNodeRef = { id: idMatch[0], quoted: false, start: pos, end: pos + idMatch[0].length }
+
+    const shape = FLOW_SHAPES.find(s => text.startsWith(s.open, ref.end))
+    if (shape) {
+        const contentStart = ref.end + shape.open.length
+        let contentEnd = -1
+        let close = ''
+        if (text[contentStart] === '"') {
+            const quoteEnd = text.indexOf('"', contentStart + 1)
+            close = shape.close.find(c => quoteEnd >= 0 && text.startsWith(c, skipSpaces(text, quoteEnd + 1))) ?? ''
+            if (close) {
+                ref.quoted = true
+                ref.label = text.slice(contentStart + 1, quoteEnd)
+                contentEnd = skipSpaces(text, quoteEnd + 1)
+            }
+        } else {
+            for (const candidate of shape.close) {
+                const index = text.indexOf(candidate, contentStart)
+                if (index >= 0 && (contentEnd < 0 || index < contentEnd)) {
+                    contentEnd = index
+                    close = candidate
+                }
+            }
+            if (contentEnd >= 0) ref.label = text.slice(contentStart, contentEnd).trim()
+        }
+        if (contentEnd >= 0) {
+            ref.shape = { open: shape.open, close }
+            ref.end = contentEnd + close.length
+        }
+    }
+
+    const classMatch = matchAt(FLOW_CLASS, text, ref.end)
+    if (classMatch) {
+        ref.className = classMatch[1]
+        ref.end += classMatch[0].length
+    }
+    return ref
+}
+
+// `A & B` style node groups
+function parseFlowGroup(text: string, pos: number): { refs: FlowNodeRef[]; end: number } | null {
+    const refs: FlowNodeRef[] = []
+    let cursor = pos
+    for (;;) {
+        const ref = parseFlowNode(text, cursor)
+        if (!ref) return refs.length > 0 ? { refs, end: cursor } : null
+        refs.push(ref)
+        cursor = ref.end
+        const next = skipSpaces(text, cursor)
+        if (text[next] !== '&') return { refs, end: cursor }
+        cursor = skipSpaces(text, next + 1)
+    }
+}
+
+function parseFlowArrow(text: string, pos: number): { arrow: string; label: string; end: number } | null {
+    const inline = matchAt(FLOW_INLINE_ARROW, text, pos)
+    if (inline) {
+        const [, head, start, label, close] = inline
+        return {
+            arrow: head + (start === '-.' ? `-${close}` : close),
+            label: label.trim(),
+            end: pos + inline[0].length,
+        }
+    }
+
+    const arrow = matchAt(FLOW_ARROW, text, pos)
+    if (!arrow) return null
+    let end = pos + arrow[0].length
+    let label = ''
+    const pipe = matchAt(FLOW_PIPE_LABEL, text, end)
+    if (pipe) {
+        label = pipe[1].trim().replace(/^"(.*)"$/, '$1')
+        end += pipe[0].length
+    }
+    return { arrow: arrow[0], label, end }
+}
+
+// Returns false when the statement isn't a node/edge chain
+function parseFlowStatement(state: ParseState, line: SourceLine, text: string, base: number, subgraph: string | null): boolean {
+    let group = parseFlowGroup(text, 0)
+    if (!group) return false
+
+    const declare = (refs: FlowNodeRef[]) => refs.forEach(ref => touchNode(state, ref.id, {
+        label: ref.label,
+        shape: ref.shape,
+        quoted: ref.quoted,
+        className: ref.className,
+        subgraph: subgraph ?? undefined,
+        span: spanOf(line, base + ref.start, base + ref.end),
+    }))
+    declare(group.refs)
+
+    let cursor = group.end
+    for (;;) {
+        const arrow = parseFlowArrow(text, skipSpaces(text, cursor))
+        if (!arrow) break
+        const next = parseFlowGroup(text, skipSpaces(text, arrow.end))
+        if (!next) break
+        declare(next.refs)
+        for (const from of group.refs) {
+            for (const to of next.refs) {
+                addEdge(state, {
+                    from: from.id,
+                    to: to.id,
+                    label: arrow.label,
+                    arrow: arrow.arrow,
+                    span: spanOf(line, base + from.start, base + to.end),
+                })
+            }
+        }
+        group = next
+        cursor = next.end
+    }
+    return true
+}
+
+function parseSubgraphTitle(title: string, index: number): { id: string; label: string } {
+    const bracketed = /^([\w-]+)\s*\[\s*"?(.*?)"?\s*\]$/.exec(title)
+    if (bracketed) return { id: bracketed[1], label: bracketed[2] }
+    const quoted = /^"(.*)"$/.exec(title)
+    if (quoted) return { id: `subGraph${index}`, label: quoted[1] }
+    return { id: title, label: title }
+}
+
+// Split a line on `;` outside of quotes and brackets
+function splitStatements(text: string): { text: string; offset: number }[] {
+    const parts: { text: string; offset: number }[] = []
+    let depth = 0
+    let inQuotes = false
+    let start = 0
+    for (let i = 0; i < text.length; i++) {
+        const ch = text[i]
+        if (ch === '"') inQuotes = !inQuotes
+        else if (!inQuotes && '[({'.includes(ch)) depth++
+        else if (!inQuotes && '])}'.includes(ch)) depth = Math.max(0, depth - 1)
+        else if (ch === ';' && !inQuotes && depth === 0) {
+            parts.push({ text: text.slice(start, i), offset: start })
+            start = i + 1
+        }
+    }
+    parts.push({ text: text.slice(start), offset: start })
+    return parts
+}
+
+function parseFlowchart(state: ParseState, lines: SourceLine[]) {
+    const stack: GraphSubgraph[] = []
+
+    for (const line of lines) {
+        for (const part of splitStatements(line.text)) {
+            const [from, to] = trimmedRange(part.text)
+            const text = part.text.slice(from, to)
+            if (!text) continue
+            const base = part.offset + from
+            const span = spanOf(line, base, part.offset + to)
+            const current = stack[stack.length - 1]?.id ?? null
+
+            const subgraph = FLOW_SUBGRAPH.exec(text)
+            if (subgraph) {
+                const { id, label } = parseSubgraphTitle(subgraph[1].trim(), state.graph.subgraphs.size)
+                const created: GraphSubgraph = { id, label, parent: current, span, order: state.order++ }
+                state.graph.subgraphs.set(id, created)
+                stack.push(created)
+                continue
+            }
+            if (/^end\b/.test(text) && stack.length > 0) {
+                const closed = stack.pop()!
+                if (closed.span) closed.span = { ...closed.span, end: span.end }
+                continue
+            }
+            if (text.startsWith('%%') || FLOW_DIRECTIVE.test(text) || !parseFlowStatement(state, line, text, base, current)) {
+                addStatement(state, text, span, current)
+            }
+        }
+    }
+}
+
+/* ---------- ERD ---------- */
+
+function parseErd(state: ParseState, lines: SourceLine[]) {
+    let entity: GraphNode | null = null
+
+    for (const line of lines) {
+        const [from, to] = trimmedRange(line.text)
+        const text = line.text.slice(from, to)
+        if (!text) continue
+        const span = spanOf(line, from, to)
+
+        if (entity) {
+            if (text === '}') {
+                if (entity.span) entity.span = { ...entity.span, end: span.end }
+                entity = null
+            } else {
+                entity.attributes.push(text)
+            }
+            continue
+        }
+
+        const relation = ER_RELATION.exec(text)
+        if (relation) {
+            touchNode(state, relation[1], { span: refSpan(line, from, text, relation[1], 0) })
+            touchNode(state, relation[3], { span: refSpan(line, from, text, relation[3], relation[1].length + relation[2].length) })
+            addEdge(state, {
+                from: relation[1],
+                to: relation[3],
+                label: (relation[4] ?? relation[5] ?? '').trim(),
+                arrow: relation[2],
+                span,
+            })
+            continue
+        }
+
+        const block = ER_ENTITY_BLOCK.exec(text)
+        if (block) {
+            const node = touchNode(state, block[1])
+            node.span = span
+            if (!block[2]) entity = node
+            continue
+        }
+
+        const bare = ER_ENTITY.exec(text)
+        if (bare && !/^direction$/.test(bare[1])) {
+            touchNode(state, bare[1], { span })
+            continue
+        }
+        addStatement(state, text, span)
+    }
+}
+
+/* ---------- Sequence ---------- */
+
+function parseSequence(state: ParseState, lines: SourceLine[]) {
+    for (const line of lines) {
+        const [from, to] = trimmedRange(line.text)
+        const text = line.text.slice(from, to)
+        if (!text) continue
+        const span = spanOf(line, from, to)
+
+        const participant = SEQ_PARTICIPANT.exec(text)
+        if (participant) {
+            touchNode(state, participant[2], {
+                label: participant[3]?.trim(),
+                declaration: participant[1] as 'participant' | 'actor',
+                span,
+            })
+            continue
+        }
+
+        const message = SEQ_MESSAGE.exec(text)
+        if (message) {
+            touchNode(state, message[1], { span: refSpan(line, from, text, message[1], 0) })
+            touchNode(state, message[4], { span: refSpan(line, from, text, message[4], message[1].length + message[2].length) })
+            addEdge(state, {
+                from: message[1],
+                to: message[4],
+                label: (message[5] ?? '').trim(),
+                arrow: message[2] + message[3],
+                span,
+            })
+            continue
+        }
+        addStatement(state, text, span)
+    }
+}
+
+/**
+ * Parse Mermaid source into a graph model
+ */
+export function parseDiagram(code: string): DiagramGraph {
+    const state: ParseState = { graph: emptyGraph(), order: 0 }
+    const lines = splitLines(code)
+
+    // Front matter (`---` ... `---`), init directives and comments before the header
+    let index = 0
+    let inFrontMatter = false
+    for (; index < lines.length; index++) {
+        const text = lines[index].text.trim()
+        if (text === '---') inFrontMatter = !inFrontMatter
+        else if (!inFrontMatter && text && !text.startsWith('%%')) break
+        if (text) state.graph.preamble.push(lines[index].text)
+    }
+    if (index >= lines.length) return state.graph
+
+    // Some headers carry a statement on the same line (`graph TD; A-->B`)
+    const headerLine = lines[index]
+    const [headerText, ...rest] = headerLine.text.trim().split(';')
+    state.graph.header = headerText.trim()
+    state.graph.kind = detectKind(state.graph.header)
+
+    const body = lines.slice(index + 1)
+    if (rest.length > 0) {
+        const restText = rest.join(';')
+        const offset = headerLine.text.length - restText.length
+        body.unshift({ text: ' '.repeat(offset) + restText, offset: headerLine.offset, line: headerLine.line })
+    }
+
+    if (state.graph.kind === 'flowchart') parseFlowchart(state, body)
+    else if (state.graph.kind === 'erd') parseErd(state, body)
+    else if (state.graph.kind === 'sequence') parseSequence(state, body)
+    else {
+        body.forEach(line => {
+            const [from, to] = trimmedRange(line.text)
+            if (to > from) addStatement(state, line.text.slice(from, to), spanOf(line, from, to))
+        })
+    }
+    return state.graph
+}
+
+/* ---------- Serialization ---------- */
+
+function formatFlowLabel(label: string, quoted: boolean): string {
+    if (quoted || /[^\w\s.,:'!?/-]/.test(label)) return `"${label.replace(/"/g, '#quot;')}"`
+    return label
+}
+
+function formatFlowNode(node: GraphNode): string {
+    const shape = node.shape ?? (node.label !== node.id ? { open: '[', close: ']' } : null)
+    const body = shape ? `${shape.open}${formatFlowLabel(node.label, node.quoted)}${shape.close}` : ''
+    return `${node.id}${body}${node.className ? `:::${node.className}` : ''}`
+}
+
+function formatFlowEdge(edge: GraphEdge): string {
+    const label = edge.label ? `|${edge.label.includes('|') ? `"${edge.label}"` : edge.label}|` : ''
+    return `${edge.from} ${edge.arrow}${label} ${edge.to}`
+}
+
+function serializeFlowchart(graph: DiagramGraph): string[] {
+    const lines: string[] = []
+    const used = new Set(graph.edges.flatMap(e => [e.from, e.to]))
+    // Nodes need their own line if they carry a shape or live in a subgraph
+    const needsDeclaration = (node: GraphNode) =>
+        !!node.shape || !!node.className || node.label !== node.id || !!node.subgraph || !used.has(node.id)
+
+    const emitScope = (subgraph: string | null, depth: number) => {
+        const pad = INDENT.repeat(depth)
+        for (const statement of graph.statements) {
+            if (statement.subgraph === subgraph && /^direction\b/.test(statement.text)) lines.push(pad + statement.text)
+        }
+        for (const node of graph.nodes.values()) {
+            if (node.subgraph === subgraph && needsDeclaration(node)) lines.push(pad + formatFlowNode(node))
+        }
+        for (const child of graph.subgraphs.values()) {
+            if (child.parent !== subgraph) continue
+            const title = child.label && child.label !== child.id ? `${child.id}["${child.label}"]` : child.id
+            lines.push(`${pad}subgraph ${title}`)
+            emitScope(child.id, depth + 1)
+            lines.push(`${pad}end`)
+        }
+    }
+
+    emitScope(null, 1)
+    graph.edges.forEach(edge => lines.push(INDENT + formatFlowEdge(edge)))
+    graph.statements
+        .filter(s => !/^direction\b/.test(s.text))
+        .forEach(s => lines.push(INDENT + s.text))
+    return lines
+}
+
+// ERD and sequence statements are order-sensitive, so emit everything by source order
+function serializeOrdered(graph: DiagramGraph): string[] {
+    const items: { order: number; lines: string[] }[] = []
+    let depth = 1
+
+    for (const node of graph.nodes.values()) {
+        const connected = graph.edges.some(e => e.from === node.id || e.to === node.id)
+        if (graph.kind === 'erd' && node.attributes.length > 0) {
+            items.push({ order: node.order, lines: [`${node.id} {`, ...node.attributes.map(a => INDENT + a), '}'] })
+        } else if (graph.kind === 'erd' && !connected) {
+            items.push({ order: node.order, lines: [node.id] })
+        } else if (graph.kind === 'sequence' && (node.declaration || node.label !== node.id)) {
+            const alias = node.label !== node.id ? ` as ${node.label}` : ''
+            items.push({ order: node.order, lines: [`${node.declaration ?? 'participant'} ${node.id}${alias}`] })
+        }
+    }
+    for (const edge of graph.edges) {
+        const text = graph.kind === 'erd'
+            ? `${edge.from} ${edge.arrow} ${edge.to} : "${edge.label}"`
+            : `${edge.from}${edge.arrow}${edge.to}: ${edge.label}`
+        items.push({ order: edge.order, lines: [text] })
+    }
+    for (const statement of graph.statements) {
+        items.push({ order: statement.order, lines: [statement.text] })
+    }
+
+    items.sort((a, b) => a.order - b.order)
+
+    // Re-indent sequence blocks (loop/alt/opt/... end)
+    const lines: string[] = []
+    for (const item of items) {
+        const first = item.lines[0]
+        const isSequence = graph.kind === 'sequence'
+        if (isSequence && /^(end|else|and|option)\b/.test(first)) depth = Math.max(1, depth - 1)
+        lines.push(...item.lines.map(l => INDENT.repeat(depth) + l))
+        if (isSequence && /^(loop|alt|opt|par|critical|break|rect|box|else|and|option)\b/.test(first)) depth++
+    }
+    return lines
+}
+
+/**
+ * Serialize a graph model back to Mermaid source
+ */
+export function serializeDiagram(graph: DiagramGraph): string {
+    let body: string[]
+    if (graph.kind === 'flowchart') body = serializeFlowchart(graph)
+    else if (graph.kind === 'erd' || graph.kind === 'sequence') body = serializeOrdered(graph)
+    else body = graph.statements.map(s => INDENT + s.text)
+
+    return [...graph.preamble, graph.header, ...body].join('\n') + '\n'
+}
+
+/**
+ * Look up the node or subgraph label for an ID
+ */
+export function labelFor(graph: DiagramGraph, id: string): string {
+    return graph.nodes.get(id)?.label ?? graph.subgraphs.get(id)?.label ?? id
+}
+
+export interface Neighbourhood {
+    // The focused node, or every node inside a focused subgraph
+    focused: Set<string>
+    upstream: Set<string>
+    downstream: Set<string>
+    // Every edge on a path between the focused node and a neighbour
+    edges: Set<string>
+}
+
+/**
+ * Nodes reachable within `depth` hops upstream (incoming edges) and downstream (outgoing edges)
+ * A subgraph ID focuses on every node inside it
+ */
+export function neighbourhood(graph: DiagramGraph, id: string, depth: number): Neighbourhood {
+    const seeds = new Set<string>(graph.nodes.has(id) ? [id] : [])
+    if (graph.subgraphs.has(id)) {
+        const inside = (subgraph: string | null): boolean =>
+            subgraph === id || (!!subgraph && inside(graph.subgraphs.get(subgraph)?.parent ?? null))
+        graph.nodes.forEach(node => {
+            if (inside(node.subgraph)) seeds.add(node.id)
+        })
+    }
+
+    const result: Neighbourhood = { focused: seeds, upstream: new Set(), downstream: new Set(), edges: new Set() }
+    const walk = (direction: 'upstream' | 'downstream') => {
+        let frontier = [...seeds]
+        const seen = new Set(seeds)
+        for (let hop = 0; hop < depth && frontier.length > 0; hop++) {
+            const next: string[] = []
+            for (const edge of graph.edges) {
+                const [near, far] = direction === 'downstream' ? [edge.from, edge.to] : [edge.to, edge.from]
+                if (!frontier.includes(near)) continue
+                result.edges.add(edge.id)
+                if (!seen.has(far)) {
+                    seen.add(far)
+                    result[direction].add(far)
+                    next.push(far)
+                }
+            }
+            frontier = next
+        }
+    }
+    walk('upstream')
+    walk('downstream')
+    return result
+}
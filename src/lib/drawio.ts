@@ -0,0 +1,268 @@
+/**
+ * draw.io / diagrams.net export
+ * Turns the diagram graph model into an mxGraph file so teams can keep
+ * editing the architecture in diagrams.net. Nodes keep the positions they
+ * have in the rendered diagram when those are known, otherwise they are laid
+ * out in ranks following the edges.
+ */
+
+import type { DiagramGraph, GraphEdge, GraphNode } from './diagramGraph'
+import type { Rect } from './viewport'
+import type { ThemePalette } from './themes'
+
+export interface DrawioPage {
+    name: string
+    graph: DiagramGraph
+    // Rendered position of each node and subgraph, keyed by graph ID
+    layout?: Map<string, Rect>
+}
+
+const NODE_HEIGHT = 50
+const ATTRIBUTE_HEIGHT = 18
+const RANK_GAP = 80
+const NODE_GAP = 40
+const SUBGRAPH_PADDING = 20
+const SUBGRAPH_HEADER = 30
+
+const BASE_STYLE = 'whiteSpace=wrap;html=1;'
+
+// Flowchart shape brackets to draw.io styles
+const SHAPE_STYLES: Record<string, string> = {
+    '[': 'rounded=0;',
+    '(': 'rounded=1;',
+    '([': 'rounded=1;arcSize=50;',
+    '[(': 'shape=cylinder3;boundedLbl=1;size=10;',
+    '((': 'ellipse;',
+    '(((': 'ellipse;shape=doubleEllipse;',
+    '{': 'rhombus;',
+    '{{': 'shape=hexagon;perimeter=hexagonPerimeter2;size=0.15;',
+    '[[': 'shape=process;',
+    '[/': 'shape=parallelogram;perimeter=parallelogramPerimeter;',
+    '[\\': 'shape=parallelogram;perimeter=parallelogramPerimeter;flipH=1;',
+    '>': 'shape=step;perimeter=stepPerimeter;size=0.1;',
+}
+
+// ERD cardinality tokens (as written on either side) to draw.io arrow heads
+const CARDINALITY: Record<string, string> = {
+    '||': 'ERmandOne',
+    '|o': 'ERzeroToOne',
+    'o|': 'ERzeroToOne',
+    '}|': 'ERoneToMany',
+    '|{': 'ERoneToMany',
+    '}o': 'ERzeroToMany',
+    'o{': 'ERzeroToMany',
+}
+
+function escapeXml(value: string): string {
+    return value
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;')
+        .replace(/\n/g, '&#10;')
+}
+
+function escapeHtml(value: string): string {
+    return value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;')
+}
+
+// Labels go into an html=1 cell, so keep Mermaid's line breaks and escape the rest
+function labelHtml(label: string): string {
+    return label
+        .split(/<br\s*\/?>/i)
+        .map(line => escapeHtml(line.replace(/<[^>]+>/g, '')))
+        .join('<br>')
+}
+
+function nodeValue(node: GraphNode): string {
+    if (node.attributes.length === 0) return labelHtml(node.label)
+    const attributes = node.attributes.map(a => escapeHtml(a.trim())).join('<br>')
+    return `<b>${labelHtml(node.label)}</b><hr>${attributes}`
+}
+
+function nodeStyle(node: GraphNode, kind: DiagramGraph['kind']): string {
+    if (kind === 'erd') return `${BASE_STYLE}rounded=0;align=left;spacingLeft=8;verticalAlign=top;`
+    if (kind === 'sequence') {
+        return node.declaration === 'actor'
+            ? 'shape=umlActor;verticalLabelPosition=bottom;verticalAlign=top;html=1;'
+            : `${BASE_STYLE}rounded=0;`
+    }
+    return BASE_STYLE + (SHAPE_STYLES[node.shape?.open ?? '['] ?? SHAPE_STYLES['['])
+}
+
+function edgeStyle(edge: GraphEdge, kind: DiagramGraph['kind']): string {
+    const base = 'edgeStyle=orthogonalEdgeStyle;rounded=1;html=1;'
+    if (kind === 'erd') {
+        const start = CARDINALITY[edge.arrow.slice(0, 2)] ?? 'none'
+        const end = CARDINALITY[edge.arrow.slice(-2)] ?? 'none'
+        const dashed = edge.arrow.includes('..') ? 'dashed=1;' : ''
+        return `${base}startArrow=${start};endArrow=${end};${dashed}`
+    }
+    if (kind === 'sequence') {
+        const dashed = edge.arrow.startsWith('--') ? 'dashed=1;' : ''
+        const head = edge.arrow.includes('x') ? 'cross' : edge.arrow.includes(')') ? 'open' : 'block'
+        return `html=1;${dashed}endArrow=${head};`
+    }
+
+    const dashed = edge.arrow.includes('.') ? 'dashed=1;' : ''
+    const thick = edge.arrow.includes('=') ? 'strokeWidth=3;' : ''
+    const end = /[>ox]$/.test(edge.arrow) ? (edge.arrow.endsWith('o') ? 'oval' : edge.arrow.endsWith('x') ? 'cross' : 'block') : 'none'
+    return `${base}${dashed}${thick}endArrow=${end};`
+}
+
+function nodeSize(node: GraphNode) {
+    const lines = node.label.split(/<br\s*\/?>/i)
+    const longest = Math.max(...lines.map(l => l.length), ...node.attributes.map(a => a.trim().length))
+    return {
+        width: Math.max(120, Math.round(longest * 7.5) + 30),
+        height: node.attributes.length > 0
+            ? SUBGRAPH_HEADER + node.attributes.length * ATTRIBUTE_HEIGHT + 10
+            : Math.max(NODE_HEIGHT, lines.length * 20 + 20),
+    }
+}
+
+/**
+ * Lay nodes out in ranks by their longest path from a source node
+ * (sequence participants all share one row, like Mermaid draws them)
+ */
+function rankedLayout(graph: DiagramGraph): Map<string, Rect> {
+    const nodes = [...graph.nodes.values()].sort((a, b) => a.order - b.order)
+    const rank = new Map(nodes.map(node => [node.id, 0]))
+
+    if (graph.kind !== 'sequence') {
+        // Bounded relaxation so cycles can't loop forever
+        for (let pass = 0; pass < nodes.length; pass++) {
+            let changed = false
+            for (const edge of graph.edges) {
+                const next = (rank.get(edge.from) ?? 0) + 1
+                if (edge.from !== edge.to && next < nodes.length && next > (rank.get(edge.to) ?? 0)) {
+                    rank.set(edge.to, next)
+                    changed = true
+                }
+            }
+            if (!changed) break
+        }
+    }
+
+    const horizontal = /\b(LR|RL)\b/.test(graph.header)
+    const ranks = new Map<number, GraphNode[]>()
+    nodes.forEach(node => {
+        const r = rank.get(node.id) ?? 0
+        ranks.set(r, [...(ranks.get(r) ?? []), node])
+    })
+
+    const layout = new Map<string, Rect>()
+    let rankOffset = 0
+    ;[...ranks.keys()].sort((a, b) => a - b).forEach(r => {
+        const members = ranks.get(r) ?? []
+        let offset = 0
+        let depth = 0
+        members.forEach(node => {
+            const size = nodeSize(node)
+            layout.set(node.id, horizontal
+                ? { x: rankOffset, y: offset, ...size }
+                : { x: offset, y: rankOffset, ...size })
+            offset += (horizontal ? size.height : size.width) + NODE_GAP
+            depth = Math.max(depth, horizontal ? size.width : size.height)
+        })
+        rankOffset += depth + RANK_GAP
+    })
+    return layout
+}
+
+// Subgraph boxes wrap their members (including nested subgraphs) when not measured
+function subgraphBounds(graph: DiagramGraph, layout: Map<string, Rect>, id: string): Rect | null {
+    const known = layout.get(id)
+    if (known) return known
+
+    const children = [
+        ...[...graph.nodes.values()].filter(n => n.subgraph === id).map(n => layout.get(n.id)),
+        ...[...graph.subgraphs.values()].filter(s => s.parent === id).map(s => subgraphBounds(graph, layout, s.id)),
+    ].filter((r): r is Rect => !!r)
+    if (children.length === 0) return null
+
+    const left = Math.min(...children.map(r => r.x)) - SUBGRAPH_PADDING
+    const top = Math.min(...children.map(r => r.y)) - SUBGRAPH_PADDING - SUBGRAPH_HEADER
+    const right = Math.max(...children.map(r => r.x + r.width)) + SUBGRAPH_PADDING
+    const bottom = Math.max(...children.map(r => r.y + r.height)) + SUBGRAPH_PADDING
+    const bounds = { x: left, y: top, width: right - left, height: bottom - top }
+    layout.set(id, bounds)
+    return bounds
+}
+
+function geometry(rect: Rect, parent: Rect | null): string {
+    const x = Math.round(rect.x - (parent?.x ?? 0))
+    const y = Math.round(rect.y - (parent?.y ?? 0))
+    return `<mxGeometry x="${x}" y="${y}" width="${Math.round(rect.width)}" height="${Math.round(rect.height)}" as="geometry"/>`
+}
+
+// Theme colours on top of each cell's shape style
+function colourStyle(palette: ThemePalette | undefined, kind: 'node' | 'subgraph' | 'edge'): string {
+    if (!palette) return ''
+    if (kind === 'edge') return `strokeColor=${palette.line};fontColor=${palette.text};`
+    const fill = kind === 'node' ? `fillColor=${palette.nodeFill};` : ''
+    return `${fill}strokeColor=${palette.nodeStroke};fontColor=${palette.text};`
+}
+
+function pageModel(page: DrawioPage, palette?: ThemePalette): string {
+    const { graph } = page
+    // Measured positions only help if they cover every node
+    const measured = page.layout && [...graph.nodes.keys()].every(id => page.layout?.has(id))
+    const layout = new Map(measured && page.layout ? page.layout : rankedLayout(graph))
+
+    const cellIds = new Map<string, string>()
+    graph.subgraphs.forEach(s => cellIds.set(s.id, `s${cellIds.size + 1}`))
+    graph.nodes.forEach(n => cellIds.set(n.id, `n${cellIds.size + 1}`))
+    const parentOf = (subgraph: string | null) => (subgraph && cellIds.get(subgraph)) || '1'
+
+    const cells: string[] = ['<mxCell id="0"/>', '<mxCell id="1" parent="0"/>']
+
+    // Parents first, so draw.io sees each container before its children
+    const depth = (id: string | null): number => (id ? 1 + depth(graph.subgraphs.get(id)?.parent ?? null) : 0)
+    const subgraphs = [...graph.subgraphs.values()].sort((a, b) => depth(a.id) - depth(b.id) || a.order - b.order)
+    subgraphs.forEach(subgraph => {
+        const bounds = subgraphBounds(graph, layout, subgraph.id)
+        if (!bounds) return
+        const parent = subgraph.parent ? layout.get(subgraph.parent) ?? null : null
+        cells.push(
+            `<mxCell id="${cellIds.get(subgraph.id)}" value="${escapeXml(labelHtml(subgraph.label))}" ` +
+            `style="rounded=1;dashed=1;container=1;collapsible=0;verticalAlign=top;fillColor=none;html=1;${colourStyle(palette, 'subgraph')}" ` +
+            `vertex="1" parent="${parentOf(subgraph.parent)}">${geometry(bounds, parent)}</mxCell>`
+        )
+    })
+
+    graph.nodes.forEach(node => {
+        const rect = layout.get(node.id)
+        if (!rect) return
+        const parent = node.subgraph ? layout.get(node.subgraph) ?? null : null
+        cells.push(
+            `<mxCell id="${cellIds.get(node.id)}" value="${escapeXml(nodeValue(node))}" ` +
+            `style="${nodeStyle(node, graph.kind)}${colourStyle(palette, 'node')}" vertex="1" parent="${parentOf(node.subgraph)}">` +
+            `${geometry(rect, parent)}</mxCell>`
+        )
+    })
+
+    graph.edges.forEach((edge, index) => {
+        const source = cellIds.get(edge.from)
+        const target = cellIds.get(edge.to)
+        if (!source || !target) return
+        cells.push(
+            `<mxCell id="e${index + 1}" value="${escapeXml(labelHtml(edge.label))}" style="${edgeStyle(edge, graph.kind)}${colourStyle(palette, 'edge')}" ` +
+            `edge="1" parent="1" source="${source}" target="${target}">` +
+            '<mxGeometry relative="1" as="geometry"/></mxCell>'
+        )
+    })
+
+    const background = palette ? ` background="${palette.background}"` : ''
+    return `<mxGraphModel grid="1" gridSize="10" guides="1" connect="1" arrows="1" page="0"${background}><root>${cells.join('')}</root></mxGraphModel>`
+}
+
+/**
+ * Build a draw.io file with one page per diagram, optionally coloured like a diagram theme
+ */
+export function toDrawioXml(pages: DrawioPage[], palette?: ThemePalette): string {
+    const diagrams = pages.map((page, index) =>
+        `<diagram id="page-${index + 1}" name="${escapeXml(page.name)}">${pageModel(page, palette)}</diagram>`
+    )
+    return `<?xml version="1.0" encoding="UTF-8"?>\n<mxfile host="mivna" type="device">${diagrams.join('')}</mxfile>\n`
+}
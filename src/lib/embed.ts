@@ -0,0 +1,66 @@
+/**
+ * Embeddable diagrams
+ * Embeds are built on share links: the /embed/:token route renders one diagram
+ * without app chrome, public/embed.js turns placeholder elements into those
+ * iframes, and the shared-diagram-svg Edge Function serves a static SVG for
+ * places that only accept images (e.g. Markdown).
+ */
+
+import type { RepositoryDiagram, ShareLink } from './supabase'
+import type { MermaidTheme } from './mermaid'
+import { env } from './env'
+
+export type EmbedTheme = 'dark' | 'light' | 'neutral'
+
+export interface EmbedOptions {
+    diagramType: RepositoryDiagram['diagram_type']
+    // Diagram scope to show; null for the whole repository
+    scopeId: string | null
+    theme: EmbedTheme
+    // Show the zoom/fit toolbar inside the frame
+    controls: boolean
+    height: number
+}
+
+export const EMBED_THEMES: Record<EmbedTheme, MermaidTheme> = {
+    dark: 'dark',
+    light: 'default',
+    neutral: 'neutral',
+}
+
+// How often an embedded diagram checks for a regenerated version
+export const EMBED_REFRESH_MS = 60 * 1000
+
+function query(options: EmbedOptions): string {
+    return new URLSearchParams({
+        type: options.diagramType,
+        ...(options.scopeId ? { scope: options.scopeId } : {}),
+        theme: options.theme,
+        ...(options.controls ? {} : { controls: '0' }),
+    }).toString()
+}
+
+export function embedUrl(link: Pick<ShareLink, 'token'>, options: EmbedOptions): string {
+    return `${window.location.origin}/embed/${link.token}?${query(options)}`
+}
+
+export function svgUrl(link: Pick<ShareLink, 'token'>, options: EmbedOptions): string {
+    return `${env.SUPABASE_URL}/functions/v1/shared-diagram-svg?token=${encodeURIComponent(link.token)}&${query(options)}`
+}
+
+export function iframeSnippet(link: Pick<ShareLink, 'token'>, options: EmbedOptions, title: string): string {
+    return `<iframe src="${embedUrl(link, options)}" title="${title.replace(/"/g, '&quot;')}" width="100%" height="${options.height}" style="border: 0" loading="lazy"></iframe>`
+}
+
+export function scriptSnippet(link: Pick<ShareLink, 'token'>, options: EmbedOptions): string {
+    const scope = options.scopeId ? ` data-scope="${options.scopeId}"` : ''
+    const controls = options.controls ? '' : ' data-controls="0"'
+    return [
+        `<div data-mivna-diagram="${link.token}" data-type="${options.diagramType}"${scope} data-theme="${options.theme}" data-height="${options.height}"${controls}></div>`,
+        `<script src="${window.location.origin}/embed.js" async></script>`,
+    ].join('\n')
+}
+
+export function markdownSnippet(link: Pick<ShareLink, 'token'>, options: EmbedOptions, title: string): string {
+    return `[![${title.replace(/[[\]]/g, '')}](${svgUrl(link, options)})](${window.location.origin}/share/${link.token})`
+}
@@ -0,0 +1,71 @@
+/**
+ * Node explanation cache
+ * Explanations are stored per repository, diagram type, diagram version and
+ * node so repeat clicks are instant. Rows are keyed by repository rather than
+ * user, so everyone with access to the repository (e.g. org members) shares them.
+ */
+
+import { supabase } from './supabase'
+import type { NodeExplanation, RepositoryDiagram } from './supabase'
+import { runQuery } from './api'
+
+export interface ExplanationKey {
+    repositoryId: string
+    diagramType: RepositoryDiagram['diagram_type']
+    diagramVersion: string
+    nodeId: string
+}
+
+/**
+ * Version stamp for a diagram source: any change to the code yields a new key,
+ * so edits, restores and regenerations never serve a stale explanation
+ */
+async function versionOf(diagramCode: string): Promise<string> {
+    const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(diagramCode))
+    return Array.from(new Uint8Array(digest).slice(0, 12))
+        .map(byte => byte.toString(16).padStart(2, '0'))
+        .join('')
+}
+
+/**
+ * Look up a cached explanation
+ */
+async function get(key: ExplanationKey): Promise<NodeExplanation | null> {
+    return runQuery<NodeExplanation | null>(() =>
+        supabase
+            .from('node_explanations')
+            .select('*')
+            .eq('repository_id', key.repositoryId)
+            .eq('diagram_type', key.diagramType)
+            .eq('diagram_version', key.diagramVersion)
+            .eq('node_id', key.nodeId)
+            .maybeSingle()
+    )
+}
+
+/**
+ * Store (or replace) the explanation for a node
+ */
+async function save(key: ExplanationKey, explanation: string, userId: string | null): Promise<NodeExplanation> {
+    return runQuery<NodeExplanation>(() =>
+        supabase
+            .from('node_explanations')
+            .upsert({
+                repository_id: key.repositoryId,
+                diagram_type: key.diagramType,
+                diagram_version: key.diagramVersion,
+                node_id: key.nodeId,
+                explanation,
+                created_by: userId,
+                created_at: new Date().toISOString(),
+            }, { onConflict: 'repository_id,diagram_type,diagram_version,node_id' })
+            .select()
+            .single()
+    )
+}
+
+export const ExplanationService = {
+    versionOf,
+    get,
+    save,
+}
@@ -2,11 +2,36 @@
  * Export utilities for diagrams and README files
  */
 
+import { jsPDF } from 'jspdf'
+import type { RepositoryDiagram } from './supabase'
+import { renderMermaid } from './mermaid'
+import { toDrawioXml, type DrawioPage } from './drawio'
+import { PRINT_THEME, mermaidTheme, themePalette, type DiagramTheme, type ThemePalette } from './themes'
+import {
+    rasterizeElement,
+    rasterizeMarkup,
+    type RasterOptions,
+    type RasterProgress,
+    type RasterResult,
+} from './rasterize'
+
+/** Plain-text names for diagram types (exports can't rely on emoji fonts) */
+export const DIAGRAM_TYPE_NAMES: Record<RepositoryDiagram['diagram_type'], string> = {
+    flowchart: 'Flowchart',
+    erd: 'Entity Relationship',
+    sequence: 'Sequence',
+    component: 'Component',
+}
+
+// A4 landscape, in points
+const PDF_MARGIN = 40
+const PDF_HEADER = 50
+const PDF_FOOTER = 30
+
 /**
- * Download a text file
+ * Save a blob through a temporary download link
  */
-export function downloadTextFile(content: string, filename: string, mimeType = 'text/plain') {
-    const blob = new Blob([content], { type: mimeType })
+export function downloadBlob(blob: Blob, filename: string) {
     const url = URL.createObjectURL(blob)
     const link = document.createElement('a')
     link.href = url
@@ -18,59 +43,25 @@ export function downloadTextFile(content: string, filename: string, mimeType = '
 }
 
 /**
- * Convert SVG to PNG and download
+ * Download a text file
  */
-export async function downloadSVGasPNG(svgElement: SVGElement, filename: string, scale = 2) {
-    return new Promise<void>((resolve, reject) => {
-        try {
-            const svgData = new XMLSerializer().serializeToString(svgElement)
-            const canvas = document.createElement('canvas')
-            const ctx = canvas.getContext('2d')
-
-            if (!ctx) {
-                reject(new Error('Could not get canvas context'))
-                return
-            }
-
-            const img = new Image()
-            const svgBlob = new Blob([svgData], { type: 'image/svg+xml;charset=utf-8' })
-            const url = URL.createObjectURL(svgBlob)
-
-            img.onload = () => {
-                canvas.width = img.width * scale
-                canvas.height = img.height * scale
-                ctx.scale(scale, scale)
-                ctx.drawImage(img, 0, 0)
-
-                canvas.toBlob((blob) => {
-                    if (!blob) {
-                        reject(new Error('Failed to create PNG blob'))
-                        return
-                    }
-
-                    const pngUrl = URL.createObjectURL(blob)
-                    const link = document.createElement('a')
-                    link.href = pngUrl
-                    link.download = filename
-                    document.body.appendChild(link)
-                    link.click()
-                    document.body.removeChild(link)
-                    URL.revokeObjectURL(pngUrl)
-                    URL.revokeObjectURL(url)
-                    resolve()
-                }, 'image/png')
-            }
-
-            img.onerror = () => {
-                URL.revokeObjectURL(url)
-                reject(new Error('Failed to load SVG image'))
-            }
-
-            img.src = url
-        } catch (error) {
-            reject(error)
-        }
-    })
+export function downloadTextFile(content: string, filename: string, mimeType = 'text/plain') {
+    downloadBlob(new Blob([content], { type: mimeType }), filename)
+}
+
+/**
+ * Render an on-screen diagram to PNG, JPEG or WebP and download it
+ * Resolves with what was written, so callers can mention a reduced scale.
+ */
+export async function downloadImage(
+    svgElement: SVGSVGElement,
+    filename: string,
+    options: RasterOptions,
+    onProgress?: (progress: RasterProgress) => void
+): Promise<RasterResult> {
+    const result = await rasterizeElement(svgElement, options, onProgress)
+    downloadBlob(result.blob, filename)
+    return result
 }
 
 /**
@@ -78,13 +69,91 @@ export async function downloadSVGasPNG(svgElement: SVGElement, filename: string,
  */
 export function downloadSVG(svgElement: SVGElement, filename: string) {
     const svgData = new XMLSerializer().serializeToString(svgElement)
-    const blob = new Blob([svgData], { type: 'image/svg+xml;charset=utf-8' })
-    const url = URL.createObjectURL(blob)
-    const link = document.createElement('a')
-    link.href = url
-    link.download = filename
-    document.body.appendChild(link)
-    link.click()
-    document.body.removeChild(link)
-    URL.revokeObjectURL(url)
+    downloadBlob(new Blob([svgData], { type: 'image/svg+xml;charset=utf-8' }), filename)
+}
+
+/**
+ * Download the Mermaid source as a .mmd file
+ */
+export function downloadMermaid(code: string, filename: string) {
+    downloadTextFile(code.endsWith('\n') ? code : `${code}\n`, filename, 'text/vnd.mermaid')
+}
+
+/**
+ * Markdown with a fenced mermaid block, which GitHub renders as a diagram
+ */
+export function mermaidMarkdown(code: string, title?: string): string {
+    const heading = title ? `## ${title}\n\n` : ''
+    return `${heading}\`\`\`mermaid\n${code.trimEnd()}\n\`\`\`\n`
+}
+
+/**
+ * Download a draw.io / diagrams.net file with one page per diagram
+ */
+export function downloadDrawio(pages: DrawioPage[], filename: string, palette?: ThemePalette) {
+    downloadTextFile(toDrawioXml(pages, palette), filename, 'application/vnd.jgraph.mxfile')
+}
+
+export interface PdfExportOptions {
+    // Repository title printed on every page
+    title: string
+    filename: string
+    // Printed in the footer; defaults to now
+    exportedAt?: Date
+    // Defaults to the light print theme
+    theme?: DiagramTheme
+}
+
+/**
+ * Download a PDF with one page per diagram type, each with the repo title and export time
+ * Diagrams are re-rendered in the given theme, on the theme's background.
+ */
+export async function downloadPDF(diagrams: RepositoryDiagram[], options: PdfExportOptions) {
+    const pdf = new jsPDF({ orientation: 'landscape', unit: 'pt', format: 'a4' })
+    const pageWidth = pdf.internal.pageSize.getWidth()
+    const pageHeight = pdf.internal.pageSize.getHeight()
+    const timestamp = (options.exportedAt ?? new Date()).toLocaleString()
+    const theme = options.theme ?? PRINT_THEME
+    const ordered = (Object.keys(DIAGRAM_TYPE_NAMES) as RepositoryDiagram['diagram_type'][])
+        .map(type => diagrams.find(d => d.diagram_type === type))
+        .filter((d): d is RepositoryDiagram => !!d)
+
+    for (const [index, diagram] of ordered.entries()) {
+        if (index > 0) pdf.addPage()
+
+        pdf.setFont('helvetica', 'bold')
+        pdf.setFontSize(18)
+        pdf.setTextColor(20, 20, 20)
+        pdf.text(options.title, PDF_MARGIN, PDF_MARGIN)
+        pdf.setFont('helvetica', 'normal')
+        pdf.setFontSize(12)
+        pdf.setTextColor(90, 90, 90)
+        pdf.text(`${DIAGRAM_TYPE_NAMES[diagram.diagram_type]} diagram`, PDF_MARGIN, PDF_MARGIN + 20)
+
+        pdf.setFontSize(9)
+        pdf.text(`Exported ${timestamp}`, PDF_MARGIN, pageHeight - PDF_FOOTER)
+        pdf.text(`${index + 1} / ${ordered.length}`, pageWidth - PDF_MARGIN, pageHeight - PDF_FOOTER, { align: 'right' })
+
+        const box = {
+            x: PDF_MARGIN,
+            y: PDF_MARGIN + PDF_HEADER,
+            width: pageWidth - PDF_MARGIN * 2,
+            height: pageHeight - PDF_MARGIN - PDF_HEADER - PDF_FOOTER - 20,
+        }
+        try {
+            const svg = await renderMermaid(diagram.diagram_code, 'pdf-diagram', mermaidTheme(theme))
+            const image = await rasterizeMarkup(svg, { format: 'png', scale: 2, background: themePalette(theme).background })
+            // Fit inside the page box without upscaling small diagrams past print size
+            const fit = Math.min(box.width / (image.width / image.scale), box.height / (image.height / image.scale), 1.5)
+            const width = (image.width / image.scale) * fit
+            const height = (image.height / image.scale) * fit
+            pdf.addImage(new Uint8Array(await image.blob.arrayBuffer()), 'PNG', box.x + (box.width - width) / 2, box.y + (box.height - height) / 2, width, height)
+        } catch (error) {
+            console.error(`Failed to render ${diagram.diagram_type} diagram for PDF:`, error)
+            pdf.setFontSize(11)
+            pdf.text('This diagram could not be rendered.', box.x, box.y + 20)
+        }
+    }
+
+    pdf.save(options.filename)
 }
@@ -0,0 +1,34 @@
+/**
+ * Lightweight fuzzy matching for search boxes
+ */
+
+const WORD_BOUNDARY = /[\s_\-./:]/
+
+/**
+ * Score how well a query matches some text; null means no match
+ * Substring matches always outrank scattered (subsequence) matches
+ */
+export function fuzzyScore(query: string, text: string): number | null {
+    const needle = query.trim().toLowerCase()
+    const haystack = text.toLowerCase()
+    if (!needle) return null
+
+    const index = haystack.indexOf(needle)
+    if (index >= 0) {
+        const atWordStart = index === 0 || WORD_BOUNDARY.test(haystack[index - 1])
+        return 1000 + (atWordStart ? 100 : 0) - index
+    }
+
+    let score = 0
+    let cursor = 0
+    let previous = -2
+    for (const ch of needle.replace(/\s+/g, '')) {
+        const found = haystack.indexOf(ch, cursor)
+        if (found < 0) return null
+        score += found === previous + 1 ? 5 : 1
+        if (found === 0 || WORD_BOUNDARY.test(haystack[found - 1])) score += 3
+        previous = found
+        cursor = found + 1
+    }
+    return score
+}
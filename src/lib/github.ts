@@ -0,0 +1,194 @@
+/**
+ * GitHub REST API helpers
+ * All calls use the user's OAuth provider token from the Supabase session
+ */
+
+import { ApiError, withRetry } from './api'
+
+const GITHUB_API_URL = 'https://api.github.com'
+
+export interface GitHubRepo {
+    id: number
+    name: string
+    full_name: string
+    html_url: string
+    owner: {
+        login: string
+    }
+    private: boolean
+    description: string | null
+    default_branch: string
+}
+
+export interface GitHubRef {
+    name: string
+    kind: 'branch' | 'tag'
+    sha: string
+}
+
+export interface GitHubRefs {
+    defaultBranch: string
+    refs: GitHubRef[]
+    // More branches or tags exist than were listed
+    truncated: boolean
+}
+
+export interface GitHubContentEntry {
+    name: string
+    path: string
+    type: 'file' | 'dir' | 'symlink' | 'submodule'
+}
+
+interface GitHubRefResponse {
+    name: string
+    commit: {
+        sha: string
+    }
+}
+
+const COMMIT_SHA = /^[0-9a-f]{40}$/i
+const QUALIFIED_REF = /^refs\/(heads|tags)\//
+// Pages of branches / tags fetched before the list is reported as truncated
+const MAX_REF_PAGES = 10
+
+export function shortSha(sha: string): string {
+    return sha.slice(0, 7)
+}
+
+/**
+ * Fully qualified name of a branch or tag (`refs/heads/…`, `refs/tags/…`), so a
+ * branch and a tag with the same name stay distinct
+ */
+export function qualifiedRef(ref: Pick<GitHubRef, 'name' | 'kind'>): string {
+    return `${ref.kind === 'branch' ? 'refs/heads' : 'refs/tags'}/${ref.name}`
+}
+
+/**
+ * A ref as shown in the UI: branch and tag names without their `refs/…` prefix,
+ * full commit SHAs shortened
+ */
+export function displayRef(ref: string): string {
+    return COMMIT_SHA.test(ref) ? shortSha(ref) : ref.replace(QUALIFIED_REF, '')
+}
+
+/**
+ * Fetch a GitHub API URL with retry, throwing a classified ApiError on failure
+ */
+async function githubFetch(url: string, token: string, accept = 'application/vnd.github.v3+json'): Promise<Response> {
+    return withRetry(
+        async () => {
+            const res = await fetch(url, {
+                headers: {
+                    Authorization: `Bearer ${token}`,
+                    Accept: accept,
+                },
+            })
+            if (!res.ok) {
+                throw ApiError.fromResponse(res, `GitHub API error: ${res.status}`)
+            }
+            return res
+        },
+        { maxRetries: 2 }
+    )
+}
+
+/**
+ * GET a GitHub API path with retry, throwing a classified ApiError on failure
+ */
+async function githubGet<T>(path: string, token: string, accept = 'application/vnd.github.v3+json'): Promise<T> {
+    const response = await githubFetch(`${GITHUB_API_URL}${path}`, token, accept)
+    return accept.endsWith('.sha') ? (await response.text()) as T : response.json()
+}
+
+/**
+ * GET a paginated list, following `Link: rel="next"` for up to `maxPages` pages
+ */
+async function githubGetPages<T>(path: string, token: string, maxPages: number): Promise<{ items: T[]; truncated: boolean }> {
+    const items: T[] = []
+    let url: string | null = `${GITHUB_API_URL}${path}`
+    for (let page = 0; url && page < maxPages; page++) {
+        const response = await githubFetch(url, token)
+        items.push(...await response.json() as T[])
+        url = response.headers.get('Link')?.match(/<([^>]+)>;\s*rel="next"/)?.[1] ?? null
+    }
+    return { items, truncated: !!url }
+}
+
+/**
+ * List repositories the user can access, most recently updated first
+ */
+async function listUserRepos(token: string): Promise<GitHubRepo[]> {
+    return githubGet<GitHubRepo[]>('/user/repos?per_page=100&sort=updated', token)
+}
+
+/**
+ * List a repository's branches and tags and its default branch
+ * Very large repositories are cut off after MAX_REF_PAGES pages of each.
+ */
+async function listRefs(owner: string, repo: string, token: string): Promise<GitHubRefs> {
+    const [info, branches, tags] = await Promise.all([
+        githubGet<GitHubRepo>(`/repos/${owner}/${repo}`, token),
+        githubGetPages<GitHubRefResponse>(`/repos/${owner}/${repo}/branches?per_page=100`, token, MAX_REF_PAGES),
+        githubGetPages<GitHubRefResponse>(`/repos/${owner}/${repo}/tags?per_page=100`, token, MAX_REF_PAGES),
+    ])
+    return {
+        defaultBranch: info.default_branch,
+        refs: [
+            ...branches.items.map(b => ({ name: b.name, kind: 'branch' as const, sha: b.commit.sha })),
+            ...tags.items.map(t => ({ name: t.name, kind: 'tag' as const, sha: t.commit.sha })),
+        ],
+        truncated: branches.truncated || tags.truncated,
+    }
+}
+
+/**
+ * List one directory of a repository ('' for the root) on the default branch or a given ref
+ */
+async function listDirectory(owner: string, repo: string, path: string, token: string, ref?: string): Promise<GitHubContentEntry[]> {
+    const encodedPath = path.split('/').filter(Boolean).map(encodeURIComponent).join('/')
+    const query = ref ? `?ref=${encodeURIComponent(ref)}` : ''
+    // A file path returns a single object rather than a listing
+    const entries = await githubGet<GitHubContentEntry[] | GitHubContentEntry>(
+        `/repos/${owner}/${repo}/contents/${encodedPath}${query}`,
+        token
+    )
+    return Array.isArray(entries) ? entries : []
+}
+
+/**
+ * Resolve a ref (branch, tag, `refs/…` name or HEAD) to its commit SHA
+ */
+async function getCommitSha(owner: string, repo: string, token: string, ref = 'HEAD'): Promise<string> {
+    return githubGet<string>(
+        `/repos/${owner}/${repo}/commits/${encodeURIComponent(ref)}`,
+        token,
+        'application/vnd.github.sha'
+    )
+}
+
+/**
+ * Whether `commitSha` includes `ancestorSha` in its history (or is the same commit)
+ */
+async function includesCommit(owner: string, repo: string, ancestorSha: string, commitSha: string, token: string): Promise<boolean> {
+    const comparison = await githubGet<{ status: 'ahead' | 'behind' | 'identical' | 'diverged' }>(
+        `/repos/${owner}/${repo}/compare/${ancestorSha}...${commitSha}`,
+        token
+    )
+    return comparison.status === 'ahead' || comparison.status === 'identical'
+}
+
+/**
+ * Link to a commit on github.com
+ */
+function commitUrl(owner: string, repo: string, sha: string): string {
+    return `https://github.com/${owner}/${repo}/commit/${sha}`
+}
+
+export const GitHubService = {
+    listUserRepos,
+    listRefs,
+    listDirectory,
+    getCommitSha,
+    includesCommit,
+    commitUrl,
+}
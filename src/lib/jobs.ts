@@ -0,0 +1,338 @@
+/**
+ * Generation job records and execution
+ * Diagram and README generation runs as tracked jobs so progress survives
+ * navigation and page reloads (see hooks/useJobs)
+ */
+
+import { supabase } from './supabase'
+import type { GenerationJob, Profile, Repository, RepositoryDiagram } from './supabase'
+import { runQuery } from './api'
+import { RepositoryService } from './repositories'
+import { VersionService } from './versions'
+import { GitHubService } from './github'
+import { findDiagram } from './scopes'
+
+// How long finished jobs are kept around for the progress tray
+const RECENT_JOB_WINDOW_MS = 24 * 60 * 60 * 1000
+
+export interface JobExecutionContext {
+    accessToken: string
+    githubToken: string
+    profile: Profile
+    onStep: (step: string) => void
+}
+
+export function isActiveJob(job: GenerationJob): boolean {
+    return job.status === 'queued' || job.status === 'running'
+}
+
+/**
+ * Build a new queued job for a repository
+ */
+function draft(
+    userId: string,
+    repo: Repository,
+    kind: GenerationJob['kind'],
+    diagramType: RepositoryDiagram['diagram_type'] | null = null,
+    ref: string | null = null,
+    scopeId: string | null = null
+): GenerationJob {
+    return {
+        id: crypto.randomUUID(),
+        user_id: userId,
+        repository_id: repo.id,
+        repo_name: repo.repo_name,
+        kind,
+        diagram_type: kind === 'diagram' ? diagramType ?? 'flowchart' : null,
+        ref,
+        scope_id: kind === 'diagram' ? scopeId : null,
+        status: 'queued',
+        step: null,
+        error: null,
+        claimed_by: null,
+        created_at: new Date().toISOString(),
+        started_at: null,
+        finished_at: null,
+    }
+}
+
+/**
+ * Persist a job record: a new job, or a failed one being retried
+ */
+async function create(job: GenerationJob): Promise<void> {
+    await runQuery(() => supabase.from('generation_jobs').upsert(job))
+}
+
+/**
+ * Persist changes to a job record
+ */
+async function update(jobId: string, patch: Partial<GenerationJob>): Promise<void> {
+    await runQuery(() =>
+        supabase
+            .from('generation_jobs')
+            .update(patch)
+            .eq('id', jobId)
+    )
+}
+
+/**
+ * Load the current database copy of a job; null if it was never saved
+ */
+async function get(jobId: string): Promise<GenerationJob | null> {
+    return runQuery<GenerationJob | null>(() =>
+        supabase
+            .from('generation_jobs')
+            .select('*')
+            .eq('id', jobId)
+            .maybeSingle()
+    )
+}
+
+/**
+ * Atomically move a queued job to running for one client.
+ * Returns false when another tab or device got there first.
+ */
+async function claim(jobId: string, claimant: string, startedAt: string): Promise<boolean> {
+    const data = await runQuery<GenerationJob[]>(() =>
+        supabase
+            .from('generation_jobs')
+            .update({ status: 'running', step: 'Starting', started_at: startedAt, claimed_by: claimant })
+            .eq('id', jobId)
+            .eq('status', 'queued')
+            .select()
+    )
+    return (data ?? []).length > 0
+}
+
+/**
+ * Take over a running job whose client went away, if nobody else already has.
+ * `job` must be the database copy so its claimant is current.
+ */
+async function claimRecovery(job: GenerationJob, claimant: string): Promise<boolean> {
+    const data = await runQuery<GenerationJob[]>(() => {
+        const query = supabase
+            .from('generation_jobs')
+            .update({ claimed_by: claimant })
+            .eq('id', job.id)
+            .eq('status', 'running')
+        return (job.claimed_by ? query.eq('claimed_by', job.claimed_by) : query.is('claimed_by', null))
+            .select()
+    })
+    return (data ?? []).length > 0
+}
+
+/**
+ * List active jobs plus anything finished in the last 24 hours
+ */
+async function listRecent(userId: string): Promise<GenerationJob[]> {
+    const since = new Date(Date.now() - RECENT_JOB_WINDOW_MS).toISOString()
+    const data = await runQuery<GenerationJob[]>(() =>
+        supabase
+            .from('generation_jobs')
+            .select('*')
+            .eq('user_id', userId)
+            .or(`status.in.(queued,running),created_at.gte.${since}`)
+            .order('created_at', { ascending: false })
+    )
+    return data ?? []
+}
+
+/**
+ * Check whether the backend finished a job we lost track of
+ * (e.g. the tab was reloaded while the Edge Function was running)
+ */
+async function hasJobLanded(job: GenerationJob): Promise<boolean> {
+    if (!job.started_at) return false
+
+    if (job.kind === 'readme') {
+        // Other writes bump the row's updated_at, so match on the job that wrote the README
+        const repo = await RepositoryService.get(job.repository_id, { force: true })
+        return repo.readme_job_id === job.id
+    }
+
+    const startedAt = new Date(job.started_at).getTime()
+
+    const diagrams = await RepositoryService.listDiagrams(job.repository_id, { force: true })
+    return diagrams.some(d =>
+        d.diagram_type === job.diagram_type &&
+        (d.scope_id ?? null) === (job.scope_id ?? null) &&
+        new Date(d.updated_at).getTime() >= startedAt
+    )
+}
+
+/**
+ * Resolve the commit a job analyses before it starts, so a push landing mid-generation
+ * isn't recorded as covered. Null when the ref can't be resolved.
+ */
+async function pinCommit(repo: Repository, ref: string | null, githubToken: string): Promise<string | null> {
+    return GitHubService
+        .getCommitSha(repo.repo_owner, repo.repo_name, githubToken, ref ?? 'HEAD')
+        .catch(err => {
+            console.error('Failed to resolve commit to analyse:', err)
+            return null
+        })
+}
+
+async function executeDiagram(job: GenerationJob, repo: Repository, ctx: JobExecutionContext) {
+    ctx.onStep('Preparing repository')
+    await RepositoryService.setStatus(repo.id, 'processing')
+
+    const diagramType = job.diagram_type ?? 'flowchart'
+    const scopeId = job.scope_id ?? null
+    const scope = scopeId ? repo.diagram_scopes?.find(s => s.id === scopeId) : undefined
+    if (scopeId && !scope) throw new Error('This diagram scope no longer exists')
+
+    // Keep the current picture in the history before the Edge Function overwrites it
+    const previous = findDiagram(repo, diagramType, scopeId)
+    if (previous) {
+        await VersionService.snapshot(previous, job.user_id).catch(err => {
+            console.error('Failed to snapshot previous diagram version:', err)
+        })
+    }
+
+    const ref = job.ref ?? null
+    const pinnedSha = await pinCommit(repo, ref, ctx.githubToken)
+
+    let commitSha: string | null = null
+    try {
+        ctx.onStep(`Generating ${job.diagram_type} diagram`)
+        const { data, error } = await supabase.functions.invoke('generate-diagram', {
+            headers: {
+                Authorization: `Bearer ${ctx.accessToken}`,
+            },
+            body: {
+                repoOwner: repo.repo_owner,
+                repoName: repo.repo_name,
+                githubToken: ctx.githubToken,
+                diagramType,
+                ref: pinnedSha ?? ref ?? undefined,
+                scope: scope ? { id: scope.id, path: scope.path, include: scope.include, exclude: scope.exclude } : undefined,
+                jobId: job.id,
+            },
+        })
+
+        if (error) throw error
+        commitSha = data?.commitSha ?? null
+    } catch (err) {
+        await RepositoryService.setStatus(repo.id, 'error').catch(statusErr => {
+            console.error('Failed to mark repository as errored:', statusErr)
+        })
+        throw err
+    }
+
+    // Backend already saved to repository_diagrams table
+    RepositoryService.invalidate(repo.id)
+
+    ctx.onStep('Saving version')
+    // Only a commit known to be the one analysed counts as scanned
+    const sourceCommitSha = commitSha ?? pinnedSha
+
+    await RepositoryService.setDiagramSource(repo.id, diagramType, scopeId, ref, sourceCommitSha).catch(err => {
+        console.error('Failed to record diagram source:', err)
+    })
+    await recordGeneratedVersion(job, repo, sourceCommitSha).catch(err => {
+        console.error('Failed to record diagram version:', err)
+    })
+    // Staleness is tracked for the whole-repository diagrams on the default branch only
+    if (sourceCommitSha && !ref && !scopeId) {
+        await recordScanned(repo, sourceCommitSha, ctx.githubToken).catch(err => {
+            console.error('Failed to record scanned commit:', err)
+        })
+    }
+}
+
+/**
+ * Record a default-branch scan. The stale marker holds the first new commit seen,
+ * so it is cleared when the scanned commit already includes it.
+ */
+async function recordScanned(repo: Repository, commitSha: string, githubToken: string) {
+    const current = await RepositoryService.get(repo.id, { force: true })
+    const staleSha = current.stale_since_sha
+    const covered = staleSha && staleSha !== commitSha
+        ? await GitHubService.includesCommit(repo.repo_owner, repo.repo_name, staleSha, commitSha, githubToken).catch(() => false)
+        : false
+    await RepositoryService.markScanned(repo.id, commitSha, covered ? staleSha : null)
+}
+
+async function recordGeneratedVersion(job: GenerationJob, repo: Repository, sourceCommitSha: string | null) {
+    const diagrams = await RepositoryService.listDiagrams(repo.id, { force: true })
+    const diagram = diagrams.find(d =>
+        d.diagram_type === job.diagram_type && (d.scope_id ?? null) === (job.scope_id ?? null)
+    )
+    if (!diagram) return
+
+    await VersionService.record({
+        repository_id: repo.id,
+        diagram_type: diagram.diagram_type,
+        scope_id: diagram.scope_id ?? null,
+        diagram_code: diagram.diagram_code,
+        generator: 'ai',
+        source_ref: job.ref ?? null,
+        source_commit_sha: sourceCommitSha,
+        created_by: job.user_id,
+    })
+}
+
+async function executeReadme(job: GenerationJob, repo: Repository, ctx: JobExecutionContext) {
+    const ref = job.ref ?? null
+    const pinnedSha = await pinCommit(repo, ref, ctx.githubToken)
+
+    ctx.onStep('Generating README')
+    const { data, error } = await supabase.functions.invoke('generate-readme', {
+        headers: {
+            Authorization: `Bearer ${ctx.accessToken}`,
+        },
+        body: {
+            repoOwner: repo.repo_owner,
+            repoName: repo.repo_name,
+            githubToken: ctx.githubToken,
+            ref: pinnedSha ?? ref ?? undefined,
+            jobId: job.id,
+        },
+    })
+
+    if (error) throw error
+
+    ctx.onStep('Saving README')
+    await RepositoryService.saveReadme(repo.id, data.readmeContent, ref, job.id)
+
+    // A README-only auto-refresh must clear the stale marker too
+    const sourceCommitSha = data?.commitSha ?? pinnedSha
+    if (sourceCommitSha && !ref) {
+        await recordScanned(repo, sourceCommitSha, ctx.githubToken).catch(err => {
+            console.error('Failed to record scanned commit:', err)
+        })
+    }
+
+    // Increment README count server-side so concurrent jobs don't lose updates.
+    // The README is already saved, so a failed count doesn't fail the job.
+    await runQuery(() => supabase.rpc('increment_readmes_generated', { profile_id: ctx.profile.id })).catch(err => {
+        console.error('Failed to update README count:', err)
+    })
+}
+
+/**
+ * Run a job to completion. Throws on failure; the caller records status.
+ */
+async function execute(job: GenerationJob, ctx: JobExecutionContext): Promise<void> {
+    ctx.onStep('Loading repository')
+    const repo = await RepositoryService.get(job.repository_id, { force: true })
+
+    if (job.kind === 'diagram') {
+        await executeDiagram(job, repo, ctx)
+    } else {
+        await executeReadme(job, repo, ctx)
+    }
+}
+
+export const JobService = {
+    draft,
+    create,
+    update,
+    get,
+    claim,
+    claimRecovery,
+    listRecent,
+    hasJobLanded,
+    execute,
+}
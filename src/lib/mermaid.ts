@@ -0,0 +1,81 @@
+/**
+ * Shared Mermaid configuration and rendering
+ * Every view that renders a diagram goes through here so they all look the same
+ */
+
+import mermaid from 'mermaid'
+import { sanitizeSvg } from './sanitize'
+
+let initialized = false
+let renderCounter = 0
+
+/**
+ * Configure Mermaid once for the whole app
+ */
+export function initMermaid() {
+    if (initialized) return
+    mermaid.initialize({
+        startOnLoad: false,
+        theme: 'dark',
+        // Diagram source is untrusted: encode HTML in labels and disable click callbacks
+        securityLevel: 'strict',
+        fontFamily: 'JetBrains Mono, monospace',
+    })
+    initialized = true
+}
+
+export type MermaidTheme = 'dark' | 'default' | 'neutral' | 'forest' | 'base'
+
+// A Mermaid theme plus overrides (see https://mermaid.js.org/config/theming.html)
+export interface ThemeDirective {
+    theme: MermaidTheme
+    themeVariables?: Record<string, string | boolean>
+}
+
+/**
+ * Render Mermaid source to a sanitized SVG string
+ * Each call gets a unique element ID so several diagrams can coexist on a page.
+ * A theme overrides the app-wide dark theme for this diagram only.
+ */
+export async function renderMermaid(
+    code: string,
+    idPrefix = 'mermaid-diagram',
+    theme?: MermaidTheme | ThemeDirective
+): Promise<string> {
+    initMermaid()
+    renderCounter += 1
+    const directive = typeof theme === 'string' ? { theme } : theme
+    const source = directive ? `%%{init: ${JSON.stringify(directive)}}%%\n${code}` : code
+    const { svg } = await mermaid.render(`${idPrefix}-${renderCounter}`, source)
+    const clean = sanitizeSvg(svg)
+    if (!clean) throw new Error('Mermaid did not produce an SVG')
+    return clean
+}
+
+export interface MermaidSyntaxError {
+    message: string
+    // 1-based line in the source, when Mermaid reports one
+    line: number | null
+}
+
+/**
+ * Validate Mermaid source without rendering it
+ * Returns null when the source parses cleanly
+ */
+export async function validateMermaid(code: string): Promise<MermaidSyntaxError | null> {
+    initMermaid()
+    try {
+        await mermaid.parse(code)
+        return null
+    } catch (err) {
+        const message = err instanceof Error ? err.message : String(err)
+        // Jison parsers attach the location to `hash`; Langium ones only mention it in the message
+        const hash = (err as { hash?: { line?: number; loc?: { first_line?: number } } }).hash
+        const reported = hash?.loc?.first_line ?? (hash?.line !== undefined ? hash.line + 1 : undefined)
+        const fromMessage = /line (\d+)/i.exec(message)
+        return {
+            message,
+            line: reported ?? (fromMessage ? Number(fromMessage[1]) : null),
+        }
+    }
+}
@@ -0,0 +1,296 @@
+/**
+ * SVG to bitmap rendering for image exports
+ * A serialized SVG drawn through an <img> can't see the page's stylesheets or
+ * web fonts, so we bake computed styles into the copy, embed the @font-face
+ * rules it uses as data URLs, and keep the canvas within browser size limits.
+ */
+
+export type RasterFormat = 'png' | 'jpeg' | 'webp'
+
+export interface RasterOptions {
+    format: RasterFormat
+    // Output pixels per SVG pixel (2 = 192 DPI)
+    scale: number
+    // CSS colour, or null for a transparent background (JPEG falls back to white)
+    background: string | null
+    // JPEG/WebP quality between 0 and 1
+    quality?: number
+}
+
+export interface RasterProgress {
+    step: string
+    // 0 to 1 across the whole export
+    progress: number
+}
+
+export interface RasterResult {
+    blob: Blob
+    width: number
+    height: number
+    // Scale actually used; lower than requested when the canvas had to shrink
+    scale: number
+}
+
+export const RASTER_MIME_TYPES: Record<RasterFormat, string> = {
+    png: 'image/png',
+    jpeg: 'image/jpeg',
+    webp: 'image/webp',
+}
+
+// Largest side and area that Chrome, Firefox and Safari all draw reliably;
+// anything that still fails is retried at half the scale
+const MAX_CANVAS_SIDE = 16384
+const MAX_CANVAS_AREA = 16384 * 4096
+const MIN_SCALE = 0.25
+// Yield to the browser every this many elements while inlining styles
+const STYLE_BATCH = 400
+
+// Computed properties that decide how SVG shapes and foreignObject labels look
+const INLINE_PROPERTIES = [
+    'fill', 'fill-opacity', 'stroke', 'stroke-width', 'stroke-opacity', 'stroke-dasharray',
+    'stroke-linecap', 'stroke-linejoin', 'opacity', 'visibility', 'display', 'filter',
+    'font-family', 'font-size', 'font-weight', 'font-style', 'letter-spacing',
+    'text-anchor', 'dominant-baseline', 'text-align', 'line-height', 'white-space',
+    'color', 'background-color', 'padding', 'border', 'border-radius',
+]
+
+const FONT_FACE = /@font-face\s*{[^}]*}/g
+const GENERIC_FAMILIES = new Set(['serif', 'sans-serif', 'monospace', 'cursive', 'fantasy', 'system-ui', 'inherit', 'initial'])
+
+// Embedded font CSS per set of families; fonts don't change while the app runs
+const fontCache = new Map<string, Promise<string>>()
+
+const nextFrame = () => new Promise(resolve => setTimeout(resolve, 0))
+
+function fontFamilies(value: string): string[] {
+    return value
+        .split(',')
+        .map(family => family.trim().replace(/^["']|["']$/g, '').toLowerCase())
+        .filter(family => family && !GENERIC_FAMILIES.has(family))
+}
+
+// Every @font-face rule reachable from the page, with the URL its relative paths resolve against
+async function collectFontFaces(): Promise<{ css: string; base: string }[]> {
+    const faces: { css: string; base: string }[] = []
+
+    const visit = async (sheet: CSSStyleSheet) => {
+        const base = sheet.href ?? document.baseURI
+        let rules: CSSRuleList
+        try {
+            rules = sheet.cssRules
+        } catch {
+            // Cross-origin sheet (e.g. Google Fonts): fetch the text instead
+            if (!sheet.href) return
+            try {
+                const text = await fetch(sheet.href).then(r => r.text())
+                text.match(FONT_FACE)?.forEach(css => faces.push({ css, base }))
+            } catch (error) {
+                console.error('Failed to load stylesheet for font embedding:', error)
+            }
+            return
+        }
+
+        for (const rule of Array.from(rules)) {
+            if (rule instanceof CSSFontFaceRule) faces.push({ css: rule.cssText, base })
+            else if (rule instanceof CSSImportRule && rule.styleSheet) await visit(rule.styleSheet)
+        }
+    }
+
+    for (const sheet of Array.from(document.styleSheets)) await visit(sheet)
+    return faces
+}
+
+async function toDataUrl(url: string): Promise<string> {
+    const blob = await fetch(url).then(r => r.blob())
+    return new Promise((resolve, reject) => {
+        const reader = new FileReader()
+        reader.onload = () => resolve(reader.result as string)
+        reader.onerror = () => reject(reader.error)
+        reader.readAsDataURL(blob)
+    })
+}
+
+/**
+ * @font-face CSS for the given families with every font file inlined
+ * Fonts that can't be fetched are skipped; the browser falls back as it would on screen.
+ */
+function embeddedFontCss(families: Set<string>): Promise<string> {
+    const key = [...families].sort().join('|')
+    const cached = fontCache.get(key)
+    if (cached) return cached
+
+    const css = collectFontFaces().then(async faces => {
+        const used = faces.filter(({ css }) => {
+            const family = /font-family:\s*([^;]+)/.exec(css)?.[1]
+            return !!family && fontFamilies(family).some(f => families.has(f))
+        })
+        const embedded = await Promise.all(used.map(async ({ css, base }) => {
+            const urls = [...css.matchAll(/url\(\s*["']?([^"')]+)["']?\s*\)/g)].map(m => m[1])
+            let result = css
+            for (const url of urls) {
+                if (url.startsWith('data:')) continue
+                try {
+                    result = result.replace(url, await toDataUrl(new URL(url, base).href))
+                } catch (error) {
+                    console.error('Failed to embed font:', error)
+                    return ''
+                }
+            }
+            return result
+        }))
+        return embedded.filter(Boolean).join('\n')
+    })
+    fontCache.set(key, css)
+    return css
+}
+
+function usedFamilies(svg: SVGSVGElement): Set<string> {
+    const families = new Set<string>()
+    svg.querySelectorAll('style').forEach(style => {
+        for (const match of (style.textContent ?? '').matchAll(/font-family:\s*([^;}"]+)/g)) {
+            fontFamilies(match[1]).forEach(f => families.add(f))
+        }
+    })
+    svg.querySelectorAll<SVGElement | HTMLElement>('[style]').forEach(el => {
+        fontFamilies(el.style.fontFamily).forEach(f => families.add(f))
+    })
+    return families
+}
+
+async function embedFonts(svg: SVGSVGElement) {
+    const css = await embeddedFontCss(usedFamilies(svg))
+    if (!css) return
+    const style = document.createElementNS('http://www.w3.org/2000/svg', 'style')
+    style.textContent = css
+    svg.insertBefore(style, svg.firstChild)
+}
+
+// Mermaid sizes SVGs to 100% of their container, so the natural size comes from the viewBox
+function naturalSize(svg: SVGSVGElement) {
+    const viewBox = svg.getAttribute('viewBox')?.split(/[\s,]+/).map(Number)
+    return {
+        width: viewBox?.[2] || Number.parseFloat(svg.getAttribute('width') ?? '') || 800,
+        height: viewBox?.[3] || Number.parseFloat(svg.getAttribute('height') ?? '') || 600,
+    }
+}
+
+/**
+ * Copy an on-screen SVG with its computed styles written inline
+ */
+async function inlineStyles(source: SVGSVGElement, onProgress?: (done: number) => void): Promise<SVGSVGElement> {
+    const clone = source.cloneNode(true) as SVGSVGElement
+    const from = [source, ...Array.from(source.querySelectorAll<Element>('*'))]
+    const to = [clone, ...Array.from(clone.querySelectorAll<Element>('*'))]
+
+    for (let i = 0; i < from.length; i++) {
+        const target = to[i] as SVGElement | HTMLElement
+        if (!target.style) continue
+        const computed = getComputedStyle(from[i])
+        INLINE_PROPERTIES.forEach(property => {
+            const value = computed.getPropertyValue(property)
+            if (value) target.style.setProperty(property, value)
+        })
+        if (i % STYLE_BATCH === STYLE_BATCH - 1) {
+            onProgress?.(i / from.length)
+            await nextFrame()
+        }
+    }
+    return clone
+}
+
+function loadImage(svg: SVGSVGElement): Promise<HTMLImageElement> {
+    const markup = new XMLSerializer().serializeToString(svg)
+    const url = URL.createObjectURL(new Blob([markup], { type: 'image/svg+xml;charset=utf-8' }))
+    return new Promise((resolve, reject) => {
+        const img = new Image()
+        img.onload = () => {
+            URL.revokeObjectURL(url)
+            resolve(img)
+        }
+        img.onerror = () => {
+            URL.revokeObjectURL(url)
+            reject(new Error('Failed to load SVG image'))
+        }
+        img.src = url
+    })
+}
+
+function canvasToBlob(canvas: HTMLCanvasElement, type: string, quality?: number): Promise<Blob | null> {
+    return new Promise(resolve => canvas.toBlob(resolve, type, quality))
+}
+
+/**
+ * Largest scale up to the requested one whose canvas stays within browser limits
+ */
+export function fitScale(width: number, height: number, requested: number): number {
+    return Math.min(
+        requested,
+        MAX_CANVAS_SIDE / width,
+        MAX_CANVAS_SIDE / height,
+        Math.sqrt(MAX_CANVAS_AREA / (width * height))
+    )
+}
+
+/**
+ * Draw a detached, self-contained SVG and encode it, shrinking the scale until the browser copes
+ */
+async function draw(svg: SVGSVGElement, options: RasterOptions): Promise<RasterResult> {
+    const { width, height } = naturalSize(svg)
+    svg.setAttribute('width', String(width))
+    svg.setAttribute('height', String(height))
+    svg.style.removeProperty('max-width')
+
+    const img = await loadImage(svg)
+    const type = RASTER_MIME_TYPES[options.format]
+    const background = options.background ?? (options.format === 'jpeg' ? '#ffffff' : null)
+
+    for (let scale = fitScale(width, height, options.scale); scale >= MIN_SCALE; scale /= 2) {
+        const canvas = document.createElement('canvas')
+        canvas.width = Math.round(width * scale)
+        canvas.height = Math.round(height * scale)
+        const ctx = canvas.getContext('2d')
+        if (!ctx) continue
+
+        if (background) {
+            ctx.fillStyle = background
+            ctx.fillRect(0, 0, canvas.width, canvas.height)
+        }
+        ctx.drawImage(img, 0, 0, canvas.width, canvas.height)
+
+        // Oversized canvases fail quietly: no context, or a null blob
+        const blob = await canvasToBlob(canvas, type, options.quality)
+        if (blob) return { blob, width: canvas.width, height: canvas.height, scale }
+    }
+    throw new Error('Diagram is too large to export as an image')
+}
+
+/**
+ * Render an on-screen SVG to an image, keeping fonts and CSS styling
+ */
+export async function rasterizeElement(
+    svgElement: SVGSVGElement,
+    options: RasterOptions,
+    onProgress?: (progress: RasterProgress) => void
+): Promise<RasterResult> {
+    onProgress?.({ step: 'Copying styles', progress: 0 })
+    const svg = await inlineStyles(svgElement, done => onProgress?.({ step: 'Copying styles', progress: done * 0.5 }))
+
+    onProgress?.({ step: 'Embedding fonts', progress: 0.5 })
+    await embedFonts(svg)
+
+    onProgress?.({ step: 'Rendering', progress: 0.75 })
+    const result = await draw(svg, options)
+
+    onProgress?.({ step: 'Done', progress: 1 })
+    return result
+}
+
+/**
+ * Render Mermaid SVG markup (not on the page) to an image
+ * Mermaid puts its own styles inside the SVG, so only fonts need embedding.
+ */
+export async function rasterizeMarkup(svgMarkup: string, options: RasterOptions): Promise<RasterResult> {
+    const svg = new DOMParser().parseFromString(svgMarkup, 'image/svg+xml').documentElement as unknown as SVGSVGElement
+    await embedFonts(svg)
+    return draw(svg, options)
+}
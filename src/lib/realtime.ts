@@ -0,0 +1,130 @@
+/**
+ * Supabase Realtime helpers
+ * Subscribe to row changes and fold them into locally held repository state
+ */
+
+import type { RealtimePostgresChangesPayload } from '@supabase/supabase-js'
+import { supabase } from './supabase'
+import type { Repository, RepositoryDiagram } from './supabase'
+import { RepositoryService } from './repositories'
+
+export type RepositoryChange = RealtimePostgresChangesPayload<Repository>
+export type DiagramChange = RealtimePostgresChangesPayload<RepositoryDiagram>
+
+export type TableSubscription =
+    | {
+        table: 'repositories'
+        // PostgREST-style filter, e.g. `id=eq.${repoId}`
+        filter?: string
+        onChange: (payload: RepositoryChange) => void
+    }
+    | {
+        table: 'repository_diagrams'
+        filter?: string
+        onChange: (payload: DiagramChange) => void
+    }
+
+// Row payloads carry either the new row or (for deletes) the old primary key
+function changedRow<T>(payload: RealtimePostgresChangesPayload<T & { id: string }>): Partial<T> {
+    return payload.eventType === 'DELETE' ? payload.old : payload.new
+}
+
+// Suffix for channel topics. removeChannel is async and supabase.channel() hands back a
+// topic that is still leaving, whose subscribe() is a no-op, so every channel gets its own.
+let channelCount = 0
+
+/**
+ * Open a realtime channel for one or more tables
+ * Returns an unsubscribe function that removes the channel
+ */
+export function subscribeToChanges(channelName: string, subscriptions: TableSubscription[]): () => void {
+    channelCount += 1
+    const channel = supabase.channel(`${channelName}:${channelCount}`)
+
+    for (const sub of subscriptions) {
+        const filter = { event: '*' as const, schema: 'public', table: sub.table, filter: sub.filter }
+
+        // Whatever changed, the cached copy is now stale
+        if (sub.table === 'repositories') {
+            channel.on<Repository>('postgres_changes', filter, payload => {
+                RepositoryService.invalidate(changedRow(payload).id)
+                sub.onChange(payload)
+            })
+        } else {
+            channel.on<RepositoryDiagram>('postgres_changes', filter, payload => {
+                RepositoryService.invalidate(changedRow(payload).repository_id)
+                sub.onChange(payload)
+            })
+        }
+    }
+
+    channel.subscribe((status, err) => {
+        if (status === 'CHANNEL_ERROR' || status === 'TIMED_OUT') {
+            console.warn(`⚠️ Realtime channel ${channelName} ${status}:`, err)
+        }
+    })
+
+    return () => {
+        supabase.removeChannel(channel)
+    }
+}
+
+/**
+ * Apply a `repositories` row change to a single repository
+ * Returns null when the repository was deleted
+ */
+export function applyRepositoryChange(
+    repo: Repository,
+    payload: RepositoryChange
+): Repository | null {
+    if (payload.eventType === 'DELETE') {
+        return payload.old.id === repo.id ? null : repo
+    }
+    if (payload.new.id !== repo.id) return repo
+    // Row payloads never include joined tables; keep the diagrams we have
+    return { ...repo, ...payload.new, repository_diagrams: repo.repository_diagrams }
+}
+
+/**
+ * Apply a `repositories` row change to a list of repositories
+ * Inserts are prepended (lists are ordered newest first)
+ */
+export function applyRepositoryListChange(
+    repos: Repository[],
+    payload: RepositoryChange
+): Repository[] {
+    if (payload.eventType === 'INSERT') {
+        if (repos.some(r => r.id === payload.new.id)) return repos
+        return [{ ...payload.new, repository_diagrams: [] }, ...repos]
+    }
+    return repos
+        .map(repo => applyRepositoryChange(repo, payload))
+        .filter((repo): repo is Repository => repo !== null)
+}
+
+/**
+ * Apply a `repository_diagrams` row change to the repository that owns it
+ */
+export function applyDiagramChange(
+    repo: Repository,
+    payload: DiagramChange
+): Repository {
+    const diagrams = repo.repository_diagrams ?? []
+
+    if (payload.eventType === 'DELETE') {
+        // DELETE payloads may only carry the primary key
+        if (!diagrams.some(d => d.id === payload.old.id)) return repo
+        return { ...repo, repository_diagrams: diagrams.filter(d => d.id !== payload.old.id) }
+    }
+
+    const diagram = payload.new
+    if (diagram.repository_id !== repo.id) return repo
+
+    const exists = diagrams.some(d => d.id === diagram.id)
+    return {
+        ...repo,
+        repository_diagrams: exists
+            ? diagrams.map(d => (d.id === diagram.id ? diagram : d))
+            : [...diagrams, diagram],
+    }
+}
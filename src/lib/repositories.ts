@@ -0,0 +1,292 @@
+/**
+ * Repository data-access layer
+ * Single source of truth for repository and diagram queries, with
+ * short-lived caching, retries and ApiError classification
+ */
+
+import { supabase } from './supabase'
+import type { Repository, RepositoryDiagram } from './supabase'
+import { runQuery } from './api'
+
+// Fields needed to connect a GitHub repository
+export type ConnectRepositoryInput = Pick<Repository, 'github_repo_id' | 'repo_name' | 'repo_url' | 'repo_owner'>
+
+// Where a diagram's current code came from
+export type DiagramOrigin = Pick<RepositoryDiagram, 'generator' | 'source_ref' | 'source_commit_sha'>
+
+interface QueryOptions {
+    // Bypass the cache and always hit the database
+    force?: boolean
+}
+
+interface CacheEntry {
+    value: unknown
+    expiresAt: number
+}
+
+const CACHE_TTL_MS = 30000
+
+const cache = new Map<string, CacheEntry>()
+
+const cacheKeys = {
+    list: (userId: string) => `list:${userId}`,
+    repo: (repoId: string) => `repo:${repoId}`,
+    diagrams: (repoId: string) => `diagrams:${repoId}`,
+}
+
+function readCache<T>(key: string): T | undefined {
+    const entry = cache.get(key)
+    if (!entry) return undefined
+    if (entry.expiresAt < Date.now()) {
+        cache.delete(key)
+        return undefined
+    }
+    return entry.value as T
+}
+
+function writeCache<T>(key: string, value: T): T {
+    cache.set(key, { value, expiresAt: Date.now() + CACHE_TTL_MS })
+    return value
+}
+
+/**
+ * Drop cached data for a repository (and every list that may contain it)
+ * Call without arguments to clear everything
+ */
+function invalidate(repoId?: string) {
+    if (!repoId) {
+        cache.clear()
+        return
+    }
+    cache.delete(cacheKeys.repo(repoId))
+    cache.delete(cacheKeys.diagrams(repoId))
+    for (const key of cache.keys()) {
+        if (key.startsWith('list:')) cache.delete(key)
+    }
+}
+
+/**
+ * List all repositories for a user, newest first, including their diagrams
+ */
+async function list(userId: string, options: QueryOptions = {}): Promise<Repository[]> {
+    const key = cacheKeys.list(userId)
+    const cached = options.force ? undefined : readCache<Repository[]>(key)
+    if (cached) return cached
+
+    const data = await runQuery<Repository[]>(() =>
+        supabase
+            .from('repositories')
+            .select('*, repository_diagrams(*), diagram_scopes(*)')
+            .eq('user_id', userId)
+            .order('created_at', { ascending: false })
+    )
+    return writeCache(key, data ?? [])
+}
+
+/**
+ * Get a single repository including its diagrams
+ */
+async function get(repoId: string, options: QueryOptions = {}): Promise<Repository> {
+    const key = cacheKeys.repo(repoId)
+    const cached = options.force ? undefined : readCache<Repository>(key)
+    if (cached) return cached
+
+    const data = await runQuery<Repository>(() =>
+        supabase
+            .from('repositories')
+            .select('*, repository_diagrams(*), diagram_scopes(*)')
+            .eq('id', repoId)
+            .single()
+    )
+    return writeCache(key, data)
+}
+
+/**
+ * Connect one or more GitHub repositories to a user account
+ */
+async function connect(userId: string, repos: ConnectRepositoryInput[]): Promise<Repository[]> {
+    if (repos.length === 0) return []
+
+    const data = await runQuery<Repository[]>(() =>
+        supabase
+            .from('repositories')
+            .insert(repos.map(repo => ({
+                user_id: userId,
+                github_repo_id: repo.github_repo_id,
+                repo_name: repo.repo_name,
+                repo_url: repo.repo_url,
+                repo_owner: repo.repo_owner,
+                status: 'pending',
+            })))
+            .select()
+    )
+    cache.delete(cacheKeys.list(userId))
+    return data ?? []
+}
+
+/**
+ * Disconnect a repository (deletes its diagrams and README)
+ */
+async function disconnect(repoId: string): Promise<void> {
+    await runQuery(() =>
+        supabase
+            .from('repositories')
+            .delete()
+            .eq('id', repoId)
+    )
+    invalidate(repoId)
+}
+
+/**
+ * Update the processing status of a repository
+ */
+async function setStatus(repoId: string, status: Repository['status']): Promise<void> {
+    await runQuery(() =>
+        supabase
+            .from('repositories')
+            .update({ status })
+            .eq('id', repoId)
+    )
+    invalidate(repoId)
+}
+
+/**
+ * Save generated README content and mark the repository as scanned
+ */
+async function saveReadme(
+    repoId: string,
+    readmeContent: string,
+    ref: string | null = null,
+    jobId: string | null = null
+): Promise<void> {
+    await runQuery(() =>
+        supabase
+            .from('repositories')
+            .update({
+                readme_content: readmeContent,
+                readme_ref: ref,
+                readme_job_id: jobId,
+                last_scanned_at: new Date().toISOString(),
+            })
+            .eq('id', repoId)
+    )
+    invalidate(repoId)
+}
+
+/**
+ * Record the commit the docs were generated from
+ * The stale marker is only cleared if it points at that commit or at `coveredSha`
+ * (a commit known to be in its history); a push that landed during generation stays flagged.
+ */
+async function markScanned(repoId: string, commitSha: string, coveredSha: string | null = null): Promise<void> {
+    await runQuery(() =>
+        supabase
+            .from('repositories')
+            .update({ last_scanned_sha: commitSha })
+            .eq('id', repoId)
+    )
+    const covered = coveredSha ? [commitSha, coveredSha] : [commitSha]
+    await runQuery(() =>
+        supabase
+            .from('repositories')
+            .update({ stale_since_sha: null, stale_since_at: null })
+            .eq('id', repoId)
+            .in('stale_since_sha', covered)
+    )
+    invalidate(repoId)
+}
+
+/**
+ * Flag a repository as behind its default branch
+ * Only the first new commit is kept, so the badge shows how long it has been stale.
+ */
+async function markStale(repoId: string, commitSha: string): Promise<void> {
+    await runQuery(() =>
+        supabase
+            .from('repositories')
+            .update({
+                stale_since_sha: commitSha,
+                stale_since_at: new Date().toISOString(),
+            })
+            .eq('id', repoId)
+            .is('stale_since_sha', null)
+    )
+    invalidate(repoId)
+}
+
+/**
+ * Overwrite the current code of a repository diagram (restore / manual edit)
+ * `scopeId` is null for the whole-repository diagram of that type.
+ */
+async function saveDiagram(
+    repoId: string,
+    diagramType: RepositoryDiagram['diagram_type'],
+    scopeId: string | null,
+    diagramCode: string,
+    origin: DiagramOrigin
+): Promise<RepositoryDiagram> {
+    const data = await runQuery<RepositoryDiagram>(() => {
+        const query = supabase
+            .from('repository_diagrams')
+            .update({ ...origin, diagram_code: diagramCode, updated_at: new Date().toISOString() })
+            .eq('repository_id', repoId)
+            .eq('diagram_type', diagramType)
+        return (scopeId ? query.eq('scope_id', scopeId) : query.is('scope_id', null)).select().single()
+    })
+    invalidate(repoId)
+    return data
+}
+
+/**
+ * Record which branch, tag or commit a diagram was generated from (by AI)
+ */
+async function setDiagramSource(
+    repoId: string,
+    diagramType: RepositoryDiagram['diagram_type'],
+    scopeId: string | null,
+    ref: string | null,
+    commitSha: string | null
+): Promise<void> {
+    await runQuery(() => {
+        const query = supabase
+            .from('repository_diagrams')
+            .update({ generator: 'ai', source_ref: ref, source_commit_sha: commitSha })
+            .eq('repository_id', repoId)
+            .eq('diagram_type', diagramType)
+        return scopeId ? query.eq('scope_id', scopeId) : query.is('scope_id', null)
+    })
+    invalidate(repoId)
+}
+
+/**
+ * List all diagrams generated for a repository
+ */
+async function listDiagrams(repoId: string, options: QueryOptions = {}): Promise<RepositoryDiagram[]> {
+    const key = cacheKeys.diagrams(repoId)
+    const cached = options.force ? undefined : readCache<RepositoryDiagram[]>(key)
+    if (cached) return cached
+
+    const data = await runQuery<RepositoryDiagram[]>(() =>
+        supabase
+            .from('repository_diagrams')
+            .select('*')
+            .eq('repository_id', repoId)
+            .order('created_at', { ascending: true })
+    )
+    return writeCache(key, data ?? [])
+}
+
+export const RepositoryService = {
+    list,
+    get,
+    connect,
+    disconnect,
+    setStatus,
+    saveReadme,
+    markScanned,
+    markStale,
+    listDiagrams,
+    saveDiagram,
+    setDiagramSource,
+    invalidate,
+}
@@ -0,0 +1,120 @@
+/**
+ * Allow-list sanitizer for Mermaid's SVG output
+ * Diagram source comes from the AI and from user edits, so the rendered SVG is
+ * treated as untrusted: only known SVG/label elements and presentation
+ * attributes survive, event handlers and external references are dropped, and
+ * embedded CSS can't load anything from outside the document.
+ */
+
+const SVG_NS = 'http://www.w3.org/2000/svg'
+
+const SVG_ELEMENTS = new Set([
+    'svg', 'g', 'defs', 'style', 'title', 'desc', 'symbol', 'use', 'marker',
+    'path', 'rect', 'circle', 'ellipse', 'line', 'polyline', 'polygon',
+    'text', 'tspan', 'textpath', 'foreignobject',
+    'lineargradient', 'radialgradient', 'stop', 'clippath', 'mask', 'pattern',
+    'filter', 'fedropshadow', 'fegaussianblur', 'feoffset', 'feflood', 'fecomposite',
+    'femerge', 'femergenode', 'feblend', 'fecolormatrix', 'femorphology',
+])
+
+// HTML Mermaid puts inside foreignObject labels
+const HTML_ELEMENTS = new Set([
+    'div', 'span', 'p', 'br', 'b', 'strong', 'i', 'em', 'u', 's', 'code', 'pre', 'small',
+    'sub', 'sup', 'ul', 'ol', 'li', 'table', 'thead', 'tbody', 'tr', 'th', 'td', 'hr',
+])
+
+const ATTRIBUTES = new Set([
+    'id', 'class', 'style', 'transform', 'name', 'title', 'role', 'xmlns', 'xmlns:xlink', 'version',
+    'viewbox', 'preserveaspectratio', 'width', 'height', 'x', 'y', 'x1', 'x2', 'y1', 'y2',
+    'cx', 'cy', 'r', 'rx', 'ry', 'd', 'points', 'dx', 'dy', 'rotate', 'textlength', 'lengthadjust',
+    'startoffset', 'pathlength', 'fill', 'fill-opacity', 'fill-rule', 'clip-rule', 'stroke',
+    'stroke-width', 'stroke-dasharray', 'stroke-dashoffset', 'stroke-linecap', 'stroke-linejoin',
+    'stroke-miterlimit', 'stroke-opacity', 'opacity', 'visibility', 'display', 'vector-effect',
+    'font-family', 'font-size', 'font-weight', 'font-style', 'letter-spacing', 'text-anchor',
+    'dominant-baseline', 'alignment-baseline', 'baseline-shift', 'clip-path', 'mask', 'filter',
+    'marker-start', 'marker-mid', 'marker-end', 'markerwidth', 'markerheight', 'markerunits',
+    'refx', 'refy', 'orient', 'offset', 'stop-color', 'stop-opacity', 'gradientunits',
+    'gradienttransform', 'patternunits', 'patterncontentunits', 'patterntransform',
+    'clippathunits', 'maskunits', 'maskcontentunits', 'filterunits', 'primitiveunits',
+    'in', 'in2', 'result', 'mode', 'operator', 'values', 'type', 'stddeviation',
+    'flood-color', 'flood-opacity', 'radius', 'k1', 'k2', 'k3', 'k4',
+    'href', 'xlink:href', 'colspan', 'rowspan', 'align',
+])
+
+// Links (e.g. from `click` statements) lose the link but keep what they wrap
+const UNWRAP_ELEMENTS = new Set(['a'])
+
+// Attributes whose value may point somewhere: only same-document fragments are kept
+const REFERENCE_ATTRIBUTES = new Set(['href', 'xlink:href'])
+
+const UNSAFE_VALUE = /javascript:|vbscript:|data:(?!image\/(png|jpe?g|gif|webp);)|expression\s*\(|-moz-binding|behavior\s*:/i
+const EXTERNAL_URL = /url\(\s*(?!['"]?\s*#)[^)]*\)/gi
+
+/**
+ * Neutralize CSS: no @import and no url() outside the document
+ */
+export function sanitizeCss(css: string): string {
+    return css
+        .replace(/@import[^;]*;?/gi, '')
+        .replace(EXTERNAL_URL, 'none')
+        .replace(/expression\s*\(|-moz-binding|behavior\s*:/gi, '')
+}
+
+function allowedElement(element: Element): boolean {
+    const name = element.localName.toLowerCase()
+    return element.namespaceURI === SVG_NS ? SVG_ELEMENTS.has(name) : HTML_ELEMENTS.has(name)
+}
+
+function cleanAttributes(element: Element) {
+    for (const attribute of Array.from(element.attributes)) {
+        const name = attribute.name.toLowerCase()
+        const value = attribute.value
+        const allowed = ATTRIBUTES.has(name) || name.startsWith('data-') || name.startsWith('aria-')
+
+        if (!allowed || name.startsWith('on') || UNSAFE_VALUE.test(value)) {
+            element.removeAttribute(attribute.name)
+        } else if (REFERENCE_ATTRIBUTES.has(name) && !value.startsWith('#')) {
+            element.removeAttribute(attribute.name)
+        } else if (name === 'style' || value.includes('url(')) {
+            element.setAttribute(attribute.name, sanitizeCss(value))
+        }
+    }
+}
+
+function cleanElement(element: Element) {
+    const name = element.localName.toLowerCase()
+    if (UNWRAP_ELEMENTS.has(name)) {
+        const children = Array.from(element.children)
+        element.replaceWith(...Array.from(element.childNodes))
+        children.forEach(cleanElement)
+        return
+    }
+    if (!allowedElement(element)) {
+        element.remove()
+        return
+    }
+
+    cleanAttributes(element)
+    if (name === 'style') {
+        element.textContent = sanitizeCss(element.textContent ?? '')
+    } else {
+        Array.from(element.children).forEach(cleanElement)
+    }
+}
+
+/**
+ * Strip everything from SVG markup that isn't on the allow-list
+ * Parsed into an inert template (nothing loads or runs) and serialized back as
+ * XML, so the result works both as innerHTML and as a standalone .svg file.
+ * Returns an empty string when the markup isn't an SVG at all.
+ */
+export function sanitizeSvg(markup: string): string {
+    const template = document.createElement('template')
+    template.innerHTML = markup
+    const root = template.content.firstElementChild
+    if (!root || root.namespaceURI !== SVG_NS || root.localName !== 'svg') return ''
+
+    cleanAttributes(root)
+    Array.from(root.children).forEach(cleanElement)
+    return new XMLSerializer().serializeToString(root)
+}
@@ -0,0 +1,78 @@
+/**
+ * Diagram scopes
+ * A scope narrows generation to a subdirectory and/or include/exclude globs so
+ * one repository (e.g. a monorepo) can hold a diagram set per package. Diagrams
+ * without a scope cover the whole repository.
+ */
+
+import { supabase } from './supabase'
+import type { DiagramScope, Repository, RepositoryDiagram } from './supabase'
+import { runQuery } from './api'
+import { RepositoryService } from './repositories'
+
+export type NewDiagramScope = Pick<DiagramScope, 'name' | 'path' | 'include' | 'exclude'>
+
+/** Scope chosen when generating: an existing one (null for the whole repository) or one to create */
+export type ScopeSelection = { scopeId: string | null } | { scope: NewDiagramScope }
+
+/**
+ * Diagrams belonging to one scope (null for the whole repository)
+ */
+export function diagramsInScope(repo: Repository, scopeId: string | null): RepositoryDiagram[] {
+    return (repo.repository_diagrams ?? []).filter(d => (d.scope_id ?? null) === scopeId)
+}
+
+export function findDiagram(
+    repo: Repository,
+    diagramType: RepositoryDiagram['diagram_type'],
+    scopeId: string | null
+): RepositoryDiagram | undefined {
+    return diagramsInScope(repo, scopeId).find(d => d.diagram_type === diagramType)
+}
+
+/**
+ * Split a textarea of globs (one per line or comma separated) into a clean list
+ */
+export function parseGlobs(text: string): string[] {
+    return text
+        .split(/[\n,]/)
+        .map(glob => glob.trim())
+        .filter(Boolean)
+}
+
+/**
+ * One-line description of what a scope covers, e.g. "packages/api · 2 include · 1 exclude"
+ */
+export function describeScope(scope: NewDiagramScope): string {
+    return [
+        scope.path || 'Repository root',
+        scope.include.length ? `${scope.include.length} include` : '',
+        scope.exclude.length ? `${scope.exclude.length} exclude` : '',
+    ].filter(Boolean).join(' · ')
+}
+
+/**
+ * Create a scope for a repository
+ */
+async function create(repoId: string, scope: NewDiagramScope, userId: string): Promise<DiagramScope> {
+    const data = await runQuery<DiagramScope>(() =>
+        supabase
+            .from('diagram_scopes')
+            .insert({
+                repository_id: repoId,
+                name: scope.name.trim(),
+                path: scope.path.replace(/^\/+|\/+$/g, ''),
+                include: scope.include,
+                exclude: scope.exclude,
+                created_by: userId,
+            })
+            .select()
+            .single()
+    )
+    RepositoryService.invalidate(repoId)
+    return data
+}
+
+export const ScopeService = {
+    create,
+}
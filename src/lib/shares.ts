@@ -0,0 +1,95 @@
+/**
+ * Public share links
+ * Owners create revocable links (optionally expiring and password protected)
+ * that open a read-only view of a repository's diagrams and README without
+ * an account. Passwords only ever travel to Edge Functions, which hash them:
+ * create-share-link issues the link, and view-shared-link checks it and
+ * counts the view, so anonymous visitors never query tables directly.
+ */
+
+import { supabase } from './supabase'
+import type { RepositoryDiagram, ShareLink } from './supabase'
+import { ApiError, runQuery } from './api'
+
+export interface NewShareLink {
+    expiresAt: string | null
+    password: string | null
+}
+
+export interface SharedRepository {
+    repo_name: string
+    repo_owner: string
+    repo_url: string
+    readme_content: string | null
+    // Whole-repository and scoped diagrams; scope_id is null for the whole repository
+    diagrams: Pick<RepositoryDiagram, 'diagram_type' | 'scope_id' | 'diagram_code' | 'updated_at'>[]
+}
+
+export function shareUrl(link: Pick<ShareLink, 'token'>): string {
+    return `${window.location.origin}/share/${link.token}`
+}
+
+export function isLinkActive(link: ShareLink): boolean {
+    return !link.revoked_at && (!link.expires_at || new Date(link.expires_at).getTime() > Date.now())
+}
+
+/**
+ * List a repository's share links, newest first
+ */
+async function list(repoId: string): Promise<ShareLink[]> {
+    const data = await runQuery<ShareLink[]>(() =>
+        supabase
+            .from('share_links')
+            .select('*')
+            .eq('repository_id', repoId)
+            .order('created_at', { ascending: false })
+    )
+    return data ?? []
+}
+
+/**
+ * Create a new share link for the signed-in user
+ * The Edge Function generates the token and hashes the password server-side.
+ */
+async function create(repoId: string, options: NewShareLink): Promise<ShareLink> {
+    const { data, error } = await supabase.functions.invoke('create-share-link', {
+        body: { repositoryId: repoId, expiresAt: options.expiresAt, password: options.password },
+    })
+    if (error) throw ApiError.fromError(error)
+    return data as ShareLink
+}
+
+/**
+ * Stop a link from working (kept for its view count)
+ */
+async function revoke(linkId: string): Promise<ShareLink> {
+    return runQuery<ShareLink>(() =>
+        supabase
+            .from('share_links')
+            .update({ revoked_at: new Date().toISOString() })
+            .eq('id', linkId)
+            .select()
+            .single()
+    )
+}
+
+/**
+ * Open a shared repository as an anonymous visitor
+ * Throws an ApiError with status 401 when a (correct) password is needed,
+ * and 404/410 when the link does not exist, was revoked or has expired.
+ * Background refreshes (e.g. embeds checking for updates) pass `countView: false`.
+ */
+async function open(token: string, password?: string, options: { countView?: boolean } = {}): Promise<SharedRepository> {
+    const { data, error } = await supabase.functions.invoke('view-shared-link', {
+        body: { token, password, countView: options.countView ?? true },
+    })
+    if (error) throw ApiError.fromError(error)
+    return data as SharedRepository
+}
+
+export const ShareService = {
+    list,
+    create,
+    revoke,
+    open,
+}
@@ -33,6 +33,29 @@ export type Profile = {
     subscription_current_period_end?: string | null
 }
 
+export type Organization = {
+    id: string
+    name: string
+    slug: string
+    avatar_url: string | null
+    owner_id: string
+    created_at: string
+}
+
+export type OrgMember = {
+    id: string
+    org_id: string
+    user_id: string
+    role: 'owner' | 'admin' | 'member' | 'viewer'
+    invited_at: string
+    joined_at: string | null
+    // Joined profile data
+    profile?: {
+        github_username: string
+        avatar_url: string
+    }
+}
+
 export type Repository = {
     id: string
     user_id: string
@@ -43,16 +66,192 @@ export type Repository = {
     diagram_code: string | null
     diagram_type: string | null
     readme_content: string | null
+    // Branch, tag or commit the README was generated from; null for the default branch
+    readme_ref: string | null
+    // Generation job that produced the README (also written by the Edge Function)
+    readme_job_id: string | null
     last_scanned_at: string | null
+    // Commit the diagrams were last generated from
+    last_scanned_sha: string | null
+    // First new commit seen since then (push webhook or polling); null while up to date
+    stale_since_sha: string | null
+    stale_since_at: string | null
     status: 'pending' | 'processing' | 'ready' | 'error'
     created_at: string
     updated_at: string
     // Multi-diagram support: array of all diagrams for this repo
-    repository_diagrams?: Array<{
-        id: string
-        diagram_type: 'flowchart' | 'erd' | 'sequence' | 'component'
-        diagram_code: string
-        created_at: string
-        updated_at: string
-    }>
+    repository_diagrams?: RepositoryDiagram[]
+    // Subdirectories / glob sets with their own diagrams (e.g. packages in a monorepo)
+    diagram_scopes?: DiagramScope[]
+}
+
+export type DiagramScope = {
+    id: string
+    repository_id: string
+    name: string
+    // Subdirectory to analyse, relative to the repository root; '' for the root
+    path: string
+    // Globs relative to the root; an empty include list means everything under `path`
+    include: string[]
+    exclude: string[]
+    created_by: string | null
+    created_at: string
+}
+
+export type RepositoryDiagram = {
+    id: string
+    repository_id: string
+    diagram_type: 'flowchart' | 'erd' | 'sequence' | 'component'
+    // Scope the diagram was generated for; null for the whole repository
+    scope_id: string | null
+    diagram_code: string
+    // Branch, tag or commit the diagram was generated from; null for the default branch
+    source_ref: string | null
+    source_commit_sha: string | null
+    // What produced the current code; null for diagrams saved before this was tracked (AI-generated)
+    generator: DiagramVersion['generator'] | null
+    created_at: string
+    updated_at: string
+}
+
+export type GenerationJob = {
+    id: string
+    user_id: string
+    repository_id: string
+    repo_name: string
+    kind: 'diagram' | 'readme'
+    diagram_type: RepositoryDiagram['diagram_type'] | null
+    // Branch, tag or commit to analyse; null for the default branch
+    ref: string | null
+    // Diagram scope to analyse; null for the whole repository
+    scope_id: string | null
+    status: 'queued' | 'running' | 'failed' | 'done'
+    // Human-readable progress step while running (e.g. "Analyzing repository")
+    step: string | null
+    error: string | null
+    // Browser tab executing or recovering the job, so only one client works on it
+    claimed_by: string | null
+    created_at: string
+    started_at: string | null
+    finished_at: string | null
+}
+
+export type DiagramVersion = {
+    id: string
+    repository_id: string
+    diagram_type: RepositoryDiagram['diagram_type']
+    scope_id: string | null
+    diagram_code: string
+    // What produced this version: AI generation, a manual edit, or a restore of an older version
+    generator: 'ai' | 'manual' | 'restore'
+    source_ref: string | null
+    source_commit_sha: string | null
+    created_by: string | null
+    created_at: string
+}
+
+export type ChatThread = {
+    id: string
+    repository_id: string
+    user_id: string
+    title: string
+    created_at: string
+    updated_at: string
+}
+
+export type ChatMessage = {
+    id: string
+    thread_id: string
+    role: 'user' | 'assistant'
+    content: string
+    created_at: string
+}
+
+export type NodeExplanation = {
+    id: string
+    repository_id: string
+    diagram_type: RepositoryDiagram['diagram_type']
+    // Content hash of the diagram source the explanation was generated for
+    diagram_version: string
+    node_id: string
+    explanation: string
+    created_by: string | null
+    created_at: string
+}
+
+export type DiagramComment = {
+    id: string
+    repository_id: string
+    diagram_type: RepositoryDiagram['diagram_type']
+    scope_id: string | null
+    // Replies point at the comment that opened the thread
+    parent_id: string | null
+    // Pinned to a node by Mermaid ID (survives regeneration) or to canvas coordinates
+    node_id: string | null
+    position_x: number | null
+    position_y: number | null
+    body: string
+    // User IDs @mentioned in the body
+    mentions: string[]
+    author_id: string
+    resolved_at: string | null
+    resolved_by: string | null
+    created_at: string
+    updated_at: string
+    // Joined profile data
+    author?: {
+        github_username: string
+        avatar_url: string
+    }
+}
+
+export type ShareLink = {
+    id: string
+    repository_id: string
+    // Unguessable public identifier used in the /share/:token URL
+    token: string
+    created_by: string
+    expires_at: string | null
+    // bcrypt hash written by the create-share-link Edge Function; checked by view-shared-link
+    password_hash: string | null
+    view_count: number
+    last_viewed_at: string | null
+    revoked_at: string | null
+    created_at: string
+}
+
+export type ThemePreference = {
+    id: string
+    // Exactly one of user_id / org_id is set
+    user_id: string | null
+    org_id: string | null
+    preset: 'dark' | 'light' | 'neutral' | 'high-contrast' | 'brand'
+    // Brand colours, only used by the 'brand' preset
+    brand: {
+        primary: string
+        secondary: string
+        background: string
+        text: string
+        line: string
+    } | null
+    font_family: string
+    updated_by: string | null
+    updated_at: string
+}
+
+export type RefreshSetting = {
+    id: string
+    repository_id: string
+    enabled: boolean
+    // 'webhook' registers a GitHub push hook; 'poll' checks the default branch from the app
+    mode: 'webhook' | 'poll'
+    // GitHub hook id while a webhook is registered
+    webhook_id: number | null
+    // Regenerated automatically when the repository goes stale; none means only mark it stale
+    diagram_types: RepositoryDiagram['diagram_type'][]
+    regenerate_readme: boolean
+    // Stale commit regeneration was last queued for, so each push is handled once
+    queued_sha: string | null
+    updated_by: string | null
+    updated_at: string
 }
@@ -0,0 +1,210 @@
+/**
+ * Diagram themes
+ * A theme is a preset (or brand colours) plus a font. Users and organizations
+ * can each store one; the viewer and every exporter turn it into a Mermaid
+ * theme directive, and exporters also use its palette for backgrounds and
+ * non-Mermaid formats such as draw.io.
+ */
+
+import { supabase } from './supabase'
+import type { ThemePreference } from './supabase'
+import { runQuery } from './api'
+import type { ThemeDirective } from './mermaid'
+
+export type ThemePreset = ThemePreference['preset']
+export type BrandColours = NonNullable<ThemePreference['brand']>
+
+export interface DiagramTheme {
+    preset: ThemePreset
+    brand: BrandColours | null
+    fontFamily: string
+}
+
+// Who a stored theme belongs to
+export type ThemeScope = { userId: string } | { orgId: string }
+
+export interface ThemePalette {
+    background: string
+    nodeFill: string
+    nodeStroke: string
+    text: string
+    line: string
+}
+
+export const THEME_PRESETS: { preset: ThemePreset; label: string; description: string }[] = [
+    { preset: 'dark', label: 'Dark', description: 'Matches the app' },
+    { preset: 'light', label: 'Light', description: 'For light-themed docs' },
+    { preset: 'neutral', label: 'Neutral', description: 'Greyscale, prints well' },
+    { preset: 'high-contrast', label: 'High contrast', description: 'Maximum legibility' },
+    { preset: 'brand', label: 'Brand', description: 'Your own colours' },
+]
+
+export const FONT_CHOICES = [
+    { label: 'JetBrains Mono', value: 'JetBrains Mono, monospace' },
+    { label: 'Inter', value: 'Inter, system-ui, sans-serif' },
+    { label: 'System sans-serif', value: 'system-ui, -apple-system, sans-serif' },
+    { label: 'Serif', value: 'Georgia, serif' },
+]
+
+export const DEFAULT_BRAND: BrandColours = {
+    primary: '#e8f0fe',
+    secondary: '#fef3e8',
+    background: '#ffffff',
+    text: '#1f2937',
+    line: '#2563eb',
+}
+
+export const DEFAULT_THEME: DiagramTheme = {
+    preset: 'dark',
+    brand: null,
+    fontFamily: FONT_CHOICES[0].value,
+}
+
+// Light on white, for exports that usually end up printed or in light docs
+export const PRINT_THEME: DiagramTheme = { ...DEFAULT_THEME, preset: 'light' }
+
+const PALETTES: Record<Exclude<ThemePreset, 'brand'>, ThemePalette> = {
+    'dark': { background: '#1a1d29', nodeFill: '#1f2020', nodeStroke: '#cccccc', text: '#e0e0e0', line: '#d3d3d3' },
+    'light': { background: '#ffffff', nodeFill: '#ececff', nodeStroke: '#9370db', text: '#333333', line: '#333333' },
+    'neutral': { background: '#ffffff', nodeFill: '#eeeeee', nodeStroke: '#999999', text: '#333333', line: '#666666' },
+    'high-contrast': { background: '#000000', nodeFill: '#000000', nodeStroke: '#ffffff', text: '#ffffff', line: '#ffff00' },
+}
+
+const HEX_COLOUR = /^#[0-9a-f]{6}$/i
+
+/**
+ * Colours a theme draws with, for exporters that don't go through Mermaid
+ */
+export function themePalette(theme: DiagramTheme): ThemePalette {
+    if (theme.preset !== 'brand') return PALETTES[theme.preset]
+    const brand = theme.brand ?? DEFAULT_BRAND
+    return { background: brand.background, nodeFill: brand.primary, nodeStroke: brand.line, text: brand.text, line: brand.line }
+}
+
+/**
+ * Mermaid init directive for a theme
+ */
+export function mermaidTheme(theme: DiagramTheme): ThemeDirective {
+    const fontFamily = theme.fontFamily
+    switch (theme.preset) {
+        case 'dark':
+            return { theme: 'dark', themeVariables: { fontFamily } }
+        case 'light':
+            return { theme: 'default', themeVariables: { fontFamily } }
+        case 'neutral':
+            return { theme: 'neutral', themeVariables: { fontFamily } }
+        case 'high-contrast': {
+            const p = PALETTES['high-contrast']
+            return {
+                theme: 'base',
+                themeVariables: {
+                    fontFamily,
+                    darkMode: true,
+                    fontSize: '16px',
+                    background: p.background,
+                    mainBkg: p.nodeFill,
+                    primaryColor: p.nodeFill,
+                    primaryTextColor: p.text,
+                    primaryBorderColor: p.nodeStroke,
+                    secondaryColor: p.nodeFill,
+                    tertiaryColor: p.nodeFill,
+                    textColor: p.text,
+                    lineColor: p.line,
+                    nodeBorder: p.nodeStroke,
+                    clusterBkg: p.background,
+                    clusterBorder: p.nodeStroke,
+                    edgeLabelBackground: p.background,
+                    actorBkg: p.nodeFill,
+                    actorBorder: p.nodeStroke,
+                    actorTextColor: p.text,
+                    signalColor: p.line,
+                    signalTextColor: p.text,
+                },
+            }
+        }
+        case 'brand': {
+            const brand = theme.brand ?? DEFAULT_BRAND
+            return {
+                theme: 'base',
+                themeVariables: {
+                    fontFamily,
+                    background: brand.background,
+                    primaryColor: brand.primary,
+                    primaryTextColor: brand.text,
+                    primaryBorderColor: brand.line,
+                    secondaryColor: brand.secondary,
+                    tertiaryColor: brand.background,
+                    textColor: brand.text,
+                    lineColor: brand.line,
+                },
+            }
+        }
+    }
+}
+
+/**
+ * Brand colours are written into Mermaid's CSS, so only plain hex colours are accepted
+ */
+export function isValidBrand(brand: BrandColours): boolean {
+    return Object.values(brand).every(colour => HEX_COLOUR.test(colour))
+}
+
+function toTheme(row: ThemePreference): DiagramTheme {
+    return {
+        preset: row.preset,
+        brand: row.brand && isValidBrand(row.brand) ? row.brand : null,
+        fontFamily: FONT_CHOICES.some(f => f.value === row.font_family) ? row.font_family : DEFAULT_THEME.fontFamily,
+    }
+}
+
+/**
+ * The theme stored for a user or organization, or null if none
+ */
+async function get(scope: ThemeScope): Promise<DiagramTheme | null> {
+    const row = await runQuery<ThemePreference | null>(() => {
+        const query = supabase.from('theme_preferences').select('*')
+        return ('userId' in scope ? query.eq('user_id', scope.userId) : query.eq('org_id', scope.orgId)).maybeSingle()
+    })
+    return row ? toTheme(row) : null
+}
+
+/**
+ * Store (or replace) the theme for a user or organization
+ */
+async function save(scope: ThemeScope, theme: DiagramTheme, updatedBy: string): Promise<DiagramTheme> {
+    if (theme.preset === 'brand' && theme.brand && !isValidBrand(theme.brand)) {
+        throw new Error('Brand colours must be hex colours like #1f2937')
+    }
+    const row = await runQuery<ThemePreference>(() =>
+        supabase
+            .from('theme_preferences')
+            .upsert({
+                user_id: 'userId' in scope ? scope.userId : null,
+                org_id: 'orgId' in scope ? scope.orgId : null,
+                preset: theme.preset,
+                brand: theme.preset === 'brand' ? theme.brand ?? DEFAULT_BRAND : null,
+                font_family: theme.fontFamily,
+                updated_by: updatedBy,
+                updated_at: new Date().toISOString(),
+            }, { onConflict: 'userId' in scope ? 'user_id' : 'org_id' })
+            .select()
+            .single()
+    )
+    return toTheme(row)
+}
+
+/**
+ * Remove a stored theme, falling back to the organization's (or the default)
+ */
+async function clear(scope: ThemeScope): Promise<void> {
+    await runQuery(() => {
+        const query = supabase.from('theme_preferences').delete()
+        return 'userId' in scope ? query.eq('user_id', scope.userId) : query.eq('org_id', scope.orgId)
+    })
+}
+
+export const ThemeService = {
+    get,
+    save,
+    clear,
+}
@@ -28,6 +28,7 @@ export const showToast = {
     success: (message: string) => toast.success(message, toastOptions),
     error: (message: string) => toast.error(message, toastOptions),
     loading: (message: string) => toast.loading(message, toastOptions),
+    dismiss: (id?: string) => toast.dismiss(id),
     promise: <T,>(
         promise: Promise<T>,
         messages: {
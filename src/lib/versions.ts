@@ -0,0 +1,137 @@
+/**
+ * Diagram version history
+ * Every generation, manual edit and restore is kept as an immutable version
+ * so regenerating never destroys the previous picture
+ */
+
+import { supabase } from './supabase'
+import type { DiagramVersion, RepositoryDiagram } from './supabase'
+import { runQuery } from './api'
+import { RepositoryService } from './repositories'
+
+export type NewDiagramVersion = Pick<DiagramVersion, 'repository_id' | 'diagram_type' | 'diagram_code' | 'generator'> &
+    Partial<Pick<DiagramVersion, 'scope_id' | 'source_ref' | 'source_commit_sha' | 'created_by' | 'created_at'>>
+
+/**
+ * List versions of one diagram type in one scope (null for the whole repository), newest first
+ */
+async function list(
+    repoId: string,
+    diagramType: RepositoryDiagram['diagram_type'],
+    scopeId: string | null = null
+): Promise<DiagramVersion[]> {
+    const data = await runQuery<DiagramVersion[]>(() => {
+        const query = supabase
+            .from('diagram_versions')
+            .select('*')
+            .eq('repository_id', repoId)
+            .eq('diagram_type', diagramType)
+        return (scopeId ? query.eq('scope_id', scopeId) : query.is('scope_id', null))
+            .order('created_at', { ascending: false })
+    })
+    return data ?? []
+}
+
+/**
+ * Record a new version
+ */
+async function record(version: NewDiagramVersion): Promise<DiagramVersion> {
+    return runQuery<DiagramVersion>(() =>
+        supabase
+            .from('diagram_versions')
+            .insert(version)
+            .select()
+            .single()
+    )
+}
+
+/**
+ * Make sure the current diagram is in the history before it gets overwritten.
+ * Diagrams generated before versioning existed have no version row yet.
+ */
+async function snapshot(diagram: RepositoryDiagram, userId: string | null): Promise<void> {
+    const scopeId = diagram.scope_id ?? null
+    const latest = await runQuery<DiagramVersion | null>(() => {
+        const query = supabase
+            .from('diagram_versions')
+            .select('*')
+            .eq('repository_id', diagram.repository_id)
+            .eq('diagram_type', diagram.diagram_type)
+        return (scopeId ? query.eq('scope_id', scopeId) : query.is('scope_id', null))
+            .order('created_at', { ascending: false })
+            .limit(1)
+            .maybeSingle()
+    })
+    if (latest?.diagram_code === diagram.diagram_code) return
+
+    await record({
+        repository_id: diagram.repository_id,
+        diagram_type: diagram.diagram_type,
+        scope_id: scopeId,
+        diagram_code: diagram.diagram_code,
+        generator: diagram.generator ?? 'ai',
+        source_ref: diagram.source_ref ?? null,
+        source_commit_sha: diagram.source_commit_sha ?? null,
+        created_by: userId,
+        created_at: diagram.updated_at,
+    })
+}
+
+/**
+ * Make an older version current again (recorded as a new "restore" version)
+ */
+async function restore(version: DiagramVersion, userId: string | null): Promise<RepositoryDiagram> {
+    const scopeId = version.scope_id ?? null
+    const diagrams = await RepositoryService.listDiagrams(version.repository_id, { force: true })
+    const current = diagrams.find(d => d.diagram_type === version.diagram_type && (d.scope_id ?? null) === scopeId)
+    if (current) await snapshot(current, userId)
+
+    const diagram = await RepositoryService.saveDiagram(version.repository_id, version.diagram_type, scopeId, version.diagram_code, {
+        generator: 'restore',
+        source_ref: version.source_ref,
+        source_commit_sha: version.source_commit_sha,
+    })
+    await record({
+        repository_id: version.repository_id,
+        diagram_type: version.diagram_type,
+        scope_id: scopeId,
+        diagram_code: version.diagram_code,
+        generator: 'restore',
+        source_ref: version.source_ref,
+        source_commit_sha: version.source_commit_sha,
+        created_by: userId,
+    })
+    return diagram
+}
+
+/**
+ * Save a hand-edited diagram as the current one and as a "manual" version
+ */
+async function saveEdit(diagram: RepositoryDiagram, code: string, userId: string | null): Promise<RepositoryDiagram> {
+    await snapshot(diagram, userId)
+    const scopeId = diagram.scope_id ?? null
+    // An edit keeps the source of the diagram it started from
+    const origin = {
+        generator: 'manual' as const,
+        source_ref: diagram.source_ref ?? null,
+        source_commit_sha: diagram.source_commit_sha ?? null,
+    }
+    const saved = await RepositoryService.saveDiagram(diagram.repository_id, diagram.diagram_type, scopeId, code, origin)
+    await record({
+        repository_id: diagram.repository_id,
+        diagram_type: diagram.diagram_type,
+        scope_id: scopeId,
+        diagram_code: code,
+        ...origin,
+        created_by: userId,
+    })
+    return saved
+}
+
+export const VersionService = {
+    list,
+    record,
+    snapshot,
+    restore,
+    saveEdit,
+}
@@ -0,0 +1,90 @@
+/**
+ * Pan/zoom geometry for the diagram canvas
+ *
+ * The canvas is laid out centred in its container and transformed with
+ * `translate(pan) scale(zoom)` around its own centre. "Local" coordinates are
+ * unscaled pixels from the canvas top-left; anchors are relative to the
+ * container centre.
+ */
+
+export interface Point {
+    x: number
+    y: number
+}
+
+export interface Size {
+    width: number
+    height: number
+}
+
+export interface Rect extends Point, Size {}
+
+export interface ViewState {
+    zoom: number
+    pan: Point
+}
+
+export const MIN_ZOOM = 0.1
+export const MAX_ZOOM = 4
+
+export function clampZoom(zoom: number): number {
+    return Math.min(Math.max(zoom, MIN_ZOOM), MAX_ZOOM)
+}
+
+/**
+ * Zoom by a factor while keeping the point under `anchor` fixed on screen
+ */
+export function zoomAt(view: ViewState, factor: number, anchor: Point): ViewState {
+    const zoom = clampZoom(view.zoom * factor)
+    const ratio = zoom / view.zoom
+    return {
+        zoom,
+        pan: {
+            x: anchor.x - ratio * (anchor.x - view.pan.x),
+            y: anchor.y - ratio * (anchor.y - view.pan.y),
+        },
+    }
+}
+
+/**
+ * Pan that puts a local point in the middle of the viewport
+ */
+export function centreOn(point: Point, canvas: Size, zoom: number): Point {
+    return {
+        x: -zoom * (point.x - canvas.width / 2),
+        y: -zoom * (point.y - canvas.height / 2),
+    }
+}
+
+/**
+ * Largest view that shows the whole of `bounds` with a margin around it
+ */
+export function fitView(bounds: Rect, canvas: Size, viewport: Size, margin = 32): ViewState {
+    const zoom = clampZoom(Math.min(
+        (viewport.width - margin * 2) / Math.max(bounds.width, 1),
+        (viewport.height - margin * 2) / Math.max(bounds.height, 1)
+    ))
+    const centre = { x: bounds.x + bounds.width / 2, y: bounds.y + bounds.height / 2 }
+    return { zoom, pan: centreOn(centre, canvas, zoom) }
+}
+
+/**
+ * The part of the canvas currently visible in the viewport, in local coordinates
+ */
+export function visibleRect(view: ViewState, canvas: Size, viewport: Size): Rect {
+    const toLocal = (screen: number, size: number, pan: number, local: number) =>
+        (screen - size / 2 - pan) / view.zoom + local / 2
+    const x = toLocal(0, viewport.width, view.pan.x, canvas.width)
+    const y = toLocal(0, viewport.height, view.pan.y, canvas.height)
+    return { x, y, width: viewport.width / view.zoom, height: viewport.height / view.zoom }
+}
+
+/**
+ * Where a local point appears in the viewport, relative to the viewport's top-left
+ */
+export function toViewport(point: Point, view: ViewState, canvas: Size, viewport: Size): Point {
+    return {
+        x: viewport.width / 2 + view.pan.x + (point.x - canvas.width / 2) * view.zoom,
+        y: viewport.height / 2 + view.pan.y + (point.y - canvas.height / 2) * view.zoom,
+    }
+}
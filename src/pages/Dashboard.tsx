@@ -1,10 +1,18 @@
 import { useState, useEffect, useMemo } from 'react'
 import { useNavigate } from 'react-router-dom'
 import { useAuth } from '../hooks/useAuth'
-import { supabase } from '../lib/supabase'
+import { useJobs } from '../hooks/useJobs'
+import { useRealtime } from '../hooks/useRealtime'
+import { useDiagramTheme } from '../hooks/useDiagramTheme'
+import { useAutoRefresh } from '../hooks/useAutoRefresh'
 import type { Repository } from '../lib/supabase'
+import { RepositoryService } from '../lib/repositories'
+import { ScopeService, diagramsInScope, type ScopeSelection } from '../lib/scopes'
+import { applyDiagramChange, applyRepositoryListChange } from '../lib/realtime'
 import { showToast } from '../lib/toast'
-import { getUserFriendlyErrorMessage, withRetry } from '../lib/api'
+import { getUserFriendlyErrorMessage } from '../lib/api'
+import { GitHubService, shortSha, type GitHubRepo } from '../lib/github'
+import { downloadBundle, hasBundleContent } from '../lib/bundle'
 import { trackEvent, AnalyticsEvents } from '../lib/analytics'
 import { RepoCardSkeleton } from '../components/Skeleton'
 import { ConfirmModal } from '../components/ConfirmModal'
@@ -13,35 +21,25 @@ import type { DiagramType } from '../components/DiagramTypeSelector'
 import { SearchBar } from '../components/SearchBar'
 import { ErrorMessage } from '../components/ErrorMessage'
 import { OrgSwitcher } from '../components/OrgSwitcher'
-import { GitBranch, FileText, RefreshCw, Plus, LogOut, Zap, Check, Trash2 } from 'lucide-react'
+import { AutoRefreshModal } from '../components/AutoRefreshModal'
+import { GitBranch, FileText, RefreshCw, Plus, LogOut, Zap, Check, Trash2, Archive, GitCommit, Webhook } from 'lucide-react'
 
 
-interface GitHubRepo {
-    id: number
-    name: string
-    full_name: string
-    html_url: string
-    owner: {
-        login: string
-    }
-    private: boolean
-    description: string | null
-}
-
 // Limit constants (Free Tier)
 const FREE_DIAGRAM_LIMIT = 3
 const FREE_README_LIMIT = 3
 
 export function Dashboard() {
-    const { user, profile, signOut, session, refreshProfile } = useAuth()
+    const { user, profile, signOut, session } = useAuth()
+    const { submitDiagramJob, submitReadmeJob, activeJobFor, lastFinishedJob } = useJobs()
     const navigate = useNavigate()
+    const { theme: diagramTheme } = useDiagramTheme()
     const [connectedRepos, setConnectedRepos] = useState<Repository[]>([])
     const [availableRepos, setAvailableRepos] = useState<GitHubRepo[]>([])
     const [showRepoSelector, setShowRepoSelector] = useState(false)
     const [selectedRepos, setSelectedRepos] = useState<number[]>([])
     const [initializing, setInitializing] = useState(true)
     const [fetchingRepos, setFetchingRepos] = useState(false)
-    const [processingRepos, setProcessingRepos] = useState<Set<string>>(new Set())
     const [deleteConfirm, setDeleteConfirm] = useState<{ show: boolean; repo: Repository | null }>({
         show: false,
         repo: null,
@@ -50,6 +48,9 @@ export function Dashboard() {
         show: false,
         repo: null,
     })
+    const [exportingRepoId, setExportingRepoId] = useState<string | null>(null)
+    const [autoRefreshRepo, setAutoRefreshRepo] = useState<Repository | null>(null)
+    const autoRefresh = useAutoRefresh(connectedRepos)
 
     // Search, filter, and sort states
     const [searchQuery, setSearchQuery] = useState('')
@@ -65,24 +66,38 @@ export function Dashboard() {
         }
     }, [user])
 
-    const fetchConnectedRepos = async () => {
+    // Pick up results (and error statuses) from background generation jobs.
+    // Realtime usually delivers them already, so refetch quietly without the skeleton.
+    useEffect(() => {
+        if (!user || !lastFinishedJob) return
+        RepositoryService.list(user.id, { force: true })
+            .then(setConnectedRepos)
+            .catch(err => console.error('Failed to refresh repositories:', err))
+    }, [lastFinishedJob, user])
+
+    // Live status and diagram updates from other tabs, teammates and webhooks
+    useRealtime(user ? `dashboard:${user.id}` : null, [
+        {
+            table: 'repositories',
+            filter: user ? `user_id=eq.${user.id}` : undefined,
+            onChange: payload => setConnectedRepos(prev => applyRepositoryListChange(prev, payload)),
+        },
+        {
+            // RLS limits these events to the user's own repositories
+            table: 'repository_diagrams',
+            onChange: payload => setConnectedRepos(prev => prev.map(repo => applyDiagramChange(repo, payload))),
+        },
+    ])
+
+    const fetchConnectedRepos = async (force = false) => {
         if (!user) return
 
         setFetchingRepos(true)
         setError(null)
 
         try {
-            const { data, error: supabaseError } = await supabase
-                .from('repositories')
-                .select(`
-                    *,
-                    repository_diagrams(*)
-                `)
-                .eq('user_id', user.id)
-                .order('created_at', { ascending: false })
-
-            if (supabaseError) throw supabaseError
-            if (data) setConnectedRepos(data)
+            const repos = await RepositoryService.list(user.id, { force })
+            setConnectedRepos(repos)
         } catch (err) {
             const message = getUserFriendlyErrorMessage(err)
             setError(message)
@@ -101,23 +116,7 @@ export function Dashboard() {
         }
 
         try {
-            const response = await withRetry(
-                async () => {
-                    const res = await fetch('https://api.github.com/user/repos?per_page=100&sort=updated', {
-                        headers: {
-                            Authorization: `Bearer ${session.provider_token}`,
-                            Accept: 'application/vnd.github.v3+json',
-                        },
-                    })
-                    if (!res.ok) {
-                        throw new Error(`GitHub API error: ${res.status}`)
-                    }
-                    return res
-                },
-                { maxRetries: 2 }
-            )
-
-            const repos: GitHubRepo[] = await response.json()
+            const repos = await GitHubService.listUserRepos(session.provider_token)
             // Filter out already connected repos
             const connectedIds = connectedRepos.map(r => r.github_repo_id)
             const available = repos.filter(r => !connectedIds.includes(r.id))
@@ -135,23 +134,31 @@ export function Dashboard() {
 
         const reposToConnect = availableRepos.filter(r => selectedRepos.includes(r.id))
 
-        for (const repo of reposToConnect) {
-            await supabase.from('repositories').insert({
-                user_id: user.id,
+        try {
+            await RepositoryService.connect(user.id, reposToConnect.map(repo => ({
                 github_repo_id: repo.id,
                 repo_name: repo.name,
                 repo_url: repo.html_url,
                 repo_owner: repo.owner.login,
-                status: 'pending',
-            })
+            })))
+            trackEvent(AnalyticsEvents.CONNECT_REPO, { count: reposToConnect.length })
+        } catch (err) {
+            console.error('Failed to connect repositories:', err)
+            showToast.error(getUserFriendlyErrorMessage(err))
+            return
         }
 
         setSelectedRepos([])
         setShowRepoSelector(false)
-        fetchConnectedRepos()
+        fetchConnectedRepos(true)
     }
 
-    const generateDiagram = async (repo: Repository, diagramType: DiagramType = 'flowchart') => {
+    const generateDiagram = (
+        repo: Repository,
+        diagramType: DiagramType = 'flowchart',
+        ref: string | null = null,
+        scopeId: string | null = null
+    ) => {
         if (!session?.provider_token || !profile) return
 
         // Check beta limit (DISABLED FOR TESTING)
@@ -160,59 +167,38 @@ export function Dashboard() {
         //     return
         // }
 
-        setProcessingRepos(prev => new Set(prev).add(repo.id))
+        // Runs in the background; progress shows in the job tray
+        submitDiagramJob(repo, diagramType, ref, scopeId)
+    }
 
-        try {
-            // Update status to processing
-            await supabase
-                .from('repositories')
-                .update({ status: 'processing' })
-                .eq('id', repo.id)
-
-            // Call Edge Function to generate diagram
-            const { error } = await supabase.functions.invoke('generate-diagram', {
-                headers: {
-                    Authorization: `Bearer ${session.access_token}`,
-                },
-                body: {
-                    repoOwner: repo.repo_owner,
-                    repoName: repo.repo_name,
-                    githubToken: session.provider_token,
-                    diagramType,
-                },
-            })
-
-            if (error) throw error
-
-            // Backend already saved to repository_diagrams table
-            // Just refresh to get the updated data
-            await fetchConnectedRepos()
-            await refreshProfile() // Update UI counter
-            showToast.success('Diagram generated successfully!')
-
-            // Track analytics event
-            trackEvent(AnalyticsEvents.GENERATE_DIAGRAM, {
-                repo: repo.repo_name,
-                success: 1
-            })
-        } catch (err) {
-            console.error('Failed to generate diagram:', err)
-            const message = getUserFriendlyErrorMessage(err)
-            showToast.error(message)
-            await supabase
-                .from('repositories')
-                .update({ status: 'error' })
-                .eq('id', repo.id)
-        } finally {
-            setProcessingRepos(prev => {
-                const next = new Set(prev)
-                next.delete(repo.id)
-                return next
-            })
+    const handleGenerateFromModal = async (diagramType: DiagramType, ref: string | null, selection: ScopeSelection) => {
+        const repo = diagramModal.repo
+        if (!repo || !user) return
+
+        if ('scope' in selection) {
+            let scope
+            try {
+                scope = await ScopeService.create(repo.id, selection.scope, user.id)
+            } catch (err) {
+                console.error('Failed to create diagram scope:', err)
+                showToast.error(getUserFriendlyErrorMessage(err))
+                return
+            }
+            // The job reads the scope's path and globs from the repository it's given
+            const scopedRepo = { ...repo, diagram_scopes: [...(repo.diagram_scopes ?? []), scope] }
+            setConnectedRepos(prev => prev.map(r => r.id === repo.id
+                ? { ...r, diagram_scopes: scopedRepo.diagram_scopes }
+                : r))
+            generateDiagram(scopedRepo, diagramType, ref, scope.id)
+        } else {
+            generateDiagram(repo, diagramType, ref, selection.scopeId)
         }
+
+        // Close modal after starting generation
+        setDiagramModal({ show: false, repo: null })
     }
 
-    const generateReadme = async (repo: Repository) => {
+    const generateReadme = (repo: Repository) => {
         if (!session?.provider_token || !profile) return
 
         // Check beta limit (DISABLED FOR TESTING)
@@ -221,58 +207,7 @@ export function Dashboard() {
         //     return
         // }
 
-        setProcessingRepos(prev => new Set(prev).add(repo.id))
-
-        try {
-            // Call Edge Function to generate README
-            const { data, error } = await supabase.functions.invoke('generate-readme', {
-                headers: {
-                    Authorization: `Bearer ${session.access_token}`,
-                },
-                body: {
-                    repoOwner: repo.repo_owner,
-                    repoName: repo.repo_name,
-                    githubToken: session.provider_token,
-                },
-            })
-
-            if (error) throw error
-
-            // Update repository with README
-            await supabase
-                .from('repositories')
-                .update({
-                    readme_content: data.readmeContent,
-                    last_scanned_at: new Date().toISOString(),
-                })
-                .eq('id', repo.id)
-
-            // Increment README count
-            await supabase
-                .from('profiles')
-                .update({ readmes_generated: profile.readmes_generated + 1 })
-                .eq('id', user!.id)
-
-            fetchConnectedRepos()
-            await refreshProfile() // Update UI counter
-            showToast.success('README generated successfully!')
-
-            // Track analytics event
-            trackEvent(AnalyticsEvents.GENERATE_README, {
-                repo: repo.repo_name,
-                success: 1
-            })
-        } catch (err) {
-            console.error('Failed to generate README:', err)
-            const message = getUserFriendlyErrorMessage(err)
-            showToast.error(message)
-        } finally {
-            setProcessingRepos(prev => {
-                const next = new Set(prev)
-                next.delete(repo.id)
-                return next
-            })
-        }
+        submitReadmeJob(repo)
     }
 
     const toggleRepoSelection = (repoId: number) => {
@@ -287,21 +222,33 @@ export function Dashboard() {
         if (!deleteConfirm.repo) return
 
         try {
-            await supabase
-                .from('repositories')
-                .delete()
-                .eq('id', deleteConfirm.repo.id)
+            await RepositoryService.disconnect(deleteConfirm.repo.id)
 
             showToast.success('Repository disconnected successfully!')
-            fetchConnectedRepos()
+            trackEvent(AnalyticsEvents.DELETE_REPO, { repo: deleteConfirm.repo.repo_name })
+            fetchConnectedRepos(true)
         } catch (error) {
             console.error('Failed to delete repository:', error)
-            showToast.error('Failed to disconnect repository')
+            showToast.error(getUserFriendlyErrorMessage(error))
         } finally {
             setDeleteConfirm({ show: false, repo: null })
         }
     }
 
+    const handleExportAll = async (repo: Repository) => {
+        setExportingRepoId(repo.id)
+        try {
+            await downloadBundle(repo, diagramTheme)
+            showToast.success('Documentation exported as ZIP!')
+            trackEvent(AnalyticsEvents.EXPORT_DIAGRAM, { format: 'zip', repo: repo.repo_name })
+        } catch (error) {
+            console.error('Export failed:', error)
+            showToast.error('Failed to export documentation')
+        } finally {
+            setExportingRepoId(null)
+        }
+    }
+
     const handleSignOut = async () => {
         // Clear session and navigate to login
         await signOut()
@@ -460,7 +407,7 @@ export function Dashboard() {
                     <ErrorMessage
                         title="Failed to Load Repositories"
                         message={error}
-                        onRetry={fetchConnectedRepos}
+                        onRetry={() => fetchConnectedRepos(true)}
                         showRetry={true}
                     />
                 )}
@@ -532,111 +479,157 @@ export function Dashboard() {
                             <p>No repositories match your current filters. Try adjusting your search or filters.</p>
                         </div>
                     ) : (
-                        filteredAndSortedRepos.map(repo => (
-                            <div key={repo.id} className="repo-card">
-                                <div className="repo-card-header">
-                                    <GitBranch size={24} />
-                                    <div>
-                                        <h3>{repo.repo_name}</h3>
-                                        <span className="repo-owner">@{repo.repo_owner}</span>
+                        filteredAndSortedRepos.map(repo => {
+                            const diagramJob = activeJobFor(repo.id, 'diagram')
+                            const readmeJob = activeJobFor(repo.id, 'readme')
+
+                            return (
+                                <div key={repo.id} className="repo-card">
+                                    <div className="repo-card-header">
+                                        <GitBranch size={24} />
+                                        <div>
+                                            <h3>{repo.repo_name}</h3>
+                                            <span className="repo-owner">@{repo.repo_owner}</span>
+                                        </div>
+                                        <span
+                                            className={`status-badge ${repo.status}`}
+                                            title={repo.status === 'error' ? 'Scan failed - click Update Diagram to retry' : `Status: ${repo.status}`}
+                                        >
+                                            {repo.status}
+                                        </span>
                                     </div>
-                                    <span
-                                        className={`status-badge ${repo.status}`}
-                                        title={repo.status === 'error' ? 'Scan failed - click Update Diagram to retry' : `Status: ${repo.status}`}
-                                    >
-                                        {repo.status}
-                                    </span>
-                                </div>
 
-                                {repo.last_scanned_at && (
-                                    <p className="last-scanned">
-                                        Last scanned: {new Date(repo.last_scanned_at).toLocaleDateString()}
-                                    </p>
-                                )}
+                                    {repo.last_scanned_at && (
+                                        <p className="last-scanned">
+                                            Last scanned: {new Date(repo.last_scanned_at).toLocaleDateString()}
+                                        </p>
+                                    )}
 
-                                <div className="repo-card-actions">
-                                    {/* Diagram Actions - Show count or generate button */}
-                                    {repo.repository_diagrams && repo.repository_diagrams.length > 0 ? (
-                                        <button
-                                            className="view-btn"
-                                            onClick={() => navigate(`/repository/${repo.id}`)}
-                                            aria-label={`View diagrams for ${repo.repo_name}`}
+                                    {repo.stale_since_sha && (
+                                        <p
+                                            className="stale-badge"
+                                            title={repo.stale_since_at ? `New commits since ${new Date(repo.stale_since_at).toLocaleString()}` : 'New commits since the last scan'}
                                         >
-                                            <FileText size={18} />
-                                            {repo.repository_diagrams.length}/4 Diagrams
-                                        </button>
-                                    ) : null}
-
-                                    {/* Always show Generate/Add button */}
-                                    <button
-                                        className={repo.repository_diagrams?.length ? "generate-btn secondary" : "generate-btn"}
-                                        onClick={() => setDiagramModal({ show: true, repo })}
-                                        disabled={processingRepos.has(repo.id)}
-                                        aria-label={repo.repository_diagrams?.length ? `Add more diagrams for ${repo.repo_name}` : `Generate diagram for ${repo.repo_name}`}
-                                    >
-                                        {processingRepos.has(repo.id) ? (
-                                            <>
-                                                <RefreshCw size={18} className="spinning" />
-                                                Generating...
-                                            </>
-                                        ) : (
-                                            <>
-                                                <Zap size={18} />
-                                                {repo.repository_diagrams?.length ? 'Add Diagram' : 'Generate Diagram'}
-                                            </>
-                                        )}
-                                    </button>
+                                            <GitCommit size={14} />
+                                            Stale since commit
+                                            <a
+                                                href={GitHubService.commitUrl(repo.repo_owner, repo.repo_name, repo.stale_since_sha)}
+                                                target="_blank"
+                                                rel="noopener noreferrer"
+                                            >
+                                                {shortSha(repo.stale_since_sha)}
+                                            </a>
+                                        </p>
+                                    )}
 
-                                    {repo.readme_content ? (
+                                    <div className="repo-card-actions">
+                                        {/* Diagram Actions - Show count or generate button */}
+                                        {repo.repository_diagrams && repo.repository_diagrams.length > 0 ? (
+                                            <button
+                                                className="view-btn"
+                                                onClick={() => navigate(`/repository/${repo.id}`)}
+                                                aria-label={`View diagrams for ${repo.repo_name}`}
+                                            >
+                                                <FileText size={18} />
+                                                {diagramsInScope(repo, null).length}/4 Diagrams
+                                                {repo.diagram_scopes?.length ? ` · ${repo.diagram_scopes.length} ${repo.diagram_scopes.length === 1 ? 'scope' : 'scopes'}` : ''}
+                                            </button>
+                                        ) : null}
+
+                                        {/* Always show Generate/Add button */}
                                         <button
-                                            className="view-btn secondary"
-                                            onClick={() => navigate(`/repository/${repo.id}/readme`)}
+                                            className={repo.repository_diagrams?.length ? "generate-btn secondary" : "generate-btn"}
+                                            onClick={() => setDiagramModal({ show: true, repo })}
+                                            disabled={!!diagramJob}
+                                            aria-label={repo.repository_diagrams?.length ? `Add more diagrams for ${repo.repo_name}` : `Generate diagram for ${repo.repo_name}`}
                                         >
-                                            <FileText size={18} />
-                                            View README
-                                        </button>
-                                    ) : (
-                                        <button
-                                            className="generate-btn secondary"
-                                            onClick={() => generateReadme(repo)}
-                                            disabled={processingRepos.has(repo.id)}
-                                        >
-                                            {processingRepos.has(repo.id) ? (
+                                            {diagramJob ? (
                                                 <>
                                                     <RefreshCw size={18} className="spinning" />
-                                                    Generating...
+                                                    {diagramJob.status === 'queued' ? 'Queued...' : 'Generating...'}
                                                 </>
                                             ) : (
                                                 <>
-                                                    <FileText size={18} />
-                                                    Generate README
+                                                    <Zap size={18} />
+                                                    {repo.repository_diagrams?.length ? 'Add Diagram' : 'Generate Diagram'}
                                                 </>
                                             )}
                                         </button>
-                                    )}
-                                </div>
 
-                                {repo.diagram_code && (
-                                    <>
-                                        <button
-                                            className="update-btn"
-                                            onClick={() => generateDiagram(repo)}
-                                            disabled={processingRepos.has(repo.id)}
-                                        >
-                                            <RefreshCw size={16} />
-                                            Update Diagram
-                                        </button>
+                                        {repo.readme_content ? (
+                                            <button
+                                                className="view-btn secondary"
+                                                onClick={() => navigate(`/repository/${repo.id}/readme`)}
+                                            >
+                                                <FileText size={18} />
+                                                View README
+                                            </button>
+                                        ) : (
+                                            <button
+                                                className="generate-btn secondary"
+                                                onClick={() => generateReadme(repo)}
+                                                disabled={!!readmeJob}
+                                            >
+                                                {readmeJob ? (
+                                                    <>
+                                                        <RefreshCw size={18} className="spinning" />
+                                                        {readmeJob.status === 'queued' ? 'Queued...' : 'Generating...'}
+                                                    </>
+                                                ) : (
+                                                    <>
+                                                        <FileText size={18} />
+                                                        Generate README
+                                                    </>
+                                                )}
+                                            </button>
+                                        )}
+                                    </div>
+
+                                    <button
+                                        className="auto-refresh-btn"
+                                        onClick={() => setAutoRefreshRepo(repo)}
+                                        aria-label={`Auto-refresh settings for ${repo.repo_name}`}
+                                    >
+                                        <Webhook size={16} />
+                                        {autoRefresh.settings[repo.id]?.enabled ? 'Auto-refresh on' : 'Auto-refresh'}
+                                    </button>
+
+                                    {hasBundleContent(repo) && (
                                         <button
-                                            className="delete-btn"
-                                            onClick={() => setDeleteConfirm({ show: true, repo })}
+                                            className="export-all-btn"
+                                            onClick={() => handleExportAll(repo)}
+                                            disabled={exportingRepoId === repo.id}
+                                            aria-label={`Export all documentation for ${repo.repo_name}`}
                                         >
-                                            <Trash2 size={16} />
-                                            Delete
+                                            {exportingRepoId === repo.id
+                                                ? <RefreshCw size={16} className="spinning" />
+                                                : <Archive size={16} />}
+                                            {exportingRepoId === repo.id ? 'Exporting...' : 'Export all'}
                                         </button>
-                                    </>
-                                )}
-                            </div>
-                        ))
+                                    )}
+
+                                    {repo.diagram_code && (
+                                        <>
+                                            <button
+                                                className="update-btn"
+                                                onClick={() => generateDiagram(repo)}
+                                                disabled={!!diagramJob}
+                                            >
+                                                <RefreshCw size={16} />
+                                                Update Diagram
+                                            </button>
+                                            <button
+                                                className="delete-btn"
+                                                onClick={() => setDeleteConfirm({ show: true, repo })}
+                                            >
+                                                <Trash2 size={16} />
+                                                Delete
+                                            </button>
+                                        </>
+                                    )}
+                                </div>
+                            )
+                        })
                     )}
                 </div>
             </main>
@@ -652,16 +645,22 @@ export function Dashboard() {
                 dangerous
             />
 
+            {autoRefreshRepo && (
+                <AutoRefreshModal
+                    repo={autoRefreshRepo}
+                    setting={autoRefresh.settings[autoRefreshRepo.id]}
+                    onSave={input => autoRefresh.saveSetting(autoRefreshRepo, input)}
+                    onClose={() => setAutoRefreshRepo(null)}
+                />
+            )}
+
             <DiagramGenerationModal
+                key={diagramModal.repo?.id}
                 isOpen={diagramModal.show}
+                repoOwner={diagramModal.repo?.repo_owner || ''}
                 repoName={diagramModal.repo?.repo_name || ''}
-                onGenerate={(diagramType) => {
-                    if (diagramModal.repo) {
-                        generateDiagram(diagramModal.repo, diagramType)
-                        // Close modal after starting generation
-                        setDiagramModal({ show: false, repo: null })
-                    }
-                }}
+                scopes={diagramModal.repo?.diagram_scopes ?? []}
+                onGenerate={handleGenerateFromModal}
                 onClose={() => setDiagramModal({ show: false, repo: null })}
             />
         </div>
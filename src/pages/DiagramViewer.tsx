@@ -1,148 +1,450 @@
-import { useState, useEffect, useRef, useCallback } from 'react'
+import { useState, useEffect, useRef, useMemo } from 'react'
 import { useParams, useNavigate } from 'react-router-dom'
 import { useAuth } from '../hooks/useAuth'
+import { useJobs } from '../hooks/useJobs'
+import { useRealtime } from '../hooks/useRealtime'
+import { useDiagramComments } from '../hooks/useDiagramComments'
+import { useDiagramTheme } from '../hooks/useDiagramTheme'
 import { supabase } from '../lib/supabase'
-import type { Repository } from '../lib/supabase'
-import { downloadSVG, downloadSVGasPNG } from '../lib/export'
+import type { DiagramVersion, Repository, RepositoryDiagram } from '../lib/supabase'
+import { RepositoryService } from '../lib/repositories'
+import { VersionService } from '../lib/versions'
+import { ExplanationService } from '../lib/explanations'
+import { parseDiagram, labelFor, neighbourhood } from '../lib/diagramGraph'
+import {
+    clearMarks,
+    contentBounds,
+    findNodeElements,
+    localPoint,
+    localRect,
+    markEdge,
+    measureLayout,
+    nodeIdFromElement,
+    selectableElements,
+} from '../lib/diagramDom'
+import { centreOn, fitView, zoomAt, type ViewState } from '../lib/viewport'
+import { renderMermaid, validateMermaid, type MermaidSyntaxError } from '../lib/mermaid'
+import { mermaidTheme, themePalette } from '../lib/themes'
+import { applyDiagramChange, applyRepositoryChange } from '../lib/realtime'
+import { displayRef } from '../lib/github'
+import { describeScope, diagramsInScope, findDiagram } from '../lib/scopes'
+import {
+    DIAGRAM_TYPE_NAMES,
+    downloadDrawio,
+    downloadMermaid,
+    downloadPDF,
+    downloadSVG,
+    mermaidMarkdown,
+} from '../lib/export'
+import { downloadBundle } from '../lib/bundle'
 import { showToast } from '../lib/toast'
+import { getUserFriendlyErrorMessage } from '../lib/api'
+import { trackEvent, AnalyticsEvents } from '../lib/analytics'
 import { ErrorMessage } from '../components/ErrorMessage'
-import mermaid from 'mermaid'
+import { ConfirmModal } from '../components/ConfirmModal'
+import { VersionHistoryPanel, type CompareSide } from '../components/VersionHistoryPanel'
+import { DiagramCompare } from '../components/DiagramCompare'
+import { ArchitectureChat } from '../components/ArchitectureChat'
+import { ShareLinksModal } from '../components/ShareLinksModal'
+import { EmbedModal } from '../components/EmbedModal'
+import { ExportMenu, type ExportFormat } from '../components/ExportMenu'
+import { ImageExportModal } from '../components/ImageExportModal'
+import { ThemeSettingsPanel } from '../components/ThemeSettingsPanel'
+import { DiagramEditor } from '../components/DiagramEditor'
+import { DiagramSearch } from '../components/DiagramSearch'
+import { FocusBar } from '../components/FocusBar'
+import { DiagramMinimap } from '../components/DiagramMinimap'
+import { CommentMarkers } from '../components/CommentMarkers'
+import { CommentsSidebar } from '../components/CommentsSidebar'
+import type { CommentAnchor, CommentThread } from '../lib/comments'
 
 import {
     ArrowLeft,
     ZoomIn,
     ZoomOut,
     RotateCcw,
-    Download,
+    Maximize,
     RefreshCw,
     X,
     Zap,
+    History,
+    Pencil,
+    Save,
+    MessageSquare,
+    MessageCircle,
+    Share2,
+    Palette,
+    GitBranch,
+    Folder,
+    FolderTree,
 } from 'lucide-react'
 
+const DIAGRAM_TYPE_LABELS: Record<RepositoryDiagram['diagram_type'], string> = {
+    flowchart: '📊 Flowchart',
+    erd: '🗄️ ERD',
+    sequence: '💬 Sequence',
+    component: '📦 Component'
+}
+
+// Wait for a pause in typing before re-validating and re-rendering
+const EDIT_DEBOUNCE_MS = 400
+// Matches the .diagram-canvas.animating transition
+const VIEW_ANIMATION_MS = 400
+const FOCUS_CLASSES = ['focus-in', 'focus-selected', 'focus-upstream', 'focus-downstream']
+const ZOOM_STEP = 1.2
+const WHEEL_ZOOM_STEP = 1.1
+// Keyboard pan distance in screen pixels (Shift moves further)
+const KEY_PAN_STEP = 60
+const KEY_PAN_STEP_LARGE = 240
+// Pointer travel before a press turns into a drag (so node clicks still work)
+const DRAG_THRESHOLD = 4
+
+interface PointerGesture {
+    pointers: Map<number, { x: number; y: number }>
+    // Positions and view when the current gesture (or pointer count) started
+    start: Map<number, { x: number; y: number }>
+    startView: ViewState
+    dragging: boolean
+}
+
+// Built from text nodes so broken (or hostile) source is shown, never parsed
+function renderErrorBox(code: string): HTMLElement {
+    const box = document.createElement('div')
+    box.className = 'diagram-error'
+    const message = document.createElement('p')
+    message.textContent = 'Failed to render diagram. The Mermaid syntax may be invalid.'
+    const source = document.createElement('pre')
+    source.textContent = code
+    box.append(message, source)
+    return box
+}
+
 export function DiagramViewer() {
     const { id } = useParams<{ id: string }>()
     const navigate = useNavigate()
-    const { session, profile } = useAuth()
+    const { user, session, profile } = useAuth()
+    const { submitDiagramJob, activeJobFor, lastFinishedJob } = useJobs()
     const [repo, setRepo] = useState<Repository | null>(null)
     const [loading, setLoading] = useState(true)
-    const [updating, setUpdating] = useState(false)
     const [error, setError] = useState<string | null>(null)
     const [zoom, setZoom] = useState(1.2)
     const [pan, setPan] = useState({ x: 0, y: 0 })
     const [isDragging, setIsDragging] = useState(false)
-    const [dragStart, setDragStart] = useState({ x: 0, y: 0 })
-    const [selectedNode, setSelectedNode] = useState<string | null>(null)
+    const [selectedNode, setSelectedNode] = useState<{ id: string; label: string } | null>(null)
     const [nodeExplanation, setNodeExplanation] = useState<string | null>(null)
     const [explaining, setExplaining] = useState(false)
+    // When the shown explanation came from the cache, when it was generated
+    const [explanationSavedAt, setExplanationSavedAt] = useState<string | null>(null)
+    // Which diagram the shown explanation was computed against
+    const [explainedDiagramType, setExplainedDiagramType] = useState<RepositoryDiagram['diagram_type'] | null>(null)
     // Multi-diagram support
     const [activeDiagramType, setActiveDiagramType] = useState<'flowchart' | 'erd' | 'sequence' | 'component'>('flowchart')
+    // Diagram scope shown alongside the type; null for the whole repository
+    const [activeScopeId, setActiveScopeId] = useState<string | null>(null)
     const [currentDiagramCode, setCurrentDiagramCode] = useState<string | null>(null)
+    // Version history
+    const [showHistory, setShowHistory] = useState(false)
+    const [showChat, setShowChat] = useState(false)
+    const [showShare, setShowShare] = useState(false)
+    const [showEmbed, setShowEmbed] = useState(false)
+    const [showImageExport, setShowImageExport] = useState(false)
+    const [showThemeSettings, setShowThemeSettings] = useState(false)
+    // Comments: sidebar, "click to pin" mode, the unsaved pin and the selected thread
+    const [showComments, setShowComments] = useState(false)
+    const [placingComment, setPlacingComment] = useState(false)
+    const [draftAnchor, setDraftAnchor] = useState<CommentAnchor | null>(null)
+    const [activeThreadId, setActiveThreadId] = useState<string | null>(null)
+    const [comparison, setComparison] = useState<{ before: CompareSide; after: CompareSide } | null>(null)
+    const [restoreCandidate, setRestoreCandidate] = useState<DiagramVersion | null>(null)
+    // Source editing
+    const [editing, setEditing] = useState(false)
+    const [draftCode, setDraftCode] = useState('')
+    const [previewCode, setPreviewCode] = useState<string | null>(null)
+    const [syntaxError, setSyntaxError] = useState<MermaidSyntaxError | null>(null)
+    const [validating, setValidating] = useState(false)
+    const [savingEdit, setSavingEdit] = useState(false)
+    const [showDiscardConfirm, setShowDiscardConfirm] = useState(false)
+    // Neighbourhood focus: trail of focused nodes (last is current) and hop depth
+    const [focusTrail, setFocusTrail] = useState<{ id: string; label: string }[]>([])
+    const [focusDepth, setFocusDepth] = useState(1)
+    // Bumped after every render so overlays can re-apply SVG classes
+    const [renderKey, setRenderKey] = useState(0)
+    const [renderedSvg, setRenderedSvg] = useState<string | null>(null)
+    // Fit the next render to the screen (first load and diagram type switches)
+    const fitPendingRef = useRef(true)
+    const [animatingView, setAnimatingView] = useState(false)
     const containerRef = useRef<HTMLDivElement>(null)
     const diagramRef = useRef<HTMLDivElement>(null)
+    const animationTimerRef = useRef<ReturnType<typeof setTimeout>>(undefined)
+    const gestureRef = useRef<PointerGesture | null>(null)
+    // Whether the last pointer gesture panned, so its trailing click is ignored
+    const draggedRef = useRef(false)
+    // SVG listeners are attached once per render; route them to the latest handler
+    const nodeClickRef = useRef<(node: { id: string; label: string }) => void>(() => {})
+    const comments = useDiagramComments(repo?.id, activeDiagramType, activeScopeId)
+    const diagramThemes = useDiagramTheme()
+    const themeDirective = useMemo(() => mermaidTheme(diagramThemes.theme), [diagramThemes.theme])
+    const themeColours = themePalette(diagramThemes.theme)
 
     useEffect(() => {
-        mermaid.initialize({
-            startOnLoad: false,
-            theme: 'dark',
-            securityLevel: 'loose',
-            fontFamily: 'JetBrains Mono, monospace',
-        })
         fetchRepository()
     }, [id])
 
+    // While editing, the canvas shows the last draft that parsed cleanly
+    const displayedCode = editing ? previewCode : currentDiagramCode
+    const graph = useMemo(() => parseDiagram(displayedCode ?? ''), [displayedCode])
+    const focusedId = focusTrail[focusTrail.length - 1]?.id ?? null
+    const focus = useMemo(
+        () => (focusedId ? neighbourhood(graph, focusedId, focusDepth) : null),
+        [graph, focusedId, focusDepth]
+    )
+
     useEffect(() => {
-        if (currentDiagramCode) {
+        if (displayedCode) {
             renderDiagram()
         }
-    }, [currentDiagramCode])
+    }, [displayedCode, themeDirective])
+
+    // Debounced validation of the draft source
+    useEffect(() => {
+        if (!editing) return
+
+        let cancelled = false
+        const timer = setTimeout(async () => {
+            const result = await validateMermaid(draftCode)
+            if (cancelled) return
+            setSyntaxError(result)
+            setValidating(false)
+            if (!result) setPreviewCode(draftCode)
+        }, EDIT_DEBOUNCE_MS)
+
+        return () => {
+            cancelled = true
+            clearTimeout(timer)
+        }
+    }, [draftCode, editing])
+
+    useEffect(() => () => clearTimeout(animationTimerRef.current), [])
+
+    useEffect(() => {
+        nodeClickRef.current = handleNodeClick
+    })
+
+    // Escape stops placing a comment
+    useEffect(() => {
+        if (!placingComment) return
+
+        const handleKeyDown = (e: KeyboardEvent) => {
+            if (e.key === 'Escape') setPlacingComment(false)
+        }
+        document.addEventListener('keydown', handleKeyDown)
+        return () => document.removeEventListener('keydown', handleKeyDown)
+    }, [placingComment])
+
+    // Dim everything outside the focused neighbourhood
+    useEffect(() => {
+        const root = diagramRef.current
+        if (!root) return
+
+        clearMarks(root, FOCUS_CLASSES)
+        root.classList.toggle('focus-mode', !!focus && !!focusedId)
+        if (!focus || !focusedId) return
+
+        const mark = (nodeId: string, ...classNames: string[]) =>
+            findNodeElements(root, nodeId).forEach(el => el.classList.add('focus-in', ...classNames))
+        mark(focusedId, 'focus-selected')
+        focus.focused.forEach(nodeId => mark(nodeId, 'focus-selected'))
+        focus.upstream.forEach(nodeId => mark(nodeId, 'focus-upstream'))
+        focus.downstream.forEach(nodeId => mark(nodeId, 'focus-downstream'))
+        focus.edges.forEach(edgeId => markEdge(root, edgeId, 'focus-in'))
+    }, [focus, focusedId, renderKey])
+
+    // Escape leaves focus mode
+    useEffect(() => {
+        if (focusTrail.length === 0) return
+
+        const handleKeyDown = (e: KeyboardEvent) => {
+            const tag = document.activeElement?.tagName
+            if (e.key === 'Escape' && tag !== 'INPUT' && tag !== 'TEXTAREA') {
+                setFocusTrail([])
+            }
+        }
+        document.addEventListener('keydown', handleKeyDown)
+        return () => document.removeEventListener('keydown', handleKeyDown)
+    }, [focusTrail.length])
+
+    // Reload when a generation job for this repository finishes
+    useEffect(() => {
+        if (lastFinishedJob?.repository_id === id) {
+            fetchRepository(true)
+        }
+    }, [lastFinishedJob])
+
+    // Diagrams regenerated elsewhere (another tab, a teammate, a webhook) appear instantly
+    useRealtime(id ? `repository:${id}` : null, [
+        {
+            table: 'repositories',
+            filter: `id=eq.${id}`,
+            onChange: payload => setRepo(prev => (prev ? applyRepositoryChange(prev, payload) : prev)),
+        },
+        {
+            table: 'repository_diagrams',
+            filter: `repository_id=eq.${id}`,
+            onChange: payload => setRepo(prev => (prev ? applyDiagramChange(prev, payload) : prev)),
+        },
+    ])
 
     // Update current diagram when type changes
     useEffect(() => {
         if (repo?.repository_diagrams) {
-            const diagram = repo.repository_diagrams.find(d => d.diagram_type === activeDiagramType)
+            const diagram = findDiagram(repo, activeDiagramType, activeScopeId)
             setCurrentDiagramCode(diagram?.diagram_code || null)
         }
-    }, [activeDiagramType, repo])
+    }, [activeDiagramType, activeScopeId, repo])
 
-    const fetchRepository = async () => {
+    const fetchRepository = async (force = false) => {
         if (!id) return
 
         setError(null)
-        const { data, error } = await supabase
-            .from('repositories')
-            .select(`
-                *,
-                repository_diagrams(*)
-            `)
-            .eq('id', id)
-            .single()
-
-        if (error) {
-            setError('Failed to load repository. Please try again.')
-            showToast.error('Failed to load repository')
-        } else if (data) {
+        try {
+            const data = await RepositoryService.get(id, { force })
             setRepo(data)
-            // Set initial diagram type to first available
-            if (data.repository_diagrams && data.repository_diagrams.length > 0) {
-                setActiveDiagramType(data.repository_diagrams[0].diagram_type)
+            // Keep the diagram being viewed, otherwise show the first available one
+            if (!findDiagram(data, activeDiagramType, activeScopeId)) {
+                const first = diagramsInScope(data, null)[0] ?? data.repository_diagrams?.[0]
+                if (first) {
+                    setActiveDiagramType(first.diagram_type)
+                    setActiveScopeId(first.scope_id ?? null)
+                }
             }
+        } catch (err) {
+            console.error('Failed to load repository:', err)
+            setError(getUserFriendlyErrorMessage(err))
+            showToast.error('Failed to load repository')
         }
         setLoading(false)
     }
 
     const renderDiagram = async () => {
-        if (!diagramRef.current || !currentDiagramCode) return
+        if (!diagramRef.current || !displayedCode) return
 
         try {
-            const { svg } = await mermaid.render('mermaid-diagram', currentDiagramCode)
+            const svg = await renderMermaid(displayedCode, undefined, themeDirective)
             diagramRef.current.innerHTML = svg
 
-            // Add click handlers to nodes
-            const nodes = diagramRef.current.querySelectorAll('.node, .cluster')
-            nodes.forEach(node => {
-                (node as HTMLElement).style.cursor = 'pointer'
+            // Add click handlers to nodes, resolved to IDs in the parsed graph
+            selectableElements(diagramRef.current).forEach(node => {
+                const nodeId = nodeIdFromElement(node, graph)
+                const text = node.textContent?.trim() || ''
+                if (!nodeId && !text) return
+
+                const target = nodeId ? { id: nodeId, label: labelFor(graph, nodeId) } : { id: text, label: text }
+
+                // Focusable with Tab; Enter or Space explains, like a click
+                node.setAttribute('tabindex', '0')
+                node.setAttribute('role', 'button')
+                node.setAttribute('aria-label', target.label.replace(/<[^>]+>/g, ' '))
+                ;(node as HTMLElement).style.cursor = 'pointer'
                 node.addEventListener('click', (e: Event) => {
                     e.stopPropagation()
-                    const nodeText = (node as HTMLElement).textContent || ''
-                    handleNodeClick(nodeText)
+                    nodeClickRef.current(target)
                 })
+                node.addEventListener('keydown', (e: Event) => {
+                    const key = (e as KeyboardEvent).key
+                    if (key !== 'Enter' && key !== ' ') return
+                    e.preventDefault()
+                    e.stopPropagation()
+                    nodeClickRef.current(target)
+                })
+                node.addEventListener('focus', () => revealElement(node))
             })
+            setRenderedSvg(svg)
+            setRenderKey(k => k + 1)
+            if (fitPendingRef.current) {
+                fitPendingRef.current = false
+                fitToContent(false)
+            }
         } catch {
+            setRenderedSvg(null)
             showToast.error('Failed to render diagram')
-            if (diagramRef.current) {
-                diagramRef.current.innerHTML = `<div class="diagram-error">
-        <p>Failed to render diagram. The Mermaid syntax may be invalid.</p>
-        <pre>${currentDiagramCode}</pre>
-      </div>`
-            }
+            diagramRef.current?.replaceChildren(renderErrorBox(displayedCode))
         }
     }
 
-    const handleNodeClick = async (nodeText: string) => {
-        if (!session) return
+    /**
+     * Bring a node into focus without asking for an explanation
+     */
+    const focusNode = (node: { id: string; label: string }) => {
+        // Focus on the node's neighbourhood; revisiting a crumb trims the trail back to it
+        if (graph.nodes.has(node.id) || graph.subgraphs.has(node.id)) {
+            setFocusTrail(prev => {
+                const existing = prev.findIndex(item => item.id === node.id)
+                return existing >= 0 ? prev.slice(0, existing + 1) : [...prev, node]
+            })
+        }
+
+        const element = diagramRef.current && findNodeElements(diagramRef.current, node.id)[0]
+        if (element) centreOnElement(element)
+    }
 
-        setSelectedNode(nodeText)
+    // Directly connected nodes give the model context about the node's role
+    const explanationNeighbours = (nodeId: string) => {
+        const { upstream, downstream } = neighbourhood(graph, nodeId, 1)
+        const describe = (ids: Set<string>) => [...ids].map(id => ({ id, label: labelFor(graph, id) }))
+        return { upstream: describe(upstream), downstream: describe(downstream) }
+    }
+
+    /**
+     * Explain a node, serving the shared cached explanation for this diagram
+     * version when there is one (unless a fresh one is asked for)
+     */
+    const explainNode = async (node: { id: string; label: string }, force = false) => {
+        if (!session || !repo) return
+
+        setSelectedNode(node)
         setExplaining(true)
         setNodeExplanation(null)
-
-        // Auto-zoom to 2.5x and center when clicking a node for better visibility
-        setZoom(2.5)
-        setPan({ x: 0, y: 0 })
+        setExplanationSavedAt(null)
+        setExplainedDiagramType(activeDiagramType)
 
         try {
+            const key = {
+                repositoryId: repo.id,
+                diagramType: activeDiagramType,
+                diagramVersion: await ExplanationService.versionOf(displayedCode ?? ''),
+                nodeId: node.id,
+            }
+
+            const cached = force ? null : await ExplanationService.get(key).catch(err => {
+                console.error('Failed to read cached explanation:', err)
+                return null
+            })
+            if (cached) {
+                setNodeExplanation(cached.explanation)
+                setExplanationSavedAt(cached.created_at)
+                return
+            }
+
             const { data, error } = await supabase.functions.invoke('explain-node', {
                 headers: {
                     Authorization: `Bearer ${session.access_token}`,
                 },
                 body: {
-                    nodeName: nodeText,
-                    diagramCode: repo?.diagram_code,
-                    repoName: repo?.repo_name,
+                    nodeId: node.id,
+                    nodeName: node.label,
+                    neighbours: explanationNeighbours(node.id),
+                    diagramType: activeDiagramType,
+                    diagramCode: displayedCode,
+                    repoName: repo.repo_name,
                 },
             })
 
             if (error) throw error
             setNodeExplanation(data.explanation)
+
+            ExplanationService.save(key, data.explanation, user?.id ?? null).catch(err => {
+                console.error('Failed to cache explanation:', err)
+            })
         } catch {
             showToast.error('Failed to explain node')
             setNodeExplanation('Failed to generate explanation. Please try again.')
@@ -151,98 +453,414 @@ export function DiagramViewer() {
         }
     }
 
-    const handleZoomIn = () => setZoom(z => Math.min(z + 0.2, 3))
-    const handleZoomOut = () => setZoom(z => Math.max(z - 0.2, 0.3))
-    const handleReset = () => {
-        setZoom(1)
-        setPan({ x: 0, y: 0 })
+    const handleNodeClick = (node: { id: string; label: string }) => {
+        if (placingComment) {
+            pinComment({ nodeId: node.id })
+            return
+        }
+        if (!session) return
+
+        focusNode(node)
+        explainNode(node)
     }
 
-    const handleMouseDown = (e: React.MouseEvent) => {
-        if (e.button === 0) {
+    const pinComment = (anchor: CommentAnchor) => {
+        setDraftAnchor(anchor)
+        setPlacingComment(false)
+        setActiveThreadId(null)
+        setShowComments(true)
+    }
+
+    // While placing a comment, a click on empty canvas pins it to that point
+    const handleCanvasClick = (e: React.MouseEvent) => {
+        const canvas = diagramRef.current
+        if (!placingComment || draggedRef.current || !canvas) return
+        // Ignore clicks on overlays such as the search box or minimap
+        const target = e.target as Node
+        if (target !== e.currentTarget && !canvas.contains(target)) return
+
+        pinComment({ position: localPoint(canvas, e.clientX, e.clientY) })
+    }
+
+    const selectThread = (thread: CommentThread) => {
+        setActiveThreadId(thread.root.id)
+        setDraftAnchor(null)
+        setShowComments(true)
+
+        const canvas = diagramRef.current
+        if (!canvas) return
+        const { node_id, position_x, position_y } = thread.root
+        const element = node_id ? findNodeElements(canvas, node_id)[0] : undefined
+        if (element) {
+            centreOnElement(element)
+        } else if (!node_id && position_x !== null && position_y !== null) {
+            const size = { width: canvas.offsetWidth, height: canvas.offsetHeight }
+            setView({ zoom, pan: centreOn({ x: position_x, y: position_y }, size, zoom) }, true)
+        }
+    }
+
+    const currentDiagram = repo ? findDiagram(repo, activeDiagramType, activeScopeId) : undefined
+    const updateJob = repo ? activeJobFor(repo.id, 'diagram', activeDiagramType, activeScopeId) : undefined
+    const activeScope = repo?.diagram_scopes?.find(scope => scope.id === activeScopeId)
+    const updating = !!updateJob
+    const openThreadCount = comments.threads.filter(t => !t.root.resolved_at).length
+
+    const setView = (view: ViewState, animate = false) => {
+        if (animate) {
+            clearTimeout(animationTimerRef.current)
+            setAnimatingView(true)
+            animationTimerRef.current = setTimeout(() => setAnimatingView(false), VIEW_ANIMATION_MS)
+        }
+        setZoom(view.zoom)
+        setPan(view.pan)
+    }
+
+    // Buttons zoom around the middle of the viewport
+    const handleZoomIn = () => setView(zoomAt({ zoom, pan }, ZOOM_STEP, { x: 0, y: 0 }))
+    const handleZoomOut = () => setView(zoomAt({ zoom, pan }, 1 / ZOOM_STEP, { x: 0, y: 0 }))
+    const handleReset = () => setView({ zoom: 1, pan: { x: 0, y: 0 } }, true)
+
+    // Show the whole diagram, as large as it fits
+    const fitToContent = (animate = true) => {
+        const container = containerRef.current
+        const canvas = diagramRef.current
+        const bounds = canvas && contentBounds(canvas)
+        if (!container || !canvas || !bounds) return
+
+        const view = fitView(
+            bounds,
+            { width: canvas.offsetWidth, height: canvas.offsetHeight },
+            { width: container.clientWidth, height: container.clientHeight }
+        )
+        setView(view, animate)
+    }
+
+    // Smoothly pan (and zoom in if needed) so an element sits in the middle of the viewport
+    const centreOnElement = (element: Element) => {
+        const canvas = diagramRef.current
+        if (!canvas) return
+
+        const rect = localRect(canvas, element)
+        const targetZoom = Math.min(Math.max(zoom, 1.5), 3)
+        const centre = { x: rect.x + rect.width / 2, y: rect.y + rect.height / 2 }
+        setView({
+            zoom: targetZoom,
+            pan: centreOn(centre, { width: canvas.offsetWidth, height: canvas.offsetHeight }, targetZoom),
+        }, true)
+    }
+
+    // Keep a keyboard-focused node on screen without changing the zoom
+    const revealElement = (element: Element) => {
+        const container = containerRef.current
+        const canvas = diagramRef.current
+        if (!container || !canvas) return
+
+        // Browsers scroll overflow:hidden containers to show focused children; undo that
+        container.scrollTop = 0
+        container.scrollLeft = 0
+
+        const box = container.getBoundingClientRect()
+        const rect = element.getBoundingClientRect()
+        const visible = rect.left >= box.left && rect.right <= box.right && rect.top >= box.top && rect.bottom <= box.bottom
+        if (visible) return
+
+        const local = localRect(canvas, element)
+        const centre = { x: local.x + local.width / 2, y: local.y + local.height / 2 }
+        setView({ zoom, pan: centreOn(centre, { width: canvas.offsetWidth, height: canvas.offsetHeight }, zoom) }, true)
+    }
+
+    // Pointer events cover mouse, pen and touch: one pointer pans, two pinch-zoom and pan
+    const restartGesture = (gesture: PointerGesture) => {
+        gesture.start = new Map(gesture.pointers)
+        gesture.startView = { zoom, pan }
+    }
+
+    const handlePointerDown = (e: React.PointerEvent) => {
+        if (e.pointerType === 'mouse' && e.button !== 0) return
+
+        const gesture = gestureRef.current ?? {
+            pointers: new Map(),
+            start: new Map(),
+            startView: { zoom, pan },
+            dragging: false,
+        }
+        gesture.pointers.set(e.pointerId, { x: e.clientX, y: e.clientY })
+        restartGesture(gesture)
+        gestureRef.current = gesture
+    }
+
+    const handlePointerMove = (e: React.PointerEvent) => {
+        const gesture = gestureRef.current
+        if (!gesture || !gesture.pointers.has(e.pointerId)) return
+        gesture.pointers.set(e.pointerId, { x: e.clientX, y: e.clientY })
+
+        const [first, second] = [...gesture.pointers.entries()]
+        const firstStart = gesture.start.get(first[0])
+        if (!firstStart) return
+
+        if (!gesture.dragging) {
+            const moved = Math.hypot(first[1].x - firstStart.x, first[1].y - firstStart.y)
+            if (moved < DRAG_THRESHOLD && !second) return
+            // Capture only once dragging, so a plain tap still reaches the node underneath
+            gesture.dragging = true
             setIsDragging(true)
-            setDragStart({ x: e.clientX - pan.x, y: e.clientY - pan.y })
+            const target = e.currentTarget
+            gesture.pointers.forEach((_, pointerId) => {
+                if (!target.hasPointerCapture(pointerId)) target.setPointerCapture(pointerId)
+            })
+        }
+
+        const { startView } = gesture
+        if (!second) {
+            setPan({
+                x: startView.pan.x + first[1].x - firstStart.x,
+                y: startView.pan.y + first[1].y - firstStart.y,
+            })
+            return
         }
+
+        const secondStart = gesture.start.get(second[0])
+        const container = containerRef.current
+        if (!secondStart || !container) return
+
+        const box = container.getBoundingClientRect()
+        const midpoint = (a: { x: number; y: number }, b: { x: number; y: number }) => ({
+            x: (a.x + b.x) / 2 - box.left - box.width / 2,
+            y: (a.y + b.y) / 2 - box.top - box.height / 2,
+        })
+        const startMid = midpoint(firstStart, secondStart)
+        const mid = midpoint(first[1], second[1])
+        const startDistance = Math.hypot(secondStart.x - firstStart.x, secondStart.y - firstStart.y) || 1
+        const distance = Math.hypot(second[1].x - first[1].x, second[1].y - first[1].y)
+
+        // Pinch around the starting midpoint, then follow the fingers
+        const pinched = zoomAt(startView, distance / startDistance, startMid)
+        setView({
+            zoom: pinched.zoom,
+            pan: { x: pinched.pan.x + mid.x - startMid.x, y: pinched.pan.y + mid.y - startMid.y },
+        })
     }
 
-    const handleMouseMove = useCallback(
-        (e: React.MouseEvent) => {
-            if (isDragging) {
-                setPan({ x: e.clientX - dragStart.x, y: e.clientY - dragStart.y })
-            }
-        },
-        [isDragging, dragStart]
-    )
+    const handlePointerUp = (e: React.PointerEvent) => {
+        const gesture = gestureRef.current
+        if (!gesture) return
 
-    const handleMouseUp = () => setIsDragging(false)
+        gesture.pointers.delete(e.pointerId)
+        if (gesture.pointers.size === 0) {
+            draggedRef.current = gesture.dragging
+            gestureRef.current = null
+            setIsDragging(false)
+            return
+        }
+        // Lifting one finger of a pinch carries on as a one-finger pan
+        restartGesture(gesture)
+    }
 
+    // Arrow keys pan, +/- zoom, 0 resets and F fits
+    const handleCanvasKeyDown = (e: React.KeyboardEvent) => {
+        const tag = (e.target as HTMLElement).tagName
+        if (tag === 'INPUT' || tag === 'TEXTAREA' || e.metaKey || e.ctrlKey || e.altKey) return
+
+        const step = e.shiftKey ? KEY_PAN_STEP_LARGE : KEY_PAN_STEP
+        const moves: Record<string, { x: number; y: number }> = {
+            ArrowLeft: { x: step, y: 0 },
+            ArrowRight: { x: -step, y: 0 },
+            ArrowUp: { x: 0, y: step },
+            ArrowDown: { x: 0, y: -step },
+        }
+
+        if (moves[e.key]) {
+            setView({ zoom, pan: { x: pan.x + moves[e.key].x, y: pan.y + moves[e.key].y } }, true)
+        } else if (e.key === '+' || e.key === '=') {
+            handleZoomIn()
+        } else if (e.key === '-' || e.key === '_') {
+            handleZoomOut()
+        } else if (e.key === '0') {
+            handleReset()
+        } else if (e.key === 'f' || e.key === 'F') {
+            fitToContent()
+        } else {
+            return
+        }
+        e.preventDefault()
+    }
+
+    // Zoom toward the cursor so the point under it stays put
     const handleWheel = (e: React.WheelEvent) => {
         e.preventDefault()
-        const delta = e.deltaY > 0 ? -0.1 : 0.1
-        setZoom(z => Math.min(Math.max(z + delta, 0.3), 3))
+        const container = containerRef.current
+        if (!container) return
+
+        const box = container.getBoundingClientRect()
+        const anchor = {
+            x: e.clientX - box.left - box.width / 2,
+            y: e.clientY - box.top - box.height / 2,
+        }
+        setView(zoomAt({ zoom, pan }, e.deltaY > 0 ? 1 / WHEEL_ZOOM_STEP : WHEEL_ZOOM_STEP, anchor))
     }
 
-    const handleUpdateDiagram = async () => {
+    const handleUpdateDiagram = () => {
         if (!session?.provider_token || !profile || !repo) return
 
-        setUpdating(true)
+        // Runs in the background; the viewer refreshes when the job finishes
+        // Regenerate from the same branch, tag or commit as the current diagram
+        submitDiagramJob(repo, activeDiagramType, currentDiagram?.source_ref ?? null, activeScopeId)
+    }
+
+    const selectScope = (scopeId: string | null) => {
+        if (!repo || scopeId === activeScopeId) return
+        const diagrams = diagramsInScope(repo, scopeId)
+        // Stay on the same diagram type when the scope has one
+        const type = diagrams.some(d => d.diagram_type === activeDiagramType)
+            ? activeDiagramType
+            : diagrams[0]?.diagram_type ?? activeDiagramType
+        setActiveScopeId(scopeId)
+        setActiveDiagramType(type)
+        setFocusTrail([])
+        setDraftAnchor(null)
+        setActiveThreadId(null)
+        fitPendingRef.current = true
+    }
+
+    const handleCompare = (before: CompareSide, after: CompareSide) => {
+        setComparison({ before, after })
+        trackEvent(AnalyticsEvents.COMPARE_DIAGRAMS, { type: activeDiagramType })
+    }
+
+    const handleRestore = async () => {
+        if (!restoreCandidate) return
+        const version = restoreCandidate
+        setRestoreCandidate(null)
 
         try {
-            console.log('Generating diagram:', {
-                type: activeDiagramType,
-                repo: `${repo.repo_owner}/${repo.repo_name}`
-            })
+            await VersionService.restore(version, user?.id ?? null)
+            setComparison(null)
+            await fetchRepository(true)
+            setActiveDiagramType(version.diagram_type)
+            setActiveScopeId(version.scope_id ?? null)
+            trackEvent(AnalyticsEvents.RESTORE_DIAGRAM, { type: version.diagram_type })
+            showToast.success('Diagram version restored')
+        } catch (err) {
+            console.error('Failed to restore diagram version:', err)
+            showToast.error(getUserFriendlyErrorMessage(err))
+        }
+    }
 
-            const { data, error } = await supabase.functions.invoke('generate-diagram', {
-                headers: {
-                    Authorization: `Bearer ${session.access_token}`,
-                },
-                body: {
-                    repoOwner: repo.repo_owner,
-                    repoName: repo.repo_name,
-                    githubToken: session.provider_token,
-                    diagramType: activeDiagramType,
-                },
-            })
+    const startEditing = () => {
+        if (!currentDiagramCode) return
+        setDraftCode(currentDiagramCode)
+        setPreviewCode(currentDiagramCode)
+        setSyntaxError(null)
+        setComparison(null)
+        setEditing(true)
+    }
 
-            if (error) {
-                console.error('Edge Function error:', error)
-                throw error
-            }
+    const handleDraftChange = (code: string) => {
+        setDraftCode(code)
+        setValidating(true)
+    }
 
-            console.log('Diagram generated successfully:', data)
+    const stopEditing = () => {
+        setShowDiscardConfirm(false)
+        setEditing(false)
+        setSyntaxError(null)
+        setValidating(false)
+    }
 
-            // Edge Function already saves to repository_diagrams table
-            // Just refresh to get the updated data
-            await fetchRepository()
-            showToast.success(`${activeDiagramType.toUpperCase()} diagram updated successfully!`)
-        } catch (err: any) {
-            console.error('Failed to update diagram:', err)
-            showToast.error(`Failed to generate ${activeDiagramType} diagram: ${err.message || 'Unknown error'}`)
-        } finally {
-            setUpdating(false)
+    const handleCancelEdit = () => {
+        if (draftCode !== currentDiagramCode) {
+            setShowDiscardConfirm(true)
+        } else {
+            stopEditing()
         }
     }
 
-    const handleExport = async (format: 'svg' | 'png') => {
-        if (!diagramRef.current || !repo) return
+    const handleSaveEdit = async () => {
+        if (!currentDiagram || syntaxError || validating) return
 
-        const svgElement = diagramRef.current.querySelector('svg')
-        if (!svgElement) {
-            showToast.error('No diagram to export')
-            return
+        setSavingEdit(true)
+        try {
+            const saved = await VersionService.saveEdit(currentDiagram, draftCode, user?.id ?? null)
+            setRepo(prev => prev && {
+                ...prev,
+                repository_diagrams: prev.repository_diagrams?.map(d => (d.id === saved.id ? saved : d)),
+            })
+            stopEditing()
+            showToast.success('Diagram saved')
+        } catch (err) {
+            console.error('Failed to save diagram:', err)
+            showToast.error(getUserFriendlyErrorMessage(err))
+        } finally {
+            setSavingEdit(false)
         }
+    }
 
-        try {
-            const filename = `${repo.repo_name}-architecture.${format}`
+    const handleExport = async (format: ExportFormat) => {
+        if (!repo) return
+        const filename = `${repo.repo_name}-architecture`
 
-            if (format === 'svg') {
-                downloadSVG(svgElement as SVGElement, filename)
+        try {
+            if (format === 'pdf') {
+                const diagrams = diagramsInScope(repo, activeScopeId)
+                if (diagrams.length === 0) {
+                    showToast.error('No diagrams to export')
+                    return
+                }
+                const toastId = showToast.loading('Building PDF...')
+                try {
+                    await downloadPDF(diagrams, {
+                        title: activeScope
+                            ? `${repo.repo_owner}/${repo.repo_name} · ${activeScope.name}`
+                            : `${repo.repo_owner}/${repo.repo_name}`,
+                        filename: `${filename}.pdf`,
+                        theme: diagramThemes.theme,
+                    })
+                } finally {
+                    showToast.dismiss(toastId)
+                }
+                showToast.success('Diagrams exported as PDF!')
+            } else if (format === 'zip') {
+                const toastId = showToast.loading('Bundling documentation...')
+                try {
+                    await downloadBundle(repo, diagramThemes.theme)
+                } finally {
+                    showToast.dismiss(toastId)
+                }
+                showToast.success('Documentation exported as ZIP!')
+            } else if (format === 'image') {
+                setShowImageExport(true)
+                return
+            } else if (format === 'svg') {
+                const svgElement = diagramRef.current?.querySelector('svg')
+                if (!svgElement) {
+                    showToast.error('No diagram to export')
+                    return
+                }
+                downloadSVG(svgElement, `${filename}.svg`)
                 showToast.success('Diagram exported as SVG!')
             } else {
-                await downloadSVGasPNG(svgElement as SVGElement, filename)
-                showToast.success('Diagram exported as PNG!')
+                if (!displayedCode) {
+                    showToast.error('No diagram to export')
+                    return
+                }
+                const name = `${filename}-${activeDiagramType}`
+                if (format === 'mmd') {
+                    downloadMermaid(displayedCode, `${name}.mmd`)
+                    showToast.success('Mermaid source downloaded!')
+                } else if (format === 'markdown') {
+                    await navigator.clipboard.writeText(mermaidMarkdown(displayedCode))
+                    showToast.success('Markdown copied to clipboard!')
+                } else {
+                    const layout = diagramRef.current ? measureLayout(diagramRef.current, graph) : undefined
+                    downloadDrawio(
+                        [{ name: DIAGRAM_TYPE_NAMES[activeDiagramType], graph, layout }],
+                        `${name}.drawio`,
+                        themeColours
+                    )
+                    showToast.success('Diagram exported for draw.io!')
+                }
             }
+            trackEvent(AnalyticsEvents.EXPORT_DIAGRAM, { format, diagramType: activeDiagramType })
         } catch (error) {
             console.error('Export failed:', error)
             showToast.error('Failed to export diagram')
@@ -290,29 +908,97 @@ export function DiagramViewer() {
                         <button onClick={handleZoomIn} title="Zoom In">
                             <ZoomIn size={18} />
                         </button>
+                        <button onClick={() => fitToContent()} title="Fit to Screen">
+                            <Maximize size={18} />
+                        </button>
                         <button onClick={handleReset} title="Reset View">
                             <RotateCcw size={18} />
                         </button>
                     </div>
 
-                    <div className="export-controls">
-                        <button onClick={() => handleExport('svg')} title="Export SVG">
-                            <Download size={18} />
-                            SVG
+                    <ExportMenu
+                        disabled={!currentDiagramCode}
+                        onExport={handleExport}
+                        onEmbed={repo.user_id === user?.id ? () => setShowEmbed(true) : undefined}
+                    />
+
+                    {editing ? (
+                        <div className="edit-controls">
+                            <button onClick={handleCancelEdit} disabled={savingEdit}>
+                                <X size={18} />
+                                Cancel
+                            </button>
+                            <button
+                                className="save-edit-btn"
+                                onClick={handleSaveEdit}
+                                disabled={savingEdit || validating || !!syntaxError || draftCode === currentDiagramCode}
+                            >
+                                <Save size={18} />
+                                {savingEdit ? 'Saving...' : 'Save'}
+                            </button>
+                        </div>
+                    ) : (
+                        <button
+                            className="viewer-btn"
+                            onClick={startEditing}
+                            title="Edit Mermaid source"
+                            disabled={!currentDiagramCode || updating}
+                        >
+                            <Pencil size={18} />
+                            Edit
                         </button>
-                        <button onClick={() => handleExport('png')} title="Export PNG">
-                            <Download size={18} />
-                            PNG
+                    )}
+
+                    <button
+                        className={`viewer-btn ${showHistory ? 'active' : ''}`}
+                        onClick={() => setShowHistory(s => !s)}
+                        title="Version history"
+                        disabled={!currentDiagramCode || editing}
+                    >
+                        <History size={18} />
+                        History
+                    </button>
+
+                    <button className="viewer-btn" onClick={() => setShowThemeSettings(true)} title="Diagram theme">
+                        <Palette size={18} />
+                        Theme
+                    </button>
+
+                    {repo.user_id === user?.id && (
+                        <button className="viewer-btn" onClick={() => setShowShare(true)} title="Share a read-only link">
+                            <Share2 size={18} />
+                            Share
                         </button>
-                    </div>
+                    )}
+
+                    <button
+                        className={`viewer-btn ${showComments ? 'active' : ''}`}
+                        onClick={() => setShowComments(s => !s)}
+                        title="Comments"
+                        disabled={!currentDiagramCode}
+                    >
+                        <MessageCircle size={18} />
+                        Comments
+                        {openThreadCount > 0 && <span className="viewer-btn-count">{openThreadCount}</span>}
+                    </button>
+
+                    <button
+                        className={`viewer-btn ${showChat ? 'active' : ''}`}
+                        onClick={() => setShowChat(s => !s)}
+                        title="Ask questions about this architecture"
+                        disabled={!currentDiagramCode}
+                    >
+                        <MessageSquare size={18} />
+                        Ask
+                    </button>
 
                     <button
                         className="update-btn"
                         onClick={handleUpdateDiagram}
-                        disabled={updating}
+                        disabled={updating || editing}
                     >
                         <RefreshCw size={18} className={updating ? 'spinning' : ''} />
-                        {updating ? 'Updating...' : 'Update Diagram'}
+                        {updating ? updateJob?.step || 'Queued...' : 'Update Diagram'}
                     </button>
                 </div>
             </header>
@@ -321,27 +1007,58 @@ export function DiagramViewer() {
             {repo.repository_diagrams && repo.repository_diagrams.length > 0 && (
                 <div className="diagram-type-tabs">
                     {(['flowchart', 'erd', 'sequence', 'component'] as const).map(type => {
-                        const diagram = repo.repository_diagrams?.find(d => d.diagram_type === type)
-                        const typeLabels = {
-                            flowchart: '📊 Flowchart',
-                            erd: '🗄️ ERD',
-                            sequence: '💬 Sequence',
-                            component: '📦 Component'
-                        }
-
+                        const diagram = findDiagram(repo, type, activeScopeId)
                         return (
                             <button
                                 key={type}
                                 className={`diagram-tab ${activeDiagramType === type ? 'active' : ''} ${!diagram ? 'disabled' : ''}`}
-                                onClick={() => diagram && setActiveDiagramType(type)}
-                                disabled={!diagram}
+                                onClick={() => {
+                                    if (!diagram) return
+                                    setActiveDiagramType(type)
+                                    setFocusTrail([])
+                                    setDraftAnchor(null)
+                                    setActiveThreadId(null)
+                                    fitPendingRef.current = type !== activeDiagramType
+                                }}
+                                disabled={!diagram || editing}
                                 title={diagram ? `View ${type} diagram` : `No ${type} diagram yet`}
                             >
-                                {typeLabels[type]}
+                                {DIAGRAM_TYPE_LABELS[type]}
                                 {diagram && <span className="check">✓</span>}
                             </button>
                         )
                     })}
+                    {(repo.diagram_scopes?.length ?? 0) > 0 && (
+                        <div className="diagram-scope-tabs" role="tablist" aria-label="Diagram scope">
+                            <button
+                                className={`diagram-scope-tab ${activeScopeId === null ? 'active' : ''}`}
+                                onClick={() => selectScope(null)}
+                                disabled={editing}
+                                title="Diagrams of the whole repository"
+                            >
+                                <FolderTree size={14} />
+                                Whole repository
+                            </button>
+                            {repo.diagram_scopes?.map(scope => (
+                                <button
+                                    key={scope.id}
+                                    className={`diagram-scope-tab ${activeScopeId === scope.id ? 'active' : ''}`}
+                                    onClick={() => selectScope(scope.id)}
+                                    disabled={editing}
+                                    title={describeScope(scope)}
+                                >
+                                    <Folder size={14} />
+                                    {scope.name}
+                                </button>
+                            ))}
+                        </div>
+                    )}
+                    {currentDiagram?.source_ref && (
+                        <span className="diagram-source-ref" title={`Generated from ${currentDiagram.source_ref}`}>
+                            <GitBranch size={14} />
+                            {displayRef(currentDiagram.source_ref)}
+                        </span>
+                    )}
                 </div>
             )}
 
@@ -349,32 +1066,142 @@ export function DiagramViewer() {
                 <ErrorMessage
                     title="Failed to Load Repository"
                     message={error}
-                    onRetry={fetchRepository}
+                    onRetry={() => fetchRepository(true)}
                     showRetry={true}
                 />
             )}
 
             <div className="viewer-content">
+                {editing && (
+                    <DiagramEditor
+                        value={draftCode}
+                        onChange={handleDraftChange}
+                        error={syntaxError}
+                        validating={validating}
+                    />
+                )}
+
+                {comparison && (
+                    <DiagramCompare
+                        before={comparison.before}
+                        after={comparison.after}
+                        theme={themeDirective}
+                        onClose={() => setComparison(null)}
+                    />
+                )}
+
                 <div
                     ref={containerRef}
                     className="diagram-container"
-                    onMouseDown={handleMouseDown}
-                    onMouseMove={handleMouseMove}
-                    onMouseUp={handleMouseUp}
-                    onMouseLeave={handleMouseUp}
+                    style={{ backgroundColor: themeColours.background }}
+                    hidden={!!comparison}
+                    onPointerDown={handlePointerDown}
+                    onPointerMove={handlePointerMove}
+                    onPointerUp={handlePointerUp}
+                    onPointerCancel={handlePointerUp}
+                    onKeyDown={handleCanvasKeyDown}
+                    tabIndex={0}
+                    role="application"
+                    aria-label="Diagram canvas. Arrow keys pan, plus and minus zoom, F fits to screen, Tab moves between nodes, Enter explains the focused node."
                     onWheel={handleWheel}
+                    onClick={handleCanvasClick}
                 >
+                    {focus && focusTrail.length > 0 && (
+                        <FocusBar
+                            trail={focusTrail}
+                            depth={focusDepth}
+                            upstreamCount={focus.upstream.size}
+                            downstreamCount={focus.downstream.size}
+                            onDepthChange={setFocusDepth}
+                            onNavigate={index => focusNode(focusTrail[index])}
+                            onExit={() => setFocusTrail([])}
+                        />
+                    )}
+                    {renderedSvg && (
+                        <DiagramMinimap
+                            svg={renderedSvg}
+                            canvasRef={diagramRef}
+                            containerRef={containerRef}
+                            view={{ zoom, pan }}
+                            onNavigate={nextPan => setPan(nextPan)}
+                        />
+                    )}
+                    {displayedCode && (
+                        <CommentMarkers
+                            threads={comments.threads}
+                            draftAnchor={draftAnchor}
+                            activeThreadId={activeThreadId}
+                            placing={placingComment}
+                            canvasRef={diagramRef}
+                            containerRef={containerRef}
+                            renderKey={renderKey}
+                            view={{ zoom, pan }}
+                            animating={animatingView}
+                            onSelect={selectThread}
+                            onCancelPlacing={() => setPlacingComment(false)}
+                        />
+                    )}
+                    {displayedCode && (
+                        <DiagramSearch
+                            graph={graph}
+                            canvasRef={diagramRef}
+                            renderKey={renderKey}
+                            onFocusMatch={centreOnElement}
+                        />
+                    )}
                     <div
                         ref={diagramRef}
-                        className="diagram-canvas"
+                        className={`diagram-canvas ${animatingView ? 'animating' : ''}`}
                         style={{
                             transform: `translate(${pan.x}px, ${pan.y}px) scale(${zoom})`,
-                            cursor: isDragging ? 'grabbing' : 'grab',
+                            cursor: placingComment ? 'crosshair' : isDragging ? 'grabbing' : 'grab',
                         }}
                     />
                 </div>
 
-                {selectedNode && (
+                {showHistory && (
+                    <VersionHistoryPanel
+                        repo={repo}
+                        diagramType={activeDiagramType}
+                        scopeId={activeScopeId}
+                        currentDiagram={currentDiagram}
+                        onClose={() => setShowHistory(false)}
+                        onCompare={handleCompare}
+                        onRestore={setRestoreCandidate}
+                    />
+                )}
+
+                {showComments && (
+                    <CommentsSidebar
+                        comments={comments}
+                        graph={graph}
+                        draftAnchor={draftAnchor}
+                        placing={placingComment}
+                        activeThreadId={activeThreadId}
+                        onStartPlacing={() => setPlacingComment(true)}
+                        onCancelDraft={() => setDraftAnchor(null)}
+                        onDraftSaved={() => setDraftAnchor(null)}
+                        onSelectThread={selectThread}
+                        onClose={() => {
+                            setShowComments(false)
+                            setPlacingComment(false)
+                            setDraftAnchor(null)
+                        }}
+                    />
+                )}
+
+                {showChat && (
+                    <ArchitectureChat
+                        repo={repo}
+                        diagramType={activeDiagramType}
+                        diagramCode={displayedCode}
+                        graph={graph}
+                        onSelectNode={nodeId => focusNode({ id: nodeId, label: labelFor(graph, nodeId) })}
+                        onClose={() => setShowChat(false)}
+                    />
+                )}
+
+                {selectedNode && !comparison && (
                     <div className="insights-panel">
                         <div className="insights-header">
                             <h3>
@@ -386,20 +1213,86 @@ export function DiagramViewer() {
                             </button>
                         </div>
                         <div className="insights-content">
-                            <h4>{selectedNode}</h4>
+                            <h4>{selectedNode.label}</h4>
+                            {explainedDiagramType && (
+                                <div className="insights-source">
+                                    From the {DIAGRAM_TYPE_LABELS[explainedDiagramType]} diagram
+                                    {explainedDiagramType !== activeDiagramType && ' (not the one shown)'}
+                                </div>
+                            )}
                             {explaining ? (
                                 <div className="explaining">
                                     <div className="loading-spinner small"></div>
                                     <p>Analyzing component...</p>
                                 </div>
                             ) : (
-                                <p>{nodeExplanation}</p>
+                                <>
+                                    <p>{nodeExplanation}</p>
+                                    <div className="insights-footer">
+                                        {explanationSavedAt && (
+                                            <span>Saved {new Date(explanationSavedAt).toLocaleDateString()}</span>
+                                        )}
+                                        <button
+                                            className="reexplain-btn"
+                                            onClick={() => explainNode(selectedNode, true)}
+                                            title="Generate a fresh explanation"
+                                        >
+                                            <RefreshCw size={14} />
+                                            Re-explain
+                                        </button>
+                                    </div>
+                                </>
                             )}
                         </div>
                     </div>
                 )}
             </div>
 
+            <ShareLinksModal isOpen={showShare} repo={repo} onClose={() => setShowShare(false)} />
+            <ImageExportModal
+                isOpen={showImageExport}
+                getSvg={() => diagramRef.current?.querySelector('svg') ?? null}
+                filename={`${repo.repo_name}-${activeDiagramType}`}
+                themeBackground={themeColours.background}
+                onClose={() => setShowImageExport(false)}
+            />
+            {showThemeSettings && (
+                <ThemeSettingsPanel
+                    themes={diagramThemes}
+                    previewCode={displayedCode}
+                    onClose={() => setShowThemeSettings(false)}
+                />
+            )}
+            <EmbedModal
+                key={`${activeScopeId ?? 'repo'}:${activeDiagramType}`}
+                isOpen={showEmbed}
+                repo={repo}
+                diagramType={activeDiagramType}
+                scopeId={activeScopeId}
+                onClose={() => setShowEmbed(false)}
+            />
+
+            <ConfirmModal
+                isOpen={!!restoreCandidate}
+                title="Restore Version"
+                message={restoreCandidate
+                    ? `Make the version from ${new Date(restoreCandidate.created_at).toLocaleString()} the current ${restoreCandidate.diagram_type} diagram? The current diagram stays in the history.`
+                    : ''}
+                confirmText="Restore"
+                onConfirm={handleRestore}
+                onCancel={() => setRestoreCandidate(null)}
+            />
+
+            <ConfirmModal
+                isOpen={showDiscardConfirm}
+                title="Discard Changes"
+                message="You have unsaved changes to this diagram. Discard them?"
+                confirmText="Discard"
+                onConfirm={stopEditing}
+                onCancel={() => setShowDiscardConfirm(false)}
+                dangerous={true}
+            />
+
             {repo.last_scanned_at && (
                 <footer className="viewer-footer">
                     Last updated: {new Date(repo.last_scanned_at).toLocaleString()}
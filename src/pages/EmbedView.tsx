@@ -0,0 +1,94 @@
+import { useEffect, useState } from 'react'
+import { useParams, useSearchParams } from 'react-router-dom'
+import type { RepositoryDiagram } from '../lib/supabase'
+import { ShareService, type SharedRepository } from '../lib/shares'
+import { ApiError } from '../lib/api'
+import { EMBED_REFRESH_MS, EMBED_THEMES, type EmbedTheme } from '../lib/embed'
+import { DiagramCanvas } from '../components/DiagramCanvas'
+
+function isEmbedTheme(value: string | null): value is EmbedTheme {
+    return !!value && value in EMBED_THEMES
+}
+
+// Embeds can't prompt for a password, so a protected link gets its own message
+function errorMessage(err: unknown): string {
+    const status = err instanceof ApiError ? err.statusCode : undefined
+    if (status === 401) return "This link is password-protected and can't be embedded."
+    if (status === 404 || status === 410) return 'This diagram is no longer shared.'
+    return "This diagram couldn't be loaded."
+}
+
+/**
+ * Chrome-less single diagram for iframes on other sites
+ * Re-checks the share link periodically so regenerated diagrams show up
+ * without the host page reloading.
+ */
+export function EmbedView() {
+    const { token } = useParams<{ token: string }>()
+    const [searchParams] = useSearchParams()
+    const [repo, setRepo] = useState<SharedRepository | null>(null)
+    const [error, setError] = useState<string | null>(null)
+
+    const requestedTheme = searchParams.get('theme')
+    const theme: EmbedTheme = isEmbedTheme(requestedTheme) ? requestedTheme : 'dark'
+    const diagramType = searchParams.get('type') as RepositoryDiagram['diagram_type'] | null
+    const scopeId = searchParams.get('scope')
+    const controls = searchParams.get('controls') !== '0'
+
+    useEffect(() => {
+        if (!token) return
+        let cancelled = false
+
+        // Only the first load counts as a view
+        const load = (countView: boolean) => {
+            ShareService.open(token, undefined, { countView })
+                .then(data => {
+                    if (cancelled) return
+                    setRepo(prev => (JSON.stringify(prev?.diagrams) === JSON.stringify(data.diagrams) ? prev : data))
+                    setError(null)
+                })
+                .catch(err => {
+                    console.error('Failed to load embedded diagram:', err)
+                    if (!cancelled) setError(errorMessage(err))
+                })
+        }
+
+        load(true)
+        const timer = setInterval(() => load(false), EMBED_REFRESH_MS)
+        return () => {
+            cancelled = true
+            clearInterval(timer)
+        }
+    }, [token])
+
+    const inScope = repo?.diagrams.filter(d => (d.scope_id ?? null) === scopeId) ?? []
+    const diagram = inScope.find(d => d.diagram_type === diagramType) ?? inScope[0]
+
+    return (
+        <div className={`embed-view embed-${theme}`}>
+            {diagram ? (
+                <DiagramCanvas
+                    code={diagram.diagram_code}
+                    idPrefix="embed-diagram"
+                    theme={EMBED_THEMES[theme]}
+                    controls={controls}
+                    sandboxed
+                />
+            ) : (
+                <div className="embed-message">
+                    {error ?? (repo ? 'No diagram to show yet.' : 'Loading diagram...')}
+                </div>
+            )}
+            {repo && (
+                <a
+                    className="embed-attribution"
+                    href={`/share/${token}`}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                >
+                    {repo.repo_owner}/{repo.repo_name}
+                </a>
+            )}
+        </div>
+    )
+}
@@ -1,11 +1,18 @@
-import { useState, useEffect } from 'react'
+import { useState, useEffect, useCallback } from 'react'
 import { useParams, useNavigate } from 'react-router-dom'
 import { useAuth } from '../hooks/useAuth'
-import { supabase } from '../lib/supabase'
+import { useJobs } from '../hooks/useJobs'
+import { useRealtime } from '../hooks/useRealtime'
 import type { Repository } from '../lib/supabase'
-import { ArrowLeft, RefreshCw, Copy, Check, FileText, Download } from 'lucide-react'
+import { RepositoryService } from '../lib/repositories'
+import { applyRepositoryChange } from '../lib/realtime'
+import { getUserFriendlyErrorMessage } from '../lib/api'
+import { ArrowLeft, RefreshCw, Copy, Check, FileText, Download, Share2 } from 'lucide-react'
 import { downloadTextFile } from '../lib/export'
 import { showToast } from '../lib/toast'
+import { displayRef } from '../lib/github'
+import { ShareLinksModal } from '../components/ShareLinksModal'
+import { RefPicker } from '../components/RefPicker'
 import ReactMarkdown from 'react-markdown'
 import remarkGfm from 'remark-gfm'
 
@@ -13,66 +20,58 @@ import remarkGfm from 'remark-gfm'
 export function ReadmeViewer() {
     const { id } = useParams<{ id: string }>()
     const navigate = useNavigate()
-    const { session, profile } = useAuth()
+    const { user, session, profile } = useAuth()
+    const { submitReadmeJob, activeJobFor, lastFinishedJob } = useJobs()
     const [repo, setRepo] = useState<Repository | null>(null)
     const [loading, setLoading] = useState(true)
-    const [updating, setUpdating] = useState(false)
     const [copied, setCopied] = useState(false)
+    const [showShare, setShowShare] = useState(false)
+    // Ref picked for the next update; until one is picked, the README's current ref
+    const [chosenRef, setChosenRef] = useState<string | null | undefined>(undefined)
+    const ref = chosenRef === undefined ? repo?.readme_ref ?? null : chosenRef
 
-    useEffect(() => {
-        fetchRepository()
-    }, [id])
-
-    const fetchRepository = async () => {
+    const fetchRepository = useCallback(async (force = false) => {
         if (!id) return
 
-        const { data, error } = await supabase
-            .from('repositories')
-            .select('*')
-            .eq('id', id)
-            .single()
+        await RepositoryService.get(id, { force })
+            .then(data => setRepo(data))
+            .catch(err => {
+                console.error('Failed to load repository:', err)
+                showToast.error(getUserFriendlyErrorMessage(err))
+            })
+            .finally(() => setLoading(false))
+    }, [id])
 
-        if (!error && data) {
-            setRepo(data)
-        }
-        setLoading(false)
-    }
+    useEffect(() => {
+        fetchRepository()
+    }, [fetchRepository])
 
-    const handleUpdateReadme = async () => {
+    // Reload when a generation job for this repository finishes
+    useEffect(() => {
+        if (lastFinishedJob?.repository_id === id) {
+            fetchRepository(true)
+        }
+    }, [lastFinishedJob, id, fetchRepository])
+
+    // README regenerated elsewhere appears without a reload
+    useRealtime(id ? `readme:${id}` : null, [
+        {
+            table: 'repositories',
+            filter: `id=eq.${id}`,
+            onChange: payload => setRepo(prev => (prev ? applyRepositoryChange(prev, payload) : prev)),
+        },
+    ])
+
+    const handleUpdateReadme = () => {
         if (!session?.provider_token || !profile || !repo) return
 
-        setUpdating(true)
-
-        try {
-            const { data, error } = await supabase.functions.invoke('generate-readme', {
-                headers: {
-                    Authorization: `Bearer ${session.access_token}`,
-                },
-                body: {
-                    repoOwner: repo.repo_owner,
-                    repoName: repo.repo_name,
-                    githubToken: session.provider_token,
-                },
-            })
-
-            if (error) throw error
-
-            await supabase
-                .from('repositories')
-                .update({
-                    readme_content: data.readmeContent,
-                    last_scanned_at: new Date().toISOString(),
-                })
-                .eq('id', repo.id)
-
-            fetchRepository()
-        } catch (error) {
-            console.error('Failed to update README:', error)
-        } finally {
-            setUpdating(false)
-        }
+        // Runs in the background; the viewer refreshes when the job finishes
+        submitReadmeJob(repo, ref)
     }
 
+    const updateJob = repo ? activeJobFor(repo.id, 'readme') : undefined
+    const updating = !!updateJob
+
     const handleCopy = async () => {
         if (!repo?.readme_content) return
 
@@ -139,13 +138,28 @@ export function ReadmeViewer() {
                         Download
                     </button>
 
+                    {repo.user_id === user?.id && (
+                        <button onClick={() => setShowShare(true)} className="copy-btn">
+                            <Share2 size={18} />
+                            Share
+                        </button>
+                    )}
+
+                    <RefPicker
+                        owner={repo.repo_owner}
+                        repo={repo.repo_name}
+                        value={ref}
+                        onChange={setChosenRef}
+                        disabled={updating}
+                    />
+
                     <button
                         className="update-btn"
                         onClick={handleUpdateReadme}
-                        disabled={updating}
+                        disabled={updating || ref === ''}
                     >
                         <RefreshCw size={18} className={updating ? 'spinning' : ''} />
-                        {updating ? 'Updating...' : 'Update README'}
+                        {updating ? updateJob?.step || 'Queued...' : 'Update README'}
                     </button>
                 </div>
             </header>
@@ -166,9 +180,12 @@ export function ReadmeViewer() {
                 )}
             </main>
 
+            <ShareLinksModal isOpen={showShare} repo={repo} onClose={() => setShowShare(false)} />
+
             {repo.last_scanned_at && (
                 <footer className="viewer-footer">
                     Last updated: {new Date(repo.last_scanned_at).toLocaleString()}
+                    {repo.readme_ref && ` · generated from ${displayRef(repo.readme_ref)}`}
                 </footer>
             )}
         </div>
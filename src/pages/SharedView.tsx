@@ -0,0 +1,199 @@
+import { useEffect, useState } from 'react'
+import { Link, useLocation, useParams } from 'react-router-dom'
+import { ExternalLink, FileText, GitBranch, Lock } from 'lucide-react'
+import ReactMarkdown from 'react-markdown'
+import remarkGfm from 'remark-gfm'
+import type { RepositoryDiagram } from '../lib/supabase'
+import { ShareService, type SharedRepository } from '../lib/shares'
+import { ApiError, getUserFriendlyErrorMessage } from '../lib/api'
+import { DiagramCanvas } from '../components/DiagramCanvas'
+
+const TYPE_LABELS: Record<RepositoryDiagram['diagram_type'], string> = {
+    flowchart: '📊 Flowchart',
+    erd: '🗄️ ERD',
+    sequence: '💬 Sequence',
+    component: '📦 Component',
+}
+
+type LoadState =
+    | { status: 'loading' }
+    | { status: 'password'; incorrect: boolean }
+    | { status: 'unavailable'; message: string }
+    | { status: 'ready'; repo: SharedRepository }
+
+function stateFromError(err: unknown, triedPassword: boolean): LoadState {
+    const status = err instanceof ApiError ? err.statusCode : undefined
+    if (status === 401) {
+        return { status: 'password', incorrect: triedPassword }
+    }
+    if (status === 404 || status === 410) {
+        return { status: 'unavailable', message: 'This link has expired or was revoked by its owner.' }
+    }
+    console.error('Failed to open shared link:', err)
+    return { status: 'unavailable', message: getUserFriendlyErrorMessage(err) }
+}
+
+/**
+ * Read-only view of a shared repository for visitors without an account
+ * Serves both /share/:token (diagrams) and /share/:token/readme
+ */
+export function SharedView() {
+    const { token } = useParams<{ token: string }>()
+    const { pathname } = useLocation()
+    const [state, setState] = useState<LoadState>({ status: 'loading' })
+    const [password, setPassword] = useState('')
+    const [activeType, setActiveType] = useState<RepositoryDiagram['diagram_type'] | null>(null)
+    const showReadme = pathname.endsWith('/readme')
+
+    useEffect(() => {
+        if (!token) return
+        let cancelled = false
+        ShareService.open(token)
+            .then(repo => {
+                if (!cancelled) setState({ status: 'ready', repo })
+            })
+            .catch(err => {
+                if (!cancelled) setState(stateFromError(err, false))
+            })
+        return () => {
+            cancelled = true
+        }
+    }, [token])
+
+    const submitPassword = async () => {
+        if (!token || !password) return
+        try {
+            setState({ status: 'ready', repo: await ShareService.open(token, password) })
+        } catch (err) {
+            setState(stateFromError(err, true))
+        }
+    }
+
+    if (state.status === 'loading') {
+        return (
+            <div className="loading-screen">
+                <div className="loading-spinner"></div>
+                <p>Loading shared diagrams...</p>
+            </div>
+        )
+    }
+
+    if (state.status === 'unavailable') {
+        return (
+            <div className="error-screen">
+                <h2>Link unavailable</h2>
+                <p>{state.message}</p>
+            </div>
+        )
+    }
+
+    if (state.status === 'password') {
+        return (
+            <div className="error-screen">
+                <form
+                    className="shared-password-form"
+                    onSubmit={e => {
+                        e.preventDefault()
+                        submitPassword()
+                    }}
+                >
+                    <Lock size={32} />
+                    <h2>Password required</h2>
+                    <p>Enter the password you were given to view these diagrams.</p>
+                    <input
+                        type="password"
+                        value={password}
+                        onChange={e => setPassword(e.target.value)}
+                        placeholder="Password"
+                        autoFocus
+                    />
+                    {state.incorrect && <span className="shared-password-error">Incorrect password</span>}
+                    <button type="submit" disabled={!password}>View</button>
+                </form>
+            </div>
+        )
+    }
+
+    const { repo } = state
+    // Scoped diagrams are only reachable through embeds; the page shows the whole repository
+    const diagrams = repo.diagrams.filter(d => !d.scope_id)
+    const currentType = activeType ?? diagrams[0]?.diagram_type
+    const diagram = diagrams.find(d => d.diagram_type === currentType)
+
+    return (
+        <div className="diagram-viewer shared-view">
+            <header className="viewer-header">
+                <div className="header-left">
+                    <div className="repo-info">
+                        {showReadme ? <FileText size={24} /> : <GitBranch size={24} />}
+                        <div>
+                            <h1>{repo.repo_name}</h1>
+                            <span className="owner">@{repo.repo_owner}</span>
+                        </div>
+                    </div>
+                    <span className="shared-badge">Read-only</span>
+                </div>
+
+                <div className="header-controls">
+                    <Link className="viewer-btn" to={showReadme ? `/share/${token}` : `/share/${token}/readme`}>
+                        {showReadme ? <GitBranch size={18} /> : <FileText size={18} />}
+                        {showReadme ? 'Diagrams' : 'README'}
+                    </Link>
+                    <a className="viewer-btn" href={repo.repo_url} target="_blank" rel="noopener noreferrer">
+                        <ExternalLink size={18} />
+                        GitHub
+                    </a>
+                </div>
+            </header>
+
+            {showReadme ? (
+                <main className="readme-content">
+                    {repo.readme_content ? (
+                        <div className="markdown-body">
+                            <ReactMarkdown remarkPlugins={[remarkGfm]}>
+                                {repo.readme_content}
+                            </ReactMarkdown>
+                        </div>
+                    ) : (
+                        <div className="empty-state">
+                            <FileText size={48} />
+                            <h3>No README has been generated for this repository</h3>
+                        </div>
+                    )}
+                </main>
+            ) : (
+                <>
+                    {diagrams.length > 1 && (
+                        <div className="diagram-type-tabs">
+                            {diagrams.map(d => (
+                                <button
+                                    key={d.diagram_type}
+                                    className={`diagram-tab ${currentType === d.diagram_type ? 'active' : ''}`}
+                                    onClick={() => setActiveType(d.diagram_type)}
+                                >
+                                    {TYPE_LABELS[d.diagram_type]}
+                                </button>
+                            ))}
+                        </div>
+                    )}
+                    <div className="viewer-content">
+                        {diagram ? (
+                            <DiagramCanvas code={diagram.diagram_code} sandboxed />
+                        ) : (
+                            <div className="empty-state">
+                                <GitBranch size={48} />
+                                <h3>No diagrams have been generated for this repository</h3>
+                            </div>
+                        )}
+                    </div>
+                </>
+            )}
+
+            {diagram && !showReadme && (
+                <footer className="viewer-footer">
+                    Last updated: {new Date(diagram.updated_at).toLocaleString()}
+                </footer>
+            )}
+        </div>
+    )
+}
@@ -1,6 +1,7 @@
 import { useState, useEffect } from 'react'
 import { useNavigate, useParams } from 'react-router-dom'
-import { useOrganization, type OrgMember } from '../hooks/useOrganization'
+import { useOrganization } from '../hooks/useOrganization'
+import type { OrgMember } from '../lib/supabase'
 import { useAuth } from '../hooks/useAuth'
 import { showToast } from '../lib/toast'
 import { Users, Settings, Trash2, UserPlus, Crown, Shield, Eye, ArrowLeft } from 'lucide-react'